@@ -0,0 +1,136 @@
+import { describe, expect, test } from 'bun:test';
+import { parseConfig } from '../../shared/config/env.js';
+import {
+  endSession,
+  handleMcpGet,
+  handleMcpRequest,
+  type McpHandlerDeps,
+  notifySession,
+} from './mcp.handler.js';
+
+const deps: McpHandlerDeps = { config: parseConfig({}) };
+const url = 'https://mcp.example.com/mcp';
+const eventStream = 'application/json, text/event-stream';
+
+function post(body: unknown, sessionId?: string) {
+  return new Request(url, {
+    method: 'POST',
+    headers: {
+      Accept: eventStream,
+      'Content-Type': 'application/json',
+      ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+function get(sessionId: string, signal?: AbortSignal) {
+  return new Request(url, {
+    headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId },
+    signal,
+  });
+}
+
+async function initialize(): Promise<string> {
+  const response = await handleMcpRequest(
+    post({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: {
+        protocolVersion: '2025-06-18',
+        capabilities: {},
+        clientInfo: { name: 'test', version: '1.0.0' },
+      },
+    }),
+    deps,
+  );
+  return response.headers.get('Mcp-Session-Id') as string;
+}
+
+describe('handleMcpRequest', () => {
+  test('answers plain requests with JSON', async () => {
+    const sessionId = await initialize();
+
+    const response = await handleMcpRequest(
+      post({ jsonrpc: '2.0', id: 2, method: 'ping' }, sessionId),
+      deps,
+    );
+
+    expect(response.headers.get('Content-Type')).toContain('application/json');
+    expect(await response.json()).toEqual({ jsonrpc: '2.0', result: {}, id: 2 });
+    endSession(sessionId, 'test done');
+  });
+
+  test('streams tool calls with a progress token over SSE', async () => {
+    const sessionId = await initialize();
+
+    const response = await handleMcpRequest(
+      post(
+        {
+          jsonrpc: '2.0',
+          id: 3,
+          method: 'tools/call',
+          params: { name: 'no_such_tool', arguments: {}, _meta: { progressToken: 1 } },
+        },
+        sessionId,
+      ),
+      deps,
+    );
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    const [event] = (await response.text()).trim().split('\n\n');
+    const message = JSON.parse(event?.replace(/^event: message\ndata: /, '') ?? '');
+    expect(message).toMatchObject({ jsonrpc: '2.0', id: 3 });
+    endSession(sessionId, 'test done');
+  });
+
+  test('accepts client responses for unknown requests', async () => {
+    const response = await handleMcpRequest(
+      post({ jsonrpc: '2.0', id: 'unknown', result: {} }, 'any-session'),
+      deps,
+    );
+
+    expect(response.status).toBe(202);
+  });
+});
+
+describe('handleMcpGet', () => {
+  test('delivers notifications on the session stream', async () => {
+    const sessionId = await initialize();
+    const controller = new AbortController();
+
+    const response = handleMcpGet(get(sessionId, controller.signal), deps);
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(handleMcpGet(get(sessionId), deps).status).toBe(409);
+
+    const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+    const notification = {
+      method: 'notifications/resources/updated',
+      params: { uri: 'replicate://predictions/abc' },
+    };
+    const read = reader.read();
+    await notifySession(sessionId, notification);
+    const { value } = await read;
+
+    expect(new TextDecoder().decode(value)).toBe(
+      `event: message\ndata: ${JSON.stringify({ jsonrpc: '2.0', ...notification })}\n\n`,
+    );
+
+    controller.abort();
+    expect(handleMcpGet(get(sessionId), deps).status).toBe(200);
+    endSession(sessionId, 'test done');
+  });
+
+  test('rejects unknown sessions and clients without SSE', async () => {
+    expect(handleMcpGet(get('missing'), deps).status).toBe(404);
+    expect(
+      handleMcpGet(
+        new Request(url, {
+          headers: { Accept: 'application/json', 'Mcp-Session-Id': 'missing' },
+        }),
+        deps,
+      ).status,
+    ).toBe(406);
+  });
+});
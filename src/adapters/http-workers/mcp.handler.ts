@@ -1,15 +1,40 @@
 /**
  * MCP endpoint handler for Cloudflare Workers.
  * Validates internal API key and uses server-side Replicate token.
+ *
+ * Tool calls that may talk back to the client (progress, elicitation, sampling,
+ * roots) get a text/event-stream response; other requests get a JSON body.
+ * Server-initiated messages (resource updates) go out on the session's GET stream.
+ *
+ * Sessions live in this module's maps. Without the MCP_SESSIONS binding that is
+ * the isolate that happened to get the request; with it, every request of a
+ * session runs in the session's Durable Object (see session.durable-object.ts).
  */
 
+import {
+  type SessionNotifier,
+  subscriptionRegistry,
+} from '../../core/subscriptions.js';
+import { clearPredictionHistory } from '../../services/prediction-history.js';
 import type { UnifiedConfig } from '../../shared/config/env.js';
 import { withCors } from '../../shared/http/cors.js';
 import { jsonResponse } from '../../shared/http/response.js';
+import {
+  acceptsEventStream,
+  createSseStream,
+  type SseStream,
+} from '../../shared/http/sse.js';
+import {
+  createStreamChannel,
+  isJsonRpcResponse,
+  type PendingClientRequests,
+  resolveClientResponse,
+} from '../../shared/mcp/client-requests.js';
 import {
   dispatchMcpMethod,
   handleMcpNotification,
   type CancellationRegistry,
+  type JsonRpcResult,
   type McpDispatchContext,
   type McpSessionState,
 } from '../../shared/mcp/dispatcher.js';
@@ -18,6 +43,11 @@ import { sharedLogger as logger } from '../../shared/utils/logger.js';
 // Session state (in-memory, ephemeral in Workers)
 const sessionStateMap = new Map<string, McpSessionState>();
 const cancellationRegistryMap = new Map<string, CancellationRegistry>();
+// Server→client requests awaiting the client's POSTed response. The response
+// has to reach the isolate that sent the request (guaranteed with MCP_SESSIONS).
+const pendingRequestsMap = new Map<string, PendingClientRequests>();
+// Standalone SSE streams (GET), one per session
+const sessionStreams = new Map<string, SseStream>();
 
 function getCancellationRegistry(sessionId: string): CancellationRegistry {
   let registry = cancellationRegistryMap.get(sessionId);
@@ -28,6 +58,98 @@ function getCancellationRegistry(sessionId: string): CancellationRegistry {
   return registry;
 }
 
+function getPendingRequests(sessionId: string): PendingClientRequests {
+  let pending = pendingRequestsMap.get(sessionId);
+  if (!pending) {
+    pending = new Map();
+    pendingRequestsMap.set(sessionId, pending);
+  }
+  return pending;
+}
+
+/**
+ * Whether a request gets an SSE response: tool calls that can send progress
+ * (progress token) or requests (client declared elicitation, sampling or roots).
+ */
+function needsEventStream(
+  method: string | undefined,
+  params: Record<string, unknown> | undefined,
+  session: McpSessionState | undefined,
+): boolean {
+  if (method !== 'tools/call') return false;
+
+  const meta = params?._meta as { progressToken?: string | number } | undefined;
+  const capabilities = session?.clientCapabilities;
+  return (
+    meta?.progressToken !== undefined ||
+    Boolean(capabilities?.elicitation || capabilities?.sampling || capabilities?.roots)
+  );
+}
+
+/**
+ * Session state of a session handled by this isolate.
+ */
+export function readSessionState(sessionId: string): McpSessionState | undefined {
+  return sessionStateMap.get(sessionId);
+}
+
+/**
+ * Restore saved session state (Durable Object wake-up).
+ */
+export function restoreSessionState(sessionId: string, state: McpSessionState): void {
+  sessionStateMap.set(sessionId, state);
+}
+
+/**
+ * Whether the session has tool calls in flight or an open GET stream.
+ */
+export function isSessionActive(sessionId: string): boolean {
+  return (
+    (cancellationRegistryMap.get(sessionId)?.size ?? 0) > 0 ||
+    sessionStreams.has(sessionId)
+  );
+}
+
+/**
+ * End a session: abort its in-flight requests, fail pending client requests,
+ * close its GET stream and forget its state, history and subscriptions.
+ */
+export function endSession(sessionId: string, reason: string): void {
+  for (const controller of cancellationRegistryMap.get(sessionId)?.values() ?? []) {
+    controller.abort(reason);
+  }
+  for (const pending of [...(pendingRequestsMap.get(sessionId)?.values() ?? [])]) {
+    pending.reject(new Error(reason));
+  }
+  void sessionStreams.get(sessionId)?.close();
+
+  sessionStreams.delete(sessionId);
+  sessionStateMap.delete(sessionId);
+  cancellationRegistryMap.delete(sessionId);
+  pendingRequestsMap.delete(sessionId);
+  clearPredictionHistory(sessionId);
+  subscriptionRegistry.clear(sessionId);
+
+  logger.info('mcp_handler', { message: 'Session ended', sessionId, reason });
+}
+
+/**
+ * Deliver a notification on the session's GET stream
+ * (subscription notifier for Workers). Dropped if the client hasn't opened one.
+ */
+export const notifySession: SessionNotifier = async (sessionId, notification) => {
+  const stream = sessionStreams.get(sessionId);
+  if (!stream) return;
+
+  try {
+    await stream.send({ jsonrpc: '2.0', ...notification });
+  } catch (error) {
+    // Client went away without the abort reaching us
+    sessionStreams.delete(sessionId);
+    throw error;
+  }
+};
+
 /**
  * Validate internal API key from request.
  */
@@ -55,6 +177,13 @@ function validateApiKey(request: Request, config: UnifiedConfig): boolean {
 
 export interface McpHandlerDeps {
   config: UnifiedConfig;
+  /**
+   * Answer requests for unknown sessions with 404 instead of starting a new one.
+   * Set when sessions are durable, so a missing one has ended.
+   */
+  requireSession?: boolean;
+  /** Called once a request has been fully handled (SSE responses: when the stream ends) */
+  onSettled?: () => Promise<void>;
 }
 
 /**
@@ -95,8 +224,37 @@ export async function handleMcpRequest(
     id?: string | number | null;
   };
 
+  // Client's response to a server→client request (elicitation, sampling, roots)
+  if (isJsonRpcResponse(body)) {
+    if (!resolveClientResponse(getPendingRequests(sessionId), body)) {
+      logger.warning('mcp_handler', {
+        message: 'Response for unknown request',
+        sessionId,
+        requestId: body.id,
+      });
+    }
+    return withCors(new Response(null, { status: 202 }));
+  }
+
   const { method, params, id } = body;
 
+  if (
+    deps.requireSession &&
+    method !== 'initialize' &&
+    !sessionStateMap.has(sessionId)
+  ) {
+    return withCors(
+      jsonResponse(
+        {
+          jsonrpc: '2.0',
+          error: { code: -32001, message: 'Session not found' },
+          id: id ?? null,
+        },
+        { status: 404 },
+      ),
+    );
+  }
+
   logger.debug('mcp_handler', {
     message: 'Processing request',
     sessionId,
@@ -124,26 +282,153 @@ export async function handleMcpRequest(
     if (method) {
       handleMcpNotification(method, params, dispatchContext);
     }
+    await deps.onSettled?.();
     return withCors(new Response(null, { status: 202 }));
   }
 
+  // Client hung up before the response finished - cancel in-flight work
+  const onDisconnect = () => {
+    const controller = dispatchContext.cancellationRegistry?.get(id);
+    if (controller) {
+      logger.info('mcp_handler', {
+        message: 'Client disconnected, request cancelled',
+        sessionId,
+        requestId: id,
+      });
+      controller.abort('Client disconnected');
+    }
+  };
+  request.signal?.addEventListener('abort', onDisconnect, { once: true });
+
+  // Tool calls that may talk back to the client get an SSE response, so
+  // progress and server→client requests are delivered before the final result
+  if (
+    needsEventStream(method, params, sessionStateMap.get(sessionId)) &&
+    acceptsEventStream(request)
+  ) {
+    const sse = createSseStream({ headers: { 'Mcp-Session-Id': sessionId } });
+    dispatchContext.client = createStreamChannel({
+      send: sse.send,
+      pending: getPendingRequests(sessionId),
+      getClientCapabilities: () => sessionStateMap.get(sessionId)?.clientCapabilities,
+      signal: request.signal,
+    });
+
+    void dispatchMcpMethod(method, params, dispatchContext, id)
+      .then((result) => sse.send(toJsonRpcMessage(result, id)))
+      .catch((error) => {
+        logger.error('mcp_handler', {
+          message: 'Failed to stream response',
+          sessionId,
+          error: (error as Error).message,
+        });
+      })
+      .finally(() => {
+        request.signal?.removeEventListener('abort', onDisconnect);
+        void sse.close();
+        void deps.onSettled?.();
+      });
+
+    return sse.response;
+  }
+
   // Dispatch JSON-RPC request
   const result = await dispatchMcpMethod(method, params, dispatchContext, id);
+  request.signal?.removeEventListener('abort', onDisconnect);
+  await deps.onSettled?.();
 
   // Build response
-  const response = jsonResponse({
+  const response = jsonResponse(toJsonRpcMessage(result, id));
+
+  response.headers.set('Mcp-Session-Id', sessionId);
+  return withCors(response);
+}
+
+/**
+ * Build a JSON-RPC response message from a dispatch result.
+ */
+function toJsonRpcMessage(result: JsonRpcResult, id: string | number) {
+  return {
     jsonrpc: '2.0',
     ...(result.error ? { error: result.error } : { result: result.result }),
     id,
-  });
+  };
+}
 
-  response.headers.set('Mcp-Session-Id', sessionId);
-  return withCors(response);
+/**
+ * Handle MCP GET request: open the session's standalone SSE stream for
+ * server-initiated messages (resource updates).
+ */
+export function handleMcpGet(request: Request, deps: McpHandlerDeps): Response {
+  if (!validateApiKey(request, deps.config)) {
+    return withCors(
+      new Response('Unauthorized: Invalid or missing API key', { status: 401 }),
+    );
+  }
+
+  if (!acceptsEventStream(request)) {
+    return withCors(
+      new Response('Not Acceptable: Client must accept text/event-stream', {
+        status: 406,
+      }),
+    );
+  }
+
+  const sessionId = request.headers.get('Mcp-Session-Id')?.trim();
+  if (!sessionId) {
+    return withCors(
+      new Response('Bad Request: Mcp-Session-Id header is required', { status: 400 }),
+    );
+  }
+  if (!sessionStateMap.has(sessionId)) {
+    return withCors(new Response('Session not found', { status: 404 }));
+  }
+  if (sessionStreams.has(sessionId)) {
+    return withCors(
+      new Response('Conflict: Only one SSE stream is allowed per session', {
+        status: 409,
+      }),
+    );
+  }
+
+  const sse = createSseStream({ headers: { 'Mcp-Session-Id': sessionId } });
+  sessionStreams.set(sessionId, sse);
+
+  request.signal?.addEventListener(
+    'abort',
+    () => {
+      if (sessionStreams.get(sessionId) === sse) {
+        sessionStreams.delete(sessionId);
+      }
+      void sse.close();
+    },
+    { once: true },
+  );
+
+  logger.debug('mcp_handler', { message: 'Standalone SSE stream opened', sessionId });
+  return sse.response;
 }
 
 /**
- * Handle MCP GET request (returns 405 per spec).
+ * Handle MCP DELETE request: terminate the session.
  */
-export function handleMcpGet(): Response {
-  return withCors(new Response('Method Not Allowed', { status: 405 }));
+export function handleMcpDelete(request: Request, deps: McpHandlerDeps): Response {
+  if (!validateApiKey(request, deps.config)) {
+    return withCors(
+      new Response('Unauthorized: Invalid or missing API key', { status: 401 }),
+    );
+  }
+
+  const sessionId = request.headers.get('Mcp-Session-Id')?.trim();
+  if (!sessionId) {
+    return withCors(
+      new Response('Bad Request: Mcp-Session-Id header is required', { status: 400 }),
+    );
+  }
+  if (!sessionStateMap.has(sessionId)) {
+    return withCors(new Response('Session not found', { status: 404 }));
+  }
+
+  endSession(sessionId, 'Session terminated by client');
+  return withCors(new Response(null, { status: 200 }));
 }
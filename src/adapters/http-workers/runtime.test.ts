@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import type { R2Bucket } from '@cloudflare/workers-types';
+import {
+  getOutputStorage,
+  setOutputStorage,
+} from '../../services/storage/output-storage.js';
+import { setupRuntime, type WorkerEnv } from './runtime.js';
+
+const env: WorkerEnv = { OUTPUTS: {} as R2Bucket };
+
+afterEach(() => {
+  setOutputStorage(null);
+});
+
+describe('setupRuntime', () => {
+  test('builds output URLs from the request origin', () => {
+    setupRuntime(env, 'https://mcp.example.com');
+    expect(getOutputStorage()?.urlFor('abc/0.png')).toBe(
+      'https://mcp.example.com/files/abc/0.png',
+    );
+  });
+
+  test('keeps the existing storage when called without an origin', () => {
+    setupRuntime(env, 'https://mcp.example.com');
+    const storage = getOutputStorage();
+    setupRuntime(env, '');
+    expect(getOutputStorage()).toBe(storage);
+  });
+
+  test('still sets up storage without an origin when none exists', () => {
+    setupRuntime(env, '');
+    expect(getOutputStorage()).not.toBeNull();
+  });
+});
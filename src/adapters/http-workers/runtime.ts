@@ -0,0 +1,89 @@
+/**
+ * Per-request runtime setup for Cloudflare Workers: bindings, config and the
+ * module-level singletons shared code reads (storage, cache, notifier).
+ * Used by the Worker entry and the session Durable Object.
+ */
+
+import type {
+  DurableObjectNamespace,
+  KVNamespace,
+  R2Bucket,
+} from '@cloudflare/workers-types';
+import { subscriptionRegistry } from '../../core/subscriptions.js';
+import { setCacheStore } from '../../services/cache/cache-store.js';
+import { createKvCache } from '../../services/cache/kv.cache.js';
+import { setPredictionWatching } from '../../services/prediction-watcher.js';
+import {
+  getOutputStorage,
+  setOutputStorage,
+} from '../../services/storage/output-storage.js';
+import { createR2Storage } from '../../services/storage/r2.storage.js';
+import { parseConfig, type UnifiedConfig } from '../../shared/config/env.js';
+import { notifySession } from './mcp.handler.js';
+
+export interface WorkerEnv {
+  REPLICATE_API_TOKEN?: string;
+  MCP_TITLE?: string;
+  MCP_VERSION?: string;
+  NODE_ENV?: string;
+  LOG_LEVEL?: string;
+  /** R2 bucket for stored outputs (optional - enables stable image URLs) */
+  OUTPUTS?: R2Bucket;
+  /** KV namespace for the model search/schema cache (optional - falls back to per-isolate memory) */
+  TOKENS?: KVNamespace;
+  /** Durable Object namespace for MCP sessions (optional - falls back to per-isolate memory) */
+  MCP_SESSIONS?: DurableObjectNamespace;
+  [key: string]: unknown;
+}
+
+/**
+ * Shim process.env for shared modules.
+ */
+function shimProcessEnv(env: WorkerEnv): void {
+  const g = globalThis as unknown as {
+    process?: { env?: Record<string, unknown> };
+  };
+  g.process = g.process || {};
+  g.process.env = { ...(g.process.env ?? {}), ...(env as Record<string, unknown>) };
+}
+
+/**
+ * Configure R2 output storage when the OUTPUTS bucket is bound.
+ * Without an origin (alarms, cron) the storage already set up by a request
+ * is kept, so in-flight requests don't start returning relative URLs.
+ */
+function configureOutputStorage(
+  env: WorkerEnv,
+  config: UnifiedConfig,
+  origin: string,
+): void {
+  const baseUrl = config.PUBLIC_URL || origin;
+  if (!baseUrl && env.OUTPUTS && getOutputStorage()) {
+    return;
+  }
+  setOutputStorage(
+    env.OUTPUTS
+      ? createR2Storage({
+          bucket: env.OUTPUTS,
+          baseUrl,
+          retentionHours: config.OUTPUT_RETENTION_HOURS,
+        })
+      : null,
+  );
+}
+
+/**
+ * Prepare shared modules for a request and return its config.
+ * `origin` is the Worker's public origin (the base of stored output URLs).
+ */
+export function setupRuntime(env: WorkerEnv, origin: string): UnifiedConfig {
+  shimProcessEnv(env);
+  const config = parseConfig(env as Record<string, unknown>);
+  configureOutputStorage(env, config, origin);
+  setCacheStore(env.TOKENS ? createKvCache({ namespace: env.TOKENS }) : null);
+  // Resource updates go out on the session's GET stream
+  subscriptionRegistry.setNotifier(notifySession);
+  // Polling timers don't survive the response without a Durable Object
+  setPredictionWatching(Boolean(env.MCP_SESSIONS));
+  return config;
+}
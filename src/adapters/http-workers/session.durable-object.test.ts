@@ -0,0 +1,177 @@
+import { describe, expect, test } from 'bun:test';
+import type {
+  DurableObjectNamespace,
+  DurableObjectState,
+} from '@cloudflare/workers-types';
+import { endSession } from './mcp.handler.js';
+import { forwardToSession, McpSessionObject } from './session.durable-object.js';
+
+const url = 'https://mcp.example.com/mcp';
+
+/** In-memory stand-in for a Durable Object's state and storage */
+function createState() {
+  const values = new Map<string, unknown>();
+  let ready: Promise<unknown> = Promise.resolve();
+  const storage = {
+    alarm: null as number | null,
+    values,
+    get: async (key: string) => structuredClone(values.get(key)),
+    put: async (key: string, value: unknown) => {
+      values.set(key, structuredClone(value));
+    },
+    setAlarm: async (time: number) => {
+      storage.alarm = time;
+    },
+    deleteAlarm: async () => {
+      storage.alarm = null;
+    },
+    deleteAll: async () => {
+      values.clear();
+    },
+  };
+  const state = {
+    storage,
+    blockConcurrencyWhile: (callback: () => Promise<unknown>) => {
+      ready = callback();
+      return ready;
+    },
+  };
+  return {
+    storage,
+    state: state as unknown as DurableObjectState,
+    ready: () => ready,
+  };
+}
+
+function mcpRequest(sessionId: string, body: unknown) {
+  return new Request(url, {
+    method: 'POST',
+    headers: {
+      Accept: 'application/json, text/event-stream',
+      'Content-Type': 'application/json',
+      'Mcp-Session-Id': sessionId,
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+const ping = (sessionId: string) =>
+  mcpRequest(sessionId, { jsonrpc: '2.0', id: 2, method: 'ping' });
+
+async function startSession(object: McpSessionObject): Promise<string> {
+  const sessionId = crypto.randomUUID();
+  const response = await object.fetch(
+    mcpRequest(sessionId, {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: {
+        protocolVersion: '2025-06-18',
+        capabilities: {},
+        clientInfo: { name: 'test', version: '1.0.0' },
+      },
+    }),
+  );
+  expect(response.status).toBe(200);
+  return sessionId;
+}
+
+describe('McpSessionObject', () => {
+  test('saves the session and restores it when loaded again', async () => {
+    const { state, storage, ready } = createState();
+    const sessionId = await startSession(new McpSessionObject(state, {}));
+
+    expect(storage.values.get('session')).toMatchObject({ sessionId });
+    expect(storage.alarm).toBeGreaterThan(Date.now());
+
+    // The object is evicted: in-memory state is gone, storage is kept
+    endSession(sessionId, 'Object evicted');
+    const unsaved = new McpSessionObject(createState().state, {});
+    expect((await unsaved.fetch(ping(sessionId))).status).toBe(404);
+
+    const restored = new McpSessionObject(state, {});
+    await ready();
+
+    expect((await restored.fetch(ping(sessionId))).status).toBe(200);
+  });
+
+  test('ends idle sessions when the alarm fires', async () => {
+    const { state, storage } = createState();
+    const object = new McpSessionObject(state, {});
+    const sessionId = await startSession(object);
+
+    await object.alarm();
+
+    expect(storage.values.size).toBe(0);
+    expect(storage.alarm).toBeNull();
+    expect((await object.fetch(ping(sessionId))).status).toBe(404);
+  });
+
+  test('keeps sessions with an open GET stream', async () => {
+    const { state, storage } = createState();
+    const object = new McpSessionObject(state, {});
+    const sessionId = await startSession(object);
+    const controller = new AbortController();
+    await object.fetch(
+      new Request(url, {
+        headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId },
+        signal: controller.signal,
+      }),
+    );
+    storage.alarm = null;
+
+    await object.alarm();
+
+    expect(storage.alarm).toBeGreaterThan(Date.now());
+    expect((await object.fetch(ping(sessionId))).status).toBe(200);
+    controller.abort();
+    await object.alarm();
+  });
+
+  test('DELETE ends the session and clears its storage', async () => {
+    const { state, storage } = createState();
+    const object = new McpSessionObject(state, {});
+    const sessionId = await startSession(object);
+
+    const response = await object.fetch(
+      new Request(url, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId } }),
+    );
+
+    expect(response.status).toBe(200);
+    expect(storage.values.size).toBe(0);
+    expect((await object.fetch(ping(sessionId))).status).toBe(404);
+  });
+});
+
+describe('forwardToSession', () => {
+  function createNamespace() {
+    const forwarded: Request[] = [];
+    const namespace = {
+      idFromName: (name: string) => name,
+      get: () => ({
+        fetch: async (request: Request) => {
+          forwarded.push(request);
+          return new Response(null, { status: 202 });
+        },
+      }),
+    };
+    return { forwarded, namespace: namespace as unknown as DurableObjectNamespace };
+  }
+
+  test('gives new sessions an id before routing them', async () => {
+    const { forwarded, namespace } = createNamespace();
+
+    await forwardToSession(namespace, new Request(url, { method: 'POST', body: '{}' }));
+
+    expect(forwarded[0]?.headers.get('Mcp-Session-Id')).toBeString();
+  });
+
+  test('requires a session id on GET and DELETE', async () => {
+    const { forwarded, namespace } = createNamespace();
+
+    const response = await forwardToSession(namespace, new Request(url));
+
+    expect(response.status).toBe(400);
+    expect(forwarded).toHaveLength(0);
+  });
+});
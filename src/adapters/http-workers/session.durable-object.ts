@@ -0,0 +1,190 @@
+/**
+ * Durable Object holding one MCP session (Workers, MCP_SESSIONS binding).
+ *
+ * The Worker routes every /mcp request with the same Mcp-Session-Id to one
+ * object, so cancellations, responses to server→client requests and the GET
+ * stream reach the isolate running the session's tool calls. Initialization
+ * state, prediction history and resource subscriptions are saved to storage
+ * after each request and restored when the object is loaded again. An alarm
+ * ends sessions that stay idle for SESSION_IDLE_MINUTES.
+ */
+
+import type {
+  DurableObjectNamespace,
+  DurableObjectState,
+} from '@cloudflare/workers-types';
+import { subscriptionRegistry } from '../../core/subscriptions.js';
+import {
+  listRecordedPredictions,
+  type PredictionRecord,
+  restorePredictionHistory,
+} from '../../services/prediction-history.js';
+import { withCors } from '../../shared/http/cors.js';
+import type { McpSessionState } from '../../shared/mcp/dispatcher.js';
+import { subscribeToResource } from '../../shared/resources/registry.js';
+import { sharedLogger as logger } from '../../shared/utils/logger.js';
+import {
+  endSession,
+  handleMcpDelete,
+  handleMcpGet,
+  handleMcpRequest,
+  isSessionActive,
+  readSessionState,
+  restoreSessionState,
+} from './mcp.handler.js';
+import { setupRuntime, type WorkerEnv } from './runtime.js';
+
+/** Saved session, restored when the object is loaded */
+interface SessionSnapshot {
+  sessionId: string;
+  state: McpSessionState;
+  /** Newest first */
+  predictions: PredictionRecord[];
+  /** Subscribed resource URIs */
+  subscriptions: string[];
+}
+
+const SNAPSHOT_KEY = 'session';
+
+/**
+ * Route an /mcp request to its session's Durable Object.
+ * POST without Mcp-Session-Id starts a new session (initialize).
+ */
+export async function forwardToSession(
+  namespace: DurableObjectNamespace,
+  request: Request,
+): Promise<Response> {
+  const incomingSessionId = request.headers.get('Mcp-Session-Id')?.trim();
+  if (!incomingSessionId && request.method !== 'POST') {
+    return withCors(
+      new Response('Bad Request: Mcp-Session-Id header is required', { status: 400 }),
+    );
+  }
+
+  const sessionId = incomingSessionId || crypto.randomUUID();
+  const headers = new Headers(request.headers);
+  headers.set('Mcp-Session-Id', sessionId);
+
+  const stub = namespace.get(namespace.idFromName(sessionId));
+  const forwarded = new Request(request, { headers });
+  return (await stub.fetch(
+    forwarded as unknown as Parameters<typeof stub.fetch>[0],
+  )) as unknown as Response;
+}
+
+/**
+ * One MCP session. Exported from the Worker entry as the MCP_SESSIONS class.
+ */
+export class McpSessionObject {
+  private sessionId: string | undefined;
+
+  constructor(
+    private readonly state: DurableObjectState,
+    private readonly env: WorkerEnv,
+  ) {
+    void state.blockConcurrencyWhile(async () => {
+      const snapshot = await state.storage.get<SessionSnapshot>(SNAPSHOT_KEY);
+      if (snapshot) {
+        this.restore(snapshot);
+      }
+    });
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const config = setupRuntime(this.env, new URL(request.url).origin);
+    const sessionId = request.headers.get('Mcp-Session-Id')?.trim() ?? '';
+    this.sessionId = sessionId;
+
+    // Every request pushes expiry back
+    if (config.SESSION_IDLE_MINUTES > 0) {
+      await this.state.storage.setAlarm(
+        Date.now() + config.SESSION_IDLE_MINUTES * 60_000,
+      );
+    }
+
+    const deps = { config, requireSession: true, onSettled: () => this.save() };
+    switch (request.method) {
+      case 'GET':
+        return handleMcpGet(request, deps);
+      case 'DELETE': {
+        const response = handleMcpDelete(request, deps);
+        if (response.ok) {
+          await this.clearStorage();
+        }
+        return response;
+      }
+      default:
+        return handleMcpRequest(request, deps);
+    }
+  }
+
+  /**
+   * Idle expiry. The alarm is pushed back by every request, so firing means
+   * none arrived in SESSION_IDLE_MINUTES; sessions still streaming are kept.
+   */
+  async alarm(): Promise<void> {
+    const config = setupRuntime(this.env, '');
+    const sessionId = this.sessionId;
+
+    if (sessionId && isSessionActive(sessionId) && config.SESSION_IDLE_MINUTES > 0) {
+      await this.state.storage.setAlarm(
+        Date.now() + config.SESSION_IDLE_MINUTES * 60_000,
+      );
+      return;
+    }
+
+    if (sessionId) {
+      endSession(sessionId, 'Session expired');
+    }
+    await this.clearStorage();
+  }
+
+  private restore(snapshot: SessionSnapshot): void {
+    const { sessionId } = snapshot;
+    const config = setupRuntime(this.env, '');
+    this.sessionId = sessionId;
+
+    restoreSessionState(sessionId, snapshot.state);
+    restorePredictionHistory(sessionId, snapshot.predictions);
+    // Re-subscribing restarts polling for predictions still running
+    for (const uri of snapshot.subscriptions) {
+      subscribeToResource(uri, {
+        sessionId,
+        replicateToken: config.REPLICATE_API_TOKEN,
+      });
+    }
+
+    logger.debug('mcp_session', {
+      message: 'Session restored',
+      sessionId,
+      predictions: snapshot.predictions.length,
+      subscriptions: snapshot.subscriptions.length,
+    });
+  }
+
+  private async save(): Promise<void> {
+    const sessionId = this.sessionId;
+    const state = sessionId ? readSessionState(sessionId) : undefined;
+    if (!sessionId || !state) return;
+
+    try {
+      await this.state.storage.put<SessionSnapshot>(SNAPSHOT_KEY, {
+        sessionId,
+        state,
+        predictions: listRecordedPredictions(sessionId),
+        subscriptions: subscriptionRegistry.list(sessionId),
+      });
+    } catch (error) {
+      logger.error('mcp_session', {
+        message: 'Failed to save session',
+        sessionId,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  private async clearStorage(): Promise<void> {
+    await this.state.storage.deleteAlarm();
+    await this.state.storage.deleteAll();
+  }
+}
@@ -42,6 +42,26 @@ POPULAR IMAGE MODELS:
 After search, you have all the information needed to call generate_image.`,
   },
 
+  get_model: {
+    name: 'get_model',
+    title: 'Get Model',
+    description: `Get the complete details of one Replicate model.
+
+WHEN TO USE:
+- You already know the model ("owner/name") and need its exact parameters
+- search_models output was truncated (it shows at most 10 parameters and 5 enum values)
+- You need a specific version's schema: pass "owner/name:version"
+
+RETURNS:
+- Every input parameter with type, description, default, allowed values and min/max
+- Output schema
+- Default example input (a known-good starting point for generate_image)
+- Recent versions and cover image
+
+Set "refresh": true to bypass the cache.
+The same schema is available as the resource replicate://models/{owner}/{name}.`,
+  },
+
   generate_image: {
     name: 'generate_image',
     title: 'Generate Image',
@@ -50,6 +70,8 @@ After search, you have all the information needed to call generate_image.`,
 BEFORE CALLING - CHECK THESE:
 1. Model specified? If user didn't specify a model, ASK which they prefer:
    - flux-schnell (fast ~2s), flux-dev (quality ~10s), seedream-4 (versatile)
+   If the client supports forms, you may instead omit "model" (and "input"):
+   the user then picks the model and fills in its parameters in a form
 2. Parameters known? If unsure, call search_models first to get input schema
 
 WHEN TO USE:
@@ -61,7 +83,9 @@ PROMPT HANDLING:
 - Use the user's prompt EXACTLY as provided - do not rewrite or "improve" it
 - If user says "a cat on the moon", use "a cat on the moon" not an enhanced version
 - Only add detail if user explicitly asks you to write/craft/improve the prompt
-- Some models have "enhance_prompt" option - prefer setting that to true instead of rewriting
+- When the user asks for a better prompt, set "enhance_prompt": true (a tool argument, not part of
+  "input"): the prompt is expanded for the model and both versions are reported. It uses the model's
+  own enhance_prompt option when the client can't rewrite it
 
 RESOLUTION AND ASPECT RATIO SELECTION:
 Choose aspect_ratio based on the scene content being generated:
@@ -98,11 +122,188 @@ Image Editing:
 - black-forest-labs/flux-kontext-pro: Edit with text instructions
   Input: prompt (edit instruction), image (source URL)
 
+VERSION PINNING:
+- "owner/name" runs the latest version (or the version pinned by the server)
+- "owner/name:version" or a bare 64-character version ID runs exactly that version
+- Results always report the version and seed that ran - use reproduce_prediction to iterate on a result
+- Get version IDs from get_model
+
+INPUT VALIDATION:
+- Input is checked against the model's schema before anything is run (and billed)
+- Unknown parameters, invalid enum values, out-of-range numbers and missing required fields
+  are reported with suggestions - fix them and call again
+- Obvious type mismatches are coerced (e.g. "4" → 4 for integers, "true" → true)
+
+SAVING FILES:
+- "save_to" also saves the images into a folder on the user's machine (relative to the client's first root)
+- Only works with wait: true and clients that expose roots; paths outside the roots are refused
+
+COST APPROVAL:
+- Calls estimated above the server's cost threshold need the user's approval (a confirmation form)
+- If the user declines, or the client can't show forms, nothing runs - don't retry the same call,
+  offer a cheaper model or fewer outputs instead
+
+ASYNC MODE (slow models):
+- Set "wait": false to return a prediction ID immediately instead of blocking
+- Use it for slow models (flux-dev, video models) that may exceed client timeouts
+- Then call get_prediction to poll, or cancel_prediction to abort
+
 OUTPUT HANDLING:
-- Returns image URLs that expire in 1 hour
+- Returns image URLs that expire in 1 hour, unless the result notes they are stored on this server
 - IMMEDIATELY display images to user using markdown: ![description](url)
 - For multiple images, display each one
-- Most models return 1 image, some return multiple`,
+- Most models return 1 image, some return multiple
+- Set "output_mode": "image" to receive the image inline (useful if you cannot load external URLs),
+  "resource_link" for file links, or "all" for everything`,
+  },
+
+  enhance_prompt: {
+    name: 'enhance_prompt',
+    title: 'Enhance Prompt',
+    description: `Expand a short image prompt into a detailed one written for the target model.
+
+WHEN TO USE:
+- ONLY when the user asks for a better, more detailed or "enhanced" prompt
+- To show the user a rewritten prompt before generating (generate_image with enhance_prompt: true does both in one call)
+
+HOW IT WORKS:
+- Your client's LLM rewrites the prompt through MCP sampling (the user may be asked to approve)
+- "model" selects the prompt style: FLUX (natural sentences), SDXL (comma-separated phrases), Seedream (descriptive sentences)
+- Returns both the original and the enhanced prompt - show both to the user
+
+Requires a client with sampling support.`,
+  },
+
+  generate_batch: {
+    name: 'generate_batch',
+    title: 'Generate Batch',
+    description: `Run several predictions at once and get one combined report.
+
+WHEN TO USE:
+- Same prompt across several models (to compare them)
+- Several prompts or variations on one model
+- Anything that would otherwise take multiple generate_image calls
+
+HOW IT WORKS:
+- Pass up to 10 jobs, each { model, input, label? } - the same model/input as generate_image
+- Jobs run concurrently (the server limits how many run at once)
+- Each job's input is validated against its model's schema; invalid jobs fail without running
+- One failed job doesn't stop the others - the report lists successes (with images and timings) and failures (with errors)
+- Cancelling the request cancels the whole batch
+
+OUTPUT HANDLING:
+- Display every successful job's images using markdown: ![description](url)
+- Mention failed jobs and their errors to the user`,
+  },
+
+  compare_models: {
+    name: 'compare_models',
+    title: 'Compare Models',
+    description: `Render one prompt with several models side by side.
+
+WHEN TO USE:
+- User is choosing between models ("which model is best for this?")
+- User asks to try the same prompt on flux-schnell, flux-dev, seedream-4, etc.
+
+HOW IT WORKS:
+- Pass the prompt, 2-6 models, and optionally aspect_ratio and seed
+- Parameters are translated per model from its schema: unsupported aspect ratios map to the
+  closest supported one (or to width/height), seed is dropped where unsupported - adjustments are listed
+- Models run concurrently; one failure doesn't stop the others
+- Set "contact_sheet": true to also get one labelled grid image of all results
+
+OUTPUT HANDLING:
+- Display the markdown table (image, run time, estimated cost per model) to the user
+- Cost figures are rough estimates, not billed amounts`,
+  },
+
+  reproduce_prediction: {
+    name: 'reproduce_prediction',
+    title: 'Reproduce Prediction',
+    description: `Re-run a past prediction exactly, or with a few changes.
+
+WHEN TO USE:
+- User liked a result and wants a variation ("same but at night", "try another seed")
+- User wants to regenerate an earlier image exactly
+
+HOW IT WORKS:
+- Reuses the original model version, full input and seed
+- "overrides" replaces only the given input values, e.g. { "prompt": "..." } or { "seed": 42 }
+- "new_seed": true keeps everything but the seed
+- Returns the same output as generate_image
+
+LIMITATIONS:
+- Replicate removes prediction inputs about an hour after they finish; older predictions can't be reproduced
+- Some official models hide their version and always run the latest one`,
+  },
+
+  list_predictions: {
+    name: 'list_predictions',
+    title: 'List Predictions',
+    description: `List predictions started in this session, newest first.
+
+WHEN TO USE:
+- User refers to an earlier result ("the second image", "the one with the red car")
+- To find a prediction ID for reproduce_prediction or get_prediction
+- To review what was generated so far
+
+FILTERS:
+- "status": only succeeded, failed, running (starting/processing) or canceled predictions
+- "model": only predictions of one model ("owner/name")
+- Results are paginated: pass "cursor" from the previous call to get more
+
+Each prediction is also available as the resource replicate://predictions/{id}.
+History only covers predictions started by this server in the current session.`,
+  },
+
+  get_prediction: {
+    name: 'get_prediction',
+    title: 'Get Prediction',
+    description: `Check the status of a prediction started with generate_image (wait: false).
+
+WHEN TO USE:
+- After generate_image returned a prediction ID instead of images
+- To check whether a slow generation has finished
+
+STATUS VALUES:
+- starting / processing: Still running - call get_prediction again in a few seconds
+- succeeded: Returns image URLs - display them using markdown: ![description](url)
+- failed: Returns the error message from the model
+- canceled: The prediction was aborted
+
+Image URLs expire in 1 hour unless the result notes they are stored on this server.`,
+  },
+
+  save_image: {
+    name: 'save_image',
+    title: 'Save Image',
+    description: `Save the outputs of a finished prediction into a folder on the user's machine.
+
+WHEN TO USE:
+- User wants an earlier result saved as a file ("save that to my project's assets folder")
+- For new images, generate_image with "save_to" generates and saves in one call
+
+PATHS:
+- "save_to" is a folder relative to the client's first root (e.g. "images/cats"), or an absolute path inside a root
+- Paths outside the client's roots are refused
+- File names come from the prompt and prediction ID, e.g. "a-cat-on-the-moon-abc123.webp"
+
+A server on the user's machine writes the files itself. Otherwise the result lists each target
+file with its source URL - save them with a filesystem tool if one is available.
+
+Requires a client that exposes filesystem roots.`,
+  },
+
+  cancel_prediction: {
+    name: 'cancel_prediction',
+    title: 'Cancel Prediction',
+    description: `Cancel a running prediction started with generate_image (wait: false).
+
+WHEN TO USE:
+- User no longer wants the result
+- The wrong model or parameters were used and the job should stop billing
+
+Predictions that already finished cannot be cancelled.`,
   },
 } as const satisfies Record<string, ToolMetadata>;
 
@@ -144,5 +345,5 @@ WORKFLOW:
 RULES:
 - Use the user's prompt exactly as provided - do not rewrite prompts
 - Choose aspect_ratio based on scene content (landscape for wide scenes, portrait for tall subjects)
-- Image URLs expire after 1 hour - display them immediately using markdown: ![description](url)`,
+- Image URLs expire after 1 hour (unless stored on this server) - display them immediately using markdown: ![description](url)`,
 } as const;
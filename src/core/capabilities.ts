@@ -3,8 +3,16 @@ import type { ServerCapabilities } from '@modelcontextprotocol/sdk/types.js';
 export function buildCapabilities(): ServerCapabilities {
   return {
     logging: {},
+    completions: {},
     tools: {
       listChanged: true,
     },
+    resources: {
+      subscribe: true,
+      listChanged: true,
+    },
+    prompts: {
+      listChanged: true,
+    },
   };
 }
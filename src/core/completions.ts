@@ -0,0 +1,32 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CompleteRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { resourceContext } from '../resources/index.js';
+import {
+  type CompletionRef,
+  completeSharedArgument,
+} from '../shared/mcp/completions.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Register the completion/complete handler.
+ * Uses the shared completers instead of the SDK's completable() schemas so
+ * callbacks get the session and Replicate token, as in Workers.
+ */
+export function registerCompletions(server: McpServer): void {
+  server.server.setRequestHandler(CompleteRequestSchema, async (request, extra) => {
+    const { ref, argument, context } = request.params;
+
+    const completion = await completeSharedArgument(ref as CompletionRef, argument, {
+      ...resourceContext(extra),
+      arguments: context?.arguments ?? {},
+    });
+
+    logger.debug('completions', {
+      message: 'Completed argument',
+      argument: argument.name,
+      values: completion.values.length,
+    });
+
+    return { completion };
+  });
+}
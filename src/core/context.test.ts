@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { contextRegistry } from './context.js';
+
+afterEach(() => {
+  for (const sessionId of ['session-a', 'session-b', undefined]) {
+    contextRegistry.delete(1, sessionId);
+    contextRegistry.delete('1', sessionId);
+  }
+});
+
+describe('contextRegistry', () => {
+  test('keeps the same request ID apart across sessions', () => {
+    const a = contextRegistry.create(1, 'session-a', { replicateToken: 'r8_a' });
+    const b = contextRegistry.create(1, 'session-b', { replicateToken: 'r8_b' });
+
+    expect(contextRegistry.get(1, 'session-a')).toBe(a);
+    expect(contextRegistry.get(1, 'session-b')?.replicateToken).toBe('r8_b');
+    expect(contextRegistry.get(1, undefined)).toBeUndefined();
+    expect(b).not.toBe(a);
+  });
+
+  test('cancels only the request of the given session', () => {
+    const a = contextRegistry.create(1, 'session-a');
+    const b = contextRegistry.create(1, 'session-b');
+
+    expect(contextRegistry.cancel(1, 'session-a')).toBe(true);
+    expect(a.cancellationToken.isCancelled).toBe(true);
+    expect(b.cancellationToken.isCancelled).toBe(false);
+    expect(contextRegistry.cancel(1, 'session-c')).toBe(false);
+  });
+
+  test('treats numeric and string IDs as different requests', () => {
+    contextRegistry.create(1, 'session-a');
+
+    expect(contextRegistry.get('1', 'session-a')).toBeUndefined();
+  });
+
+  test("delete removes only that session's context", () => {
+    contextRegistry.create(1, 'session-a');
+    contextRegistry.create(1, 'session-b');
+    contextRegistry.delete(1, 'session-a');
+
+    expect(contextRegistry.get(1, 'session-a')).toBeUndefined();
+    expect(contextRegistry.get(1, 'session-b')).toBeDefined();
+  });
+});
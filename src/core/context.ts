@@ -2,12 +2,19 @@ import type { RequestContext } from '../types/context.js';
 import type { CancellationToken } from '../utils/cancellation.js';
 import { createCancellationToken } from '../utils/cancellation.js';
 
+/**
+ * Key of a request: JSON-RPC IDs are only unique within a session
+ * (every client starts at 1), and 1 and "1" are different IDs.
+ */
+const contextKey = (requestId: string | number, sessionId: string | undefined) =>
+  JSON.stringify([sessionId ?? null, requestId]);
+
 /**
  * Global registry for request contexts.
- * Maps request IDs to their contexts (including cancellation tokens and replicate token).
+ * Maps session and request IDs to their contexts (including cancellation tokens and replicate token).
  */
 class ContextRegistry {
-  private contexts = new Map<string | number, RequestContext>();
+  private contexts = new Map<string, RequestContext>();
 
   /**
    * Create and register a new request context.
@@ -27,29 +34,35 @@ class ContextRegistry {
       replicateToken: data?.replicateToken,
     };
 
-    this.contexts.set(requestId, context);
+    this.contexts.set(contextKey(requestId, sessionId), context);
     return context;
   }
 
   /**
-   * Get the context for a request ID.
+   * Get the context for a request of a session.
    */
-  get(requestId: string | number): RequestContext | undefined {
-    return this.contexts.get(requestId);
+  get(
+    requestId: string | number,
+    sessionId: string | undefined,
+  ): RequestContext | undefined {
+    return this.contexts.get(contextKey(requestId, sessionId));
   }
 
   /**
-   * Get the cancellation token for a request ID.
+   * Get the cancellation token for a request of a session.
    */
-  getCancellationToken(requestId: string | number): CancellationToken | undefined {
-    return this.contexts.get(requestId)?.cancellationToken;
+  getCancellationToken(
+    requestId: string | number,
+    sessionId: string | undefined,
+  ): CancellationToken | undefined {
+    return this.get(requestId, sessionId)?.cancellationToken;
   }
 
   /**
-   * Cancel a request by its ID.
+   * Cancel a request of a session.
    */
-  cancel(requestId: string | number): boolean {
-    const context = this.contexts.get(requestId);
+  cancel(requestId: string | number, sessionId: string | undefined): boolean {
+    const context = this.get(requestId, sessionId);
     if (!context) return false;
 
     context.cancellationToken.cancel();
@@ -59,8 +72,8 @@ class ContextRegistry {
   /**
    * Delete a request context (cleanup after request completes).
    */
-  delete(requestId: string | number): void {
-    this.contexts.delete(requestId);
+  delete(requestId: string | number, sessionId: string | undefined): void {
+    this.contexts.delete(contextKey(requestId, sessionId));
   }
 
   /**
@@ -70,9 +83,9 @@ class ContextRegistry {
     const now = Date.now();
     const maxAge = 10 * 60 * 1000;
 
-    for (const [requestId, context] of this.contexts.entries()) {
+    for (const [key, context] of this.contexts.entries()) {
       if (now - context.timestamp > maxAge) {
-        this.contexts.delete(requestId);
+        this.contexts.delete(key);
       }
     }
   }
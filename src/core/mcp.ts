@@ -1,8 +1,11 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { SetLevelRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { registerPrompts } from '../prompts/index.js';
+import { registerResources } from '../resources/index.js';
 import { registerTools } from '../tools/index.js';
 import { logger } from '../utils/logger.js';
 import { buildCapabilities } from './capabilities.js';
+import { registerCompletions } from './completions.js';
 
 export interface ServerOptions {
   name: string;
@@ -52,6 +55,9 @@ export function buildServer(options: ServerOptions): McpServer {
 
   // Register handlers
   registerTools(server);
+  registerResources(server);
+  registerPrompts(server);
+  registerCompletions(server);
 
   // Register logging/setLevel handler (required when logging capability is advertised)
   server.server.setRequestHandler(
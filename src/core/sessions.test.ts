@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { sessionRegistry } from './sessions.js';
+
+// Defaults: 100 sessions, 30 idle minutes
+const IDLE_MS = 30 * 60_000;
+
+function createTransport() {
+  const transport = {
+    closed: false,
+    onclose: undefined as (() => void) | undefined,
+    close: async () => {
+      transport.closed = true;
+      transport.onclose?.();
+    },
+  };
+  return transport;
+}
+
+function addSession(sessionId: string) {
+  const transport = createTransport();
+  sessionRegistry.add(sessionId, transport as unknown as StreamableHTTPServerTransport);
+  return transport;
+}
+
+afterEach(async () => {
+  await sessionRegistry.closeAll();
+});
+
+describe('sessionRegistry', () => {
+  test('evicts sessions idle past the timeout, least recently used first', async () => {
+    const stale = addSession('stale');
+    addSession('used');
+    sessionRegistry.touch('used');
+    const now = Date.now();
+
+    expect(await sessionRegistry.evictIdle(now + IDLE_MS)).toBe(0);
+    expect(await sessionRegistry.evictIdle(now + IDLE_MS + 1)).toBe(2);
+    expect(stale.closed).toBe(true);
+    expect(sessionRegistry.size).toBe(0);
+  });
+
+  test('keeps idle sessions while a GET stream is open', async () => {
+    addSession('streaming');
+    const closeStream = sessionRegistry.openStream('streaming');
+    const later = Date.now() + IDLE_MS + 1;
+
+    expect(await sessionRegistry.evictIdle(later)).toBe(0);
+    expect(sessionRegistry.info('streaming')?.openStreams).toBe(1);
+
+    closeStream();
+    closeStream();
+    expect(sessionRegistry.info('streaming')?.openStreams).toBe(0);
+    expect(await sessionRegistry.evictIdle(later + IDLE_MS)).toBe(1);
+  });
+
+  test('evicts the least recently used session beyond the cap', () => {
+    const first = addSession('session-0');
+    for (let i = 1; i < 100; i++) {
+      addSession(`session-${i}`);
+    }
+    sessionRegistry.touch('session-0');
+
+    addSession('session-100');
+
+    expect(sessionRegistry.size).toBe(100);
+    expect(first.closed).toBe(false);
+    expect(sessionRegistry.get('session-1')).toBeUndefined();
+  });
+
+  test('forgets sessions whose transport closes', () => {
+    const transport = addSession('closing');
+    expect(sessionRegistry.info('closing')?.requestCount).toBe(1);
+
+    transport.onclose?.();
+
+    expect(sessionRegistry.get('closing')).toBeUndefined();
+    expect(sessionRegistry.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,214 @@
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { config } from '../config/env.js';
+import { clearPredictionHistory } from '../services/prediction-history.js';
+import { logger } from '../utils/logger.js';
+import { subscriptionRegistry } from './subscriptions.js';
+
+/**
+ * Metadata kept for each Node session.
+ */
+export interface SessionInfo {
+  sessionId: string;
+  clientInfo?: { name: string; version: string };
+  createdAt: number;
+  lastSeenAt: number;
+  /** HTTP requests made with this session ID (POST, GET and DELETE) */
+  requestCount: number;
+  /** Open standalone SSE streams (GET); a session with one is never idle */
+  openStreams: number;
+}
+
+interface SessionEntry {
+  transport: StreamableHTTPServerTransport;
+  info: SessionInfo;
+}
+
+/**
+ * Registry of Streamable HTTP sessions (Node).
+ * Entries are kept in least-recently-used order: sessions idle for longer than
+ * `idleMs` (no requests and no open GET stream) are evicted by the sweep, and
+ * adding a session beyond `maxSessions` evicts the least recently used one.
+ * Evicted clients must re-initialize.
+ */
+class SessionRegistry {
+  private sessions = new Map<string, SessionEntry>();
+
+  constructor(private readonly limits: { maxSessions: number; idleMs: number }) {}
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  get(sessionId: string): StreamableHTTPServerTransport | undefined {
+    return this.sessions.get(sessionId)?.transport;
+  }
+
+  info(sessionId: string): SessionInfo | undefined {
+    return this.sessions.get(sessionId)?.info;
+  }
+
+  list(): SessionInfo[] {
+    return [...this.sessions.values()].map((entry) => entry.info);
+  }
+
+  /**
+   * Register an initialized session, evicting the least recently used
+   * sessions beyond the cap. The session is removed when its transport closes.
+   */
+  add(
+    sessionId: string,
+    transport: StreamableHTTPServerTransport,
+    clientInfo?: SessionInfo['clientInfo'],
+  ): void {
+    const now = Date.now();
+    this.sessions.set(sessionId, {
+      transport,
+      info: {
+        sessionId,
+        clientInfo,
+        createdAt: now,
+        lastSeenAt: now,
+        requestCount: 1,
+        openStreams: 0,
+      },
+    });
+
+    // Chain the handler the server set on connect
+    const onclose = transport.onclose;
+    transport.onclose = () => {
+      onclose?.();
+      this.forget(sessionId, 'Transport closed');
+    };
+
+    while (
+      this.limits.maxSessions > 0 &&
+      this.sessions.size > this.limits.maxSessions
+    ) {
+      const oldest = this.sessions.keys().next().value as string;
+      void this.remove(oldest, 'Session limit reached');
+    }
+  }
+
+  /**
+   * Record a request on a session and mark it most recently used.
+   */
+  touch(sessionId: string): void {
+    const entry = this.sessions.get(sessionId);
+    if (!entry) return;
+
+    entry.info.lastSeenAt = Date.now();
+    entry.info.requestCount++;
+    this.sessions.delete(sessionId);
+    this.sessions.set(sessionId, entry);
+  }
+
+  /**
+   * Mark a standalone SSE stream (GET) as open until the returned function is
+   * called. The idle timeout restarts when the stream closes.
+   */
+  openStream(sessionId: string): () => void {
+    const entry = this.sessions.get(sessionId);
+    if (!entry) return () => {};
+
+    entry.info.openStreams++;
+    let open = true;
+    return () => {
+      if (!open) return;
+      open = false;
+      entry.info.openStreams--;
+      entry.info.lastSeenAt = Date.now();
+    };
+  }
+
+  /**
+   * End a session: close its transport and forget its history and subscriptions.
+   */
+  async remove(sessionId: string, reason: string): Promise<void> {
+    const entry = this.forget(sessionId, reason);
+    if (!entry) return;
+
+    try {
+      await entry.transport.close();
+    } catch (error) {
+      void logger.warning('sessions', {
+        message: 'Failed to close transport',
+        sessionId,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Drop a session's entry, history and subscriptions (its transport is closed
+   * or about to be).
+   */
+  private forget(sessionId: string, reason: string): SessionEntry | undefined {
+    const entry = this.sessions.get(sessionId);
+    if (!entry) return undefined;
+
+    this.sessions.delete(sessionId);
+    clearPredictionHistory(sessionId);
+    subscriptionRegistry.clear(sessionId);
+
+    void logger.info('sessions', {
+      message: 'Session ended',
+      sessionId,
+      reason,
+      client: entry.info.clientInfo?.name,
+      ageSeconds: Math.round((Date.now() - entry.info.createdAt) / 1000),
+      requests: entry.info.requestCount,
+    });
+    return entry;
+  }
+
+  /**
+   * Evict sessions without requests for longer than the idle timeout.
+   * Sessions holding a GET stream open are kept.
+   */
+  async evictIdle(now = Date.now()): Promise<number> {
+    if (this.limits.idleMs <= 0) return 0;
+
+    // LRU order: stop at the first session that is still fresh
+    const idle: string[] = [];
+    for (const [sessionId, entry] of this.sessions) {
+      if (now - entry.info.lastSeenAt <= this.limits.idleMs) break;
+      if (entry.info.openStreams > 0) continue;
+      idle.push(sessionId);
+    }
+
+    await Promise.all(idle.map((sessionId) => this.remove(sessionId, 'Idle timeout')));
+    return idle.length;
+  }
+
+  /**
+   * Close every session (shutdown).
+   */
+  async closeAll(): Promise<void> {
+    await Promise.all(
+      [...this.sessions.keys()].map((sessionId) =>
+        this.remove(sessionId, 'Server shutting down'),
+      ),
+    );
+  }
+}
+
+export const sessionRegistry = new SessionRegistry({
+  maxSessions: config.MAX_SESSIONS,
+  idleMs: config.SESSION_IDLE_MINUTES * 60_000,
+});
+
+let evictionIntervalId: ReturnType<typeof setInterval> | null = null;
+
+export function startSessionEviction(): void {
+  if (evictionIntervalId) return;
+  evictionIntervalId = setInterval(() => {
+    void sessionRegistry.evictIdle();
+  }, 60_000);
+}
+
+export function stopSessionEviction(): void {
+  if (evictionIntervalId) {
+    clearInterval(evictionIntervalId);
+    evictionIntervalId = null;
+  }
+}
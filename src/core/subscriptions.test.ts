@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import {
+  clearPredictionHistory,
+  predictionUri,
+  recordPrediction,
+  toPredictionRecord,
+  updateRecordedPrediction,
+} from '../services/prediction-history.js';
+import { subscriptionRegistry } from './subscriptions.js';
+
+const URI = predictionUri('abc');
+
+/** Collect notifications per session */
+function recordNotifications() {
+  const sent: Array<[string, unknown]> = [];
+  subscriptionRegistry.setNotifier(async (sessionId, notification) => {
+    sent.push([sessionId, notification]);
+  });
+  return sent;
+}
+
+afterEach(() => {
+  subscriptionRegistry.setNotifier(null);
+  subscriptionRegistry.clear('session-a');
+  subscriptionRegistry.clear('session-b');
+  clearPredictionHistory('session-a');
+});
+
+describe('subscriptionRegistry', () => {
+  test('notifies only sessions subscribed to the resource', async () => {
+    const sent = recordNotifications();
+    subscriptionRegistry.subscribe('session-a', URI);
+
+    await subscriptionRegistry.notifyUpdated('session-a', URI);
+    await subscriptionRegistry.notifyUpdated('session-b', URI);
+    subscriptionRegistry.unsubscribe('session-a', URI);
+    await subscriptionRegistry.notifyUpdated('session-a', URI);
+
+    expect(sent).toEqual([
+      [
+        'session-a',
+        { method: 'notifications/resources/updated', params: { uri: URI } },
+      ],
+    ]);
+    expect(subscriptionRegistry.list('session-a')).toEqual([]);
+  });
+
+  test('never throws when delivery fails', async () => {
+    subscriptionRegistry.setNotifier(async () => {
+      throw new Error('stream closed');
+    });
+    subscriptionRegistry.subscribe('session-a', URI);
+
+    await expect(
+      subscriptionRegistry.notifyUpdated('session-a', URI),
+    ).resolves.toBeUndefined();
+  });
+
+  test('prediction updates notify when status or outputs change', async () => {
+    const sent = recordNotifications();
+    subscriptionRegistry.subscribe('session-a', URI);
+    const prediction = {
+      id: 'abc',
+      status: 'processing' as const,
+      output: null,
+      error: null,
+    };
+
+    recordPrediction(
+      'session-a',
+      toPredictionRecord(prediction, {
+        model: 'acme/painter',
+        source: 'generate_image',
+        input: { prompt: 'a lighthouse' },
+        startedAt: Date.now(),
+      }),
+    );
+    updateRecordedPrediction('session-a', prediction);
+    updateRecordedPrediction('session-a', {
+      ...prediction,
+      status: 'succeeded',
+      output: ['https://replicate.delivery/x/out-0.png'],
+    });
+    await Promise.resolve();
+
+    expect(sent).toHaveLength(2);
+  });
+});
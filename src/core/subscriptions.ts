@@ -0,0 +1,84 @@
+import { logger } from '../utils/logger.js';
+
+/**
+ * Delivers a notification to one session outside of any request
+ * (Node: the session's standalone SSE GET stream).
+ */
+export type SessionNotifier = (
+  sessionId: string,
+  notification: { method: string; params?: Record<string, unknown> },
+) => Promise<void>;
+
+/**
+ * Registry of resource subscriptions (resources/subscribe), keyed by session.
+ * Subscribers receive notifications/resources/updated when a resource changes.
+ */
+class SubscriptionRegistry {
+  private subscriptions = new Map<string, Set<string>>();
+  private notifier: SessionNotifier | null = null;
+
+  /**
+   * Set how updates reach a session. Without a notifier, updates are dropped.
+   */
+  setNotifier(notifier: SessionNotifier | null): void {
+    this.notifier = notifier;
+  }
+
+  subscribe(sessionId: string, uri: string): void {
+    let uris = this.subscriptions.get(sessionId);
+    if (!uris) {
+      uris = new Set();
+      this.subscriptions.set(sessionId, uris);
+    }
+    uris.add(uri);
+  }
+
+  unsubscribe(sessionId: string, uri: string): void {
+    const uris = this.subscriptions.get(sessionId);
+    uris?.delete(uri);
+    if (uris?.size === 0) {
+      this.subscriptions.delete(sessionId);
+    }
+  }
+
+  isSubscribed(sessionId: string, uri: string): boolean {
+    return this.subscriptions.get(sessionId)?.has(uri) ?? false;
+  }
+
+  /**
+   * URIs a session is subscribed to.
+   */
+  list(sessionId: string): string[] {
+    return [...(this.subscriptions.get(sessionId) ?? [])];
+  }
+
+  /**
+   * Notify the session if it subscribed to the resource. Never throws.
+   */
+  async notifyUpdated(sessionId: string | undefined, uri: string): Promise<void> {
+    if (!sessionId || !this.notifier || !this.isSubscribed(sessionId, uri)) return;
+
+    try {
+      await this.notifier(sessionId, {
+        method: 'notifications/resources/updated',
+        params: { uri },
+      });
+    } catch (error) {
+      logger.warning('subscriptions', {
+        message: 'Failed to deliver resource update',
+        sessionId,
+        uri,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Drop all subscriptions of a session (called when the session ends).
+   */
+  clear(sessionId: string): void {
+    this.subscriptions.delete(sessionId);
+  }
+}
+
+export const subscriptionRegistry = new SubscriptionRegistry();
@@ -5,22 +5,74 @@ import { Hono } from 'hono';
 import { config } from '../config/env.js';
 import { serverMetadata } from '../config/metadata.js';
 import { buildServer } from '../core/mcp.js';
+import { startSessionEviction } from '../core/sessions.js';
+import { setCacheStore } from '../services/cache/cache-store.js';
+import { createMemoryCache } from '../services/cache/memory.cache.js';
+import { setLocalFileWriter } from '../services/root-files.js';
+import {
+  createLocalFileWriter,
+  isLoopbackHost,
+} from '../services/storage/local-file-writer.js';
+import { createLocalStorage } from '../services/storage/local.storage.js';
+import {
+  setOutputStorage,
+  startOutputCleanup,
+} from '../services/storage/output-storage.js';
+import { logger } from '../utils/logger.js';
 import { corsMiddleware } from './middlewares/cors.js';
 import { replicateAuthMiddleware, requireAuth } from './middlewares/auth.js';
+import { fileRoutes } from './routes/files.js';
 import { healthRoutes } from './routes/health.js';
 import { buildMcpRoutes } from './routes/mcp.js';
 
 export function buildHttpApp(): Hono<{ Bindings: HttpBindings }> {
   const app = new Hono<{ Bindings: HttpBindings }>();
 
-  // Build MCP server
-  const server = buildServer({
-    name: config.MCP_TITLE || serverMetadata.title,
-    version: config.MCP_VERSION,
-    instructions: serverMetadata.instructions,
-  });
+  // Build an MCP server per session - an SDK server is connected to one transport
+  const createServer = () =>
+    buildServer({
+      name: config.MCP_TITLE || serverMetadata.title,
+      version: config.MCP_VERSION,
+      instructions: serverMetadata.instructions,
+    });
 
-  const transports = new Map();
+  // Sessions idle for SESSION_IDLE_MINUTES are closed
+  startSessionEviction();
+
+  // Model search/schema cache shared by all sessions in this process
+  setCacheStore(createMemoryCache({ maxEntries: config.CACHE_MAX_ENTRIES }));
+
+  // Persist generated outputs so their URLs outlive Replicate's 1-hour expiry
+  if (config.OUTPUT_STORAGE === 'local') {
+    // The listen address only makes reachable links on this machine
+    if (!config.PUBLIC_URL && !isLoopbackHost(config.HOST)) {
+      throw new Error(
+        `PUBLIC_URL is required with OUTPUT_STORAGE=local when HOST (${config.HOST}) is not a loopback address - stored output links must be reachable by clients`,
+      );
+    }
+    const host = config.HOST.includes(':') ? `[${config.HOST}]` : config.HOST;
+    setOutputStorage(
+      createLocalStorage({
+        dir: config.OUTPUT_DIR,
+        baseUrl: config.PUBLIC_URL || `http://${host}:${config.PORT}`,
+        retentionHours: config.OUTPUT_RETENTION_HOURS,
+      }),
+    );
+    startOutputCleanup();
+  }
+
+  // With LOCAL_FILE_WRITES, a server on the client's machine writes save_to
+  // files itself; otherwise they are left to the client
+  if (config.LOCAL_FILE_WRITES) {
+    if (isLoopbackHost(config.HOST)) {
+      setLocalFileWriter(createLocalFileWriter());
+    } else {
+      void logger.warning('app', {
+        message: 'LOCAL_FILE_WRITES ignored: HOST is not a loopback address',
+        host: config.HOST,
+      });
+    }
+  }
 
   // Global middleware
   app.use('*', corsMiddleware());
@@ -28,10 +80,11 @@ export function buildHttpApp(): Hono<{ Bindings: HttpBindings }> {
 
   // Public routes
   app.route('/', healthRoutes());
+  app.route('/', fileRoutes());
 
   // Protected MCP endpoint
   app.use('/mcp', requireAuth());
-  app.route('/mcp', buildMcpRoutes({ server, transports }));
+  app.route('/mcp', buildMcpRoutes({ createServer }));
 
   return app;
 }
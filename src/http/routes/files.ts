@@ -0,0 +1,15 @@
+// Stored output files route (public - keys are unguessable prediction IDs)
+
+import type { HttpBindings } from '@hono/node-server';
+import { Hono } from 'hono';
+import { getOutputStorage } from '../../services/storage/output-storage.js';
+import { serveStoredFile } from '../../shared/http/files.js';
+
+export function fileRoutes() {
+  const app = new Hono<{ Bindings: HttpBindings }>();
+  app.get('/files/:predictionId/:filename', (c) => {
+    const key = `${c.req.param('predictionId')}/${c.req.param('filename')}`;
+    return serveStoredFile(getOutputStorage(), key);
+  });
+  return app;
+}
@@ -6,26 +6,27 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { toFetchResponse, toReqRes } from 'fetch-to-node';
 import { Hono } from 'hono';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
 import { contextRegistry } from '../../core/context.js';
+import { sessionRegistry } from '../../core/sessions.js';
+import { subscriptionRegistry } from '../../core/subscriptions.js';
 import type { ReplicateAuthContext } from '../middlewares/auth.js';
 import { logger } from '../../utils/logger.js';
 
 export function buildMcpRoutes(params: {
-  server: McpServer;
-  transports: Map<string, StreamableHTTPServerTransport>;
+  /** Builds the McpServer for a new transport (an SDK server serves one transport) */
+  createServer: () => McpServer;
 }) {
-  const { server, transports } = params;
+  const { createServer } = params;
   const app = new Hono<{ Bindings: HttpBindings }>();
 
-  const connectedTransports = new WeakSet<StreamableHTTPServerTransport>();
   const MCP_SESSION_HEADER = 'Mcp-Session-Id';
 
-  async function ensureConnected(transport: StreamableHTTPServerTransport): Promise<void> {
-    if (!connectedTransports.has(transport)) {
-      await server.connect(transport);
-      connectedTransports.add(transport);
-    }
-  }
+  // Resource updates go out on the session's standalone SSE stream (GET);
+  // the transport drops them if the client hasn't opened one
+  subscriptionRegistry.setNotifier(async (sessionId, notification) => {
+    await sessionRegistry.get(sessionId)?.send({ jsonrpc: '2.0', ...notification } as JSONRPCMessage);
+  });
 
   app.post('/', async (c) => {
     const { req, res } = toReqRes(c.req.raw);
@@ -54,9 +55,9 @@ export function buildMcpRoutes(params: {
         bodyId: (body as { id?: unknown })?.id,
       });
 
-      let transport = sessionIdHeader ? transports.get(sessionIdHeader) : undefined;
+      let transport = sessionIdHeader ? sessionRegistry.get(sessionIdHeader) : undefined;
       
-      // If session ID provided but not found, reject (stale session)
+      // If session ID provided but not found, reject (stale, ended or evicted session)
       if (sessionIdHeader && !transport && !isInitialize) {
         void logger.warning('mcp', {
           message: 'Unknown session ID - client should re-initialize',
@@ -72,12 +73,19 @@ export function buildMcpRoutes(params: {
         );
       }
       
+      if (transport && sessionIdHeader) {
+        sessionRegistry.touch(sessionIdHeader);
+      }
+
       if (!transport) {
+        const clientInfo = isInitialize
+          ? (body as { params?: { clientInfo?: { name: string; version: string } } }).params?.clientInfo
+          : undefined;
         const created = new StreamableHTTPServerTransport({
           sessionIdGenerator: isInitialize ? () => plannedSid as string : undefined,
           onsessioninitialized: isInitialize
             ? (sid: string) => {
-                transports.set(sid, created);
+                sessionRegistry.add(sid, created, clientInfo);
                 void logger.info('mcp', {
                   message: 'Session initialized',
                   sessionId: sid,
@@ -85,6 +93,7 @@ export function buildMcpRoutes(params: {
               }
             : undefined,
         });
+        await createServer().connect(created);
         transport = created;
       }
 
@@ -99,12 +108,28 @@ export function buildMcpRoutes(params: {
       if (body && typeof body === 'object' && 'id' in body && body.id) {
         const replicateAuth = (c as unknown as { replicateAuth?: ReplicateAuthContext }).replicateAuth;
 
-        contextRegistry.create(body.id as string | number, plannedSid, {
+        const requestId = body.id as string | number;
+        const contextSessionId = plannedSid ?? sessionIdHeader;
+        contextRegistry.create(requestId, contextSessionId, {
           replicateToken: replicateAuth?.replicateToken,
         });
+
+        // Client hung up before the response finished - cancel in-flight work
+        c.req.raw.signal?.addEventListener(
+          'abort',
+          () => {
+            if (contextRegistry.cancel(requestId, contextSessionId)) {
+              void logger.info('mcp', {
+                message: 'Client disconnected, request cancelled',
+                sessionId: contextSessionId,
+                requestId,
+              });
+            }
+          },
+          { once: true },
+        );
       }
 
-      await ensureConnected(transport);
       await transport.handleRequest(req, res, body);
 
       res.on('close', () => {
@@ -155,17 +180,26 @@ export function buildMcpRoutes(params: {
         405,
       );
     }
+    let closeStream: (() => void) | undefined;
     try {
-      const transport = transports.get(sessionIdHeader);
+      const transport = sessionRegistry.get(sessionIdHeader);
       if (!transport) {
         void logger.warning('mcp_get_request', { message: 'Unknown session', sessionId: sessionIdHeader });
         return c.text('Invalid session', 404);
       }
-      await ensureConnected(transport);
+      sessionRegistry.touch(sessionIdHeader);
+      // The stream keeps the session alive until the client closes it
+      closeStream = sessionRegistry.openStream(sessionIdHeader);
+      c.req.raw.signal?.addEventListener('abort', closeStream, { once: true });
       await transport.handleRequest(req, res);
+      if (res.statusCode !== 200) {
+        // Rejected (e.g. a stream is already open) - nothing stays open
+        closeStream();
+      }
       void logger.info('mcp_get_response', { message: 'GET SSE stream established', sessionId: sessionIdHeader });
       return toFetchResponse(res);
     } catch (error) {
+      closeStream?.();
       void logger.error('mcp', {
         message: 'Error handling GET request',
         error: (error as Error).message,
@@ -195,14 +229,13 @@ export function buildMcpRoutes(params: {
       );
     }
     try {
-      const transport = transports.get(sessionIdHeader);
+      const transport = sessionRegistry.get(sessionIdHeader);
       if (!transport) {
         return c.text('Invalid session', 404);
       }
-      await ensureConnected(transport);
+      sessionRegistry.touch(sessionIdHeader);
       await transport.handleRequest(req, res);
-      transports.delete(sessionIdHeader);
-      transport.close();
+      await sessionRegistry.remove(sessionIdHeader, 'Session terminated by client');
       return toFetchResponse(res);
     } catch (error) {
       void logger.error('mcp', {
@@ -1,7 +1,9 @@
 import { serve } from '@hono/node-server';
 import { config } from './config/env.js';
 import { stopContextCleanup } from './core/context.js';
+import { sessionRegistry, stopSessionEviction } from './core/sessions.js';
 import { buildHttpApp } from './http/app.js';
+import { stopOutputCleanup } from './services/storage/output-storage.js';
 import { logger } from './utils/logger.js';
 
 async function main(): Promise<void> {
@@ -27,7 +29,9 @@ async function main(): Promise<void> {
 function gracefulShutdown(signal: string): void {
   void logger.info('server', { message: `Received ${signal}, shutting down` });
   stopContextCleanup();
-  process.exit(0);
+  stopOutputCleanup();
+  stopSessionEviction();
+  void sessionRegistry.closeAll().finally(() => process.exit(0));
 }
 
 process.on('SIGINT', () => gracefulShutdown('SIGINT'));
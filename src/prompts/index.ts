@@ -0,0 +1,39 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { sharedPrompts } from '../shared/prompts/registry.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Register all prompts with the MCP server.
+ */
+export function registerPrompts(server: McpServer): void {
+  for (const definition of sharedPrompts) {
+    // Prompt arguments are always strings; the SDK validates required ones
+    const argsSchema = Object.fromEntries(
+      definition.arguments.map((arg) => [
+        arg.name,
+        arg.required
+          ? z.string().min(1).describe(arg.description)
+          : z.string().optional().describe(arg.description),
+      ]),
+    );
+
+    server.registerPrompt(
+      definition.name,
+      {
+        title: definition.title,
+        description: definition.description,
+        argsSchema,
+      },
+      (args) => ({
+        description: definition.description,
+        messages: definition.build(args as Record<string, string | undefined>),
+      }),
+    );
+  }
+
+  logger.info('prompts', {
+    message: `Registered ${sharedPrompts.length} prompts`,
+    promptNames: sharedPrompts.map((definition) => definition.name),
+  });
+}
@@ -0,0 +1,201 @@
+import {
+  COMMON_ASPECT_RATIOS,
+  completeModelIds,
+  completeParameterValues,
+  rankCompletions,
+} from '../services/completions.js';
+import type { CompleteCallback } from '../shared/mcp/completions.js';
+import type {
+  SharedPromptDefinition,
+  SharedPromptMessage,
+} from '../shared/prompts/types.js';
+
+const completeModel: CompleteCallback = (value, context) =>
+  completeModelIds(value, context);
+
+/** Aspect ratios the chosen model accepts, or common ratios if unknown */
+const completeAspectRatio: CompleteCallback = async (value, context) => {
+  const values = await completeParameterValues(
+    context.arguments.model,
+    'aspect_ratio',
+    value,
+    context,
+  );
+  return values.length > 0 ? values : rankCompletions(value, COMMON_ASPECT_RATIOS);
+};
+
+/** Single user message; `null` lines (omitted optional arguments) are dropped */
+const userMessage = (lines: (string | null)[]): SharedPromptMessage[] => [
+  {
+    role: 'user',
+    content: { type: 'text', text: lines.filter((line) => line !== null).join('\n') },
+  },
+];
+
+/**
+ * Step telling the assistant which model to use, or to ask the user first
+ * (mirrors the workflow in serverMetadata.instructions).
+ */
+const modelStep = (model: string | undefined) =>
+  model
+    ? `1. Use the model "${model}".`
+    : `1. No model was chosen - ask me which model to use before generating. Suggest:
+   - black-forest-labs/flux-schnell (fast, ~2s)
+   - black-forest-labs/flux-dev (higher quality, ~10s)
+   - bytedance/seedream-4 (versatile)`;
+
+const aspectRatioNote = (aspectRatio: string | undefined) =>
+  aspectRatio
+    ? `Pass aspect_ratio "${aspectRatio}" (if the model takes width/height instead, pick matching dimensions from its schema).`
+    : 'Choose the aspect_ratio from the scene (landscape for wide scenes, portrait for tall subjects).';
+
+export const generateImagePrompt: SharedPromptDefinition = {
+  name: 'generate-image',
+  title: 'Generate Image',
+  description:
+    'Generate an image from a subject, with optional style, aspect ratio and model.',
+  arguments: [
+    { name: 'subject', description: 'What the image should show', required: true },
+    {
+      name: 'style',
+      description: 'Visual style, e.g. "watercolor", "cinematic photo"',
+    },
+    {
+      name: 'aspect_ratio',
+      description: 'Aspect ratio such as "1:1", "16:9" or "9:16"',
+      complete: completeAspectRatio,
+    },
+    {
+      name: 'model',
+      description: 'Model identifier "owner/name" (asked for if omitted)',
+      complete: completeModel,
+    },
+  ],
+
+  build: ({ subject, style, aspect_ratio, model }) => {
+    const prompt = style ? `${subject}, ${style}` : (subject as string);
+
+    return userMessage([
+      `Generate an image of: ${subject}`,
+      style ? `Style: ${style}` : null,
+      '',
+      modelStep(model),
+      "2. If you don't know the model's parameters, call get_model with the model identifier.",
+      `3. Call generate_image with this exact prompt: "${prompt}". ${aspectRatioNote(aspect_ratio)}`,
+      '4. Display the result with markdown: ![description](url)',
+    ]);
+  },
+};
+
+export const editImagePrompt: SharedPromptDefinition = {
+  name: 'edit-image',
+  title: 'Edit Image',
+  description: 'Edit an existing image with a text instruction.',
+  arguments: [
+    {
+      name: 'image_url',
+      description: 'Public URL of the image to edit',
+      required: true,
+    },
+    {
+      name: 'instruction',
+      description: 'What to change, e.g. "make it night time"',
+      required: true,
+    },
+    {
+      name: 'model',
+      description:
+        'Editing model "owner/name" (default: black-forest-labs/flux-kontext-pro)',
+      complete: completeModel,
+    },
+  ],
+
+  build: ({ image_url, instruction, model = 'black-forest-labs/flux-kontext-pro' }) =>
+    userMessage([
+      `Edit the image at ${image_url}`,
+      `Instruction: ${instruction}`,
+      '',
+      `1. Use the model "${model}".`,
+      '2. Call get_model with the model to find the parameter that takes the source image (often "input_image" or "image").',
+      `3. Call generate_image with the prompt "${instruction}" and the image URL in that parameter. Keep the source aspect ratio unless I asked otherwise.`,
+      '4. Show the original and the edited image with markdown: ![description](url)',
+    ]),
+};
+
+export const upscalePrompt: SharedPromptDefinition = {
+  name: 'upscale',
+  title: 'Upscale Image',
+  description: 'Upscale an image to a higher resolution.',
+  arguments: [
+    {
+      name: 'image_url',
+      description: 'Public URL of the image to upscale',
+      required: true,
+    },
+    { name: 'scale', description: 'Upscale factor, e.g. "2" or "4"' },
+    {
+      name: 'model',
+      description: 'Upscaler "owner/name" (found with search_models if omitted)',
+      complete: completeModel,
+    },
+  ],
+
+  build: ({ image_url, scale, model }) =>
+    userMessage([
+      `Upscale the image at ${image_url}${scale ? ` by ${scale}x` : ''}.`,
+      '',
+      model
+        ? `1. Use the model "${model}".`
+        : '1. Call search_models with "upscale" and pick a popular upscaler (e.g. nightmareai/real-esrgan).',
+      `2. Call get_model to check its parameters: the name of the image input${scale ? ' and the allowed scale values' : ''}.`,
+      `3. Call generate_image with the image URL${scale ? ` and a scale of ${scale} (or the closest allowed value)` : ''}. Upscaling large images can be slow: use wait: false and poll get_prediction if needed.`,
+      '4. Display the result with markdown: ![description](url)',
+    ]),
+};
+
+export const productShotPrompt: SharedPromptDefinition = {
+  name: 'product-shot',
+  title: 'Product Shot',
+  description: 'Create a studio-quality product photo for a store listing or ad.',
+  arguments: [
+    {
+      name: 'product',
+      description: 'The product, e.g. "matte black ceramic coffee mug"',
+      required: true,
+    },
+    {
+      name: 'setting',
+      description: 'Background or scene (default: clean seamless studio background)',
+    },
+    {
+      name: 'style',
+      description: 'Lighting and mood (default: soft studio lighting, sharp focus)',
+    },
+    {
+      name: 'aspect_ratio',
+      description: 'Aspect ratio (default: "1:1")',
+      complete: completeAspectRatio,
+    },
+    {
+      name: 'model',
+      description: 'Model identifier "owner/name" (asked for if omitted)',
+      complete: completeModel,
+    },
+  ],
+
+  build: ({
+    product,
+    setting = 'on a clean seamless studio background',
+    style = 'soft studio lighting, sharp focus, high detail',
+    aspect_ratio = '1:1',
+    model,
+  }) =>
+    userMessage([
+      `Create a product photo of: ${product}`,
+      '',
+      modelStep(model),
+      "2. If you don't know the model's parameters, call get_model with the model identifier.",
+      `3. Call generate_image with the prompt "Professional product photograph of ${product}, ${setting}, ${style}". ${aspectRatioNote(aspect_ratio)}`,
+      '4. Display the result with markdown: ![description](url) and offer variations (call reproduce_prediction with new_seed: true).',
+    ]),
+};
@@ -0,0 +1,103 @@
+import {
+  type McpServer,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestHandlerExtra as SdkRequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  ErrorCode,
+  McpError,
+  type ServerNotification,
+  type ServerRequest,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { contextRegistry } from '../core/context.js';
+import {
+  sharedResourceTemplates,
+  subscribeToResource,
+  unsubscribeFromResource,
+} from '../shared/resources/registry.js';
+import type { ResourceContext } from '../shared/resources/types.js';
+import { logger } from '../utils/logger.js';
+
+type RequestHandlerExtra = SdkRequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Session and token for a resource (or completion) request.
+ * The HTTP route registers a context per request (with the Replicate token);
+ * the SDK's session ID is the fallback.
+ */
+export function resourceContext(extra: RequestHandlerExtra): ResourceContext {
+  const context = contextRegistry.get(extra.requestId, extra.sessionId);
+  return {
+    sessionId: context?.sessionId ?? extra.sessionId,
+    replicateToken: context?.replicateToken,
+  };
+}
+
+/**
+ * Register all resource templates with the MCP server.
+ */
+export function registerResources(server: McpServer): void {
+  for (const definition of sharedResourceTemplates) {
+    const list = definition.list;
+
+    server.registerResource(
+      definition.name,
+      new ResourceTemplate(definition.uriTemplate, {
+        list: list
+          ? async (extra) => ({ resources: await list(resourceContext(extra)) })
+          : undefined,
+      }),
+      {
+        title: definition.title,
+        description: definition.description,
+        mimeType: definition.mimeType,
+      },
+      async (uri, variables, extra) => {
+        const values = Object.fromEntries(
+          Object.entries(variables).map(([name, value]) => [
+            name,
+            Array.isArray(value) ? value[0] : value,
+          ]),
+        );
+        const contents = await definition.read(
+          uri.href,
+          values,
+          resourceContext(extra),
+        );
+
+        if (!contents) {
+          throw new McpError(ErrorCode.InvalidParams, `Resource ${uri.href} not found`);
+        }
+
+        return { contents };
+      },
+    );
+
+    logger.debug('resources', {
+      message: 'Registered resource template',
+      name: definition.name,
+    });
+  }
+
+  // Subscriptions - updates are delivered on the session's SSE GET stream
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    const { uri } = request.params;
+    if (!subscribeToResource(uri, resourceContext(extra))) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource ${uri} not found`);
+    }
+    logger.debug('resources', { message: 'Subscribed', uri });
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request, extra) => {
+    unsubscribeFromResource(request.params.uri, resourceContext(extra));
+    return {};
+  });
+
+  logger.info('resources', {
+    message: `Registered ${sharedResourceTemplates.length} resource templates`,
+    names: sharedResourceTemplates.map((definition) => definition.name),
+  });
+}
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { readSharedResource } from '../shared/resources/registry.js';
+
+const LATEST = 'a'.repeat(64);
+const PINNED = 'b'.repeat(64);
+
+const openapiSchema = (description: string) => ({
+  components: {
+    schemas: {
+      Input: {
+        required: ['prompt'],
+        properties: { prompt: { type: 'string', description } },
+      },
+      Output: { type: 'string', format: 'uri' },
+    },
+  },
+});
+
+const originalFetch = globalThis.fetch;
+
+beforeEach(() => {
+  globalThis.fetch = (async (url: string) => {
+    const path = new URL(url).pathname;
+    if (path === '/v1/models/acme/painter') {
+      return Response.json({
+        owner: 'acme',
+        name: 'painter',
+        description: 'Paints pictures',
+        run_count: 1,
+        url: 'https://replicate.com/acme/painter',
+        latest_version: { id: LATEST, openapi_schema: openapiSchema('latest') },
+        default_example: { input: { prompt: 'a lighthouse' } },
+      });
+    }
+    if (path === `/v1/models/acme/painter/versions/${PINNED}`) {
+      return Response.json({ id: PINNED, openapi_schema: openapiSchema('pinned') });
+    }
+    return new Response('Not found', { status: 404 });
+  }) as typeof fetch;
+});
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+  delete process.env.MODEL_VERSIONS;
+});
+
+/** Read a resource and parse its JSON body */
+async function readJson(uri: string) {
+  const contents = await readSharedResource(uri, {
+    sessionId: 'session-1',
+    replicateToken: `r8_models_${crypto.randomUUID()}`,
+  });
+  return contents && JSON.parse(String(contents[0].text));
+}
+
+describe('model resources', () => {
+  test('return the latest version schema and example', async () => {
+    expect(await readJson('replicate://models/acme/painter')).toMatchObject({
+      model: 'acme/painter',
+      version_id: LATEST,
+      input_schema: { properties: { prompt: { description: 'latest' } } },
+      output_schema: { type: 'string', format: 'uri' },
+      example_input: { prompt: 'a lighthouse' },
+    });
+  });
+
+  test('follow server pins like generate_image', async () => {
+    process.env.MODEL_VERSIONS = `acme/painter:${PINNED}`;
+
+    expect(await readJson('replicate://models/acme/painter')).toMatchObject({
+      version_id: PINNED,
+      input_schema: { properties: { prompt: { description: 'pinned' } } },
+    });
+  });
+
+  test('read a specific version', async () => {
+    expect(
+      await readJson(`replicate://models/acme/painter/versions/${PINNED}`),
+    ).toMatchObject({ version_id: PINNED });
+  });
+
+  test('are missing for unknown models', async () => {
+    expect(await readJson('replicate://models/acme/missing')).toBeUndefined();
+  });
+});
@@ -0,0 +1,122 @@
+import { resolveConfig } from '../config/env.js';
+import { getModelInfo } from '../services/api/replicate.service.js';
+import {
+  completeModelIds,
+  completeVersionIds,
+  rankCompletions,
+} from '../services/completions.js';
+import type { CompleteCallback } from '../shared/mcp/completions.js';
+import type {
+  ResourceContents,
+  ResourceContext,
+  SharedResourceTemplate,
+} from '../shared/resources/types.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Model description and input/output schemas as JSON, from the (cached) model info.
+ * Returns undefined if the model or version doesn't exist.
+ */
+async function readModelSchema(
+  uri: string,
+  owner: string,
+  name: string,
+  version: string | undefined,
+  context: ResourceContext,
+): Promise<ResourceContents[] | undefined> {
+  if (!context.replicateToken) {
+    throw new Error('REPLICATE_API_TOKEN is not configured on the server');
+  }
+
+  try {
+    const info = await getModelInfo(owner, name, context.replicateToken, { version });
+
+    const schema = {
+      model: `${owner}/${name}`,
+      description: info.description,
+      url: info.url,
+      is_official: info.is_official,
+      version_id: info.version_id,
+      input_schema: info.input_schema,
+      output_schema: info.output_schema,
+      example_input: info.default_example?.input ?? null,
+    };
+
+    return [
+      {
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(schema, null, 2),
+      },
+    ];
+  } catch (error) {
+    const message = (error as Error).message;
+    if (message.includes('404') || message.toLowerCase().includes('not found')) {
+      logger.debug('resources', { message: 'Model not found', uri });
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+const completeOwner: CompleteCallback = async (value, context) => {
+  const models = await completeModelIds(value, context);
+  return rankCompletions(
+    value,
+    models.map((model) => model.split('/')[0]),
+  );
+};
+
+const completeName: CompleteCallback = async (value, context) => {
+  const owner = context.arguments.owner;
+  if (!owner) return [];
+  const models = await completeModelIds(`${owner}/${value}`, context);
+  return models
+    .filter((model) => model.startsWith(`${owner}/`))
+    .map((model) => model.slice(owner.length + 1));
+};
+
+/**
+ * Latest (or pinned) version of a model (replicate://models/{owner}/{name}).
+ */
+export const modelResource: SharedResourceTemplate = {
+  name: 'model',
+  title: 'Model Schema',
+  uriTemplate: 'replicate://models/{owner}/{name}',
+  description:
+    'Description and JSON input/output schema of a Replicate model - the version generate_image runs (latest, or pinned by the server).',
+  mimeType: 'application/json',
+  complete: { owner: completeOwner, name: completeName },
+
+  read: async (uri, variables, context) => {
+    // Same version generate_image would run for "owner/name"
+    const pinned =
+      resolveConfig().MODEL_VERSIONS[`${variables.owner}/${variables.name}`];
+    return readModelSchema(uri, variables.owner, variables.name, pinned, context);
+  },
+};
+
+/**
+ * A specific model version (replicate://models/{owner}/{name}/versions/{version}).
+ */
+export const modelVersionResource: SharedResourceTemplate = {
+  name: 'model-version',
+  title: 'Model Version Schema',
+  uriTemplate: 'replicate://models/{owner}/{name}/versions/{version}',
+  description:
+    'Description and JSON input/output schema of a specific Replicate model version.',
+  mimeType: 'application/json',
+  complete: {
+    owner: completeOwner,
+    name: completeName,
+    version: async (value, context) => {
+      const { owner, name } = context.arguments;
+      return owner && name
+        ? completeVersionIds(`${owner}/${name}`, value, context)
+        : [];
+    },
+  },
+
+  read: async (uri, variables, context) =>
+    readModelSchema(uri, variables.owner, variables.name, variables.version, context),
+};
@@ -0,0 +1,61 @@
+import { rankCompletions } from '../services/completions.js';
+import {
+  getRecordedPrediction,
+  listRecordedPredictions,
+  predictionUri,
+} from '../services/prediction-history.js';
+import { watchPrediction } from '../services/prediction-watcher.js';
+import type { SharedResourceTemplate } from '../shared/resources/types.js';
+
+/**
+ * Predictions started in the current session (replicate://predictions/{id}).
+ * Each resource is the full history record as JSON; subscribers are notified
+ * when the status changes or outputs arrive.
+ */
+export const predictionResource: SharedResourceTemplate = {
+  name: 'prediction',
+  title: 'Prediction',
+  uriTemplate: 'replicate://predictions/{id}',
+  description:
+    'A prediction started in this session: model, version, full input, outputs, status, seed and timings.',
+  mimeType: 'application/json',
+  complete: {
+    id: async (value, context) =>
+      rankCompletions(
+        value,
+        listRecordedPredictions(context.sessionId).map((record) => record.id),
+      ),
+  },
+
+  list: async (context) =>
+    listRecordedPredictions(context.sessionId).map((record) => ({
+      uri: predictionUri(record.id),
+      name: record.id,
+      title: `${record.model} (${record.status})`,
+      description:
+        typeof record.input.prompt === 'string'
+          ? record.input.prompt.slice(0, 200)
+          : undefined,
+      mimeType: 'application/json',
+    })),
+
+  read: async (uri, variables, context) => {
+    const record = getRecordedPrediction(context.sessionId, variables.id);
+    if (!record) return undefined;
+
+    return [
+      {
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(record, null, 2),
+      },
+    ];
+  },
+
+  subscribe: (_uri, variables, context) => {
+    // Predictions started with wait: false have no one polling them
+    if (context.sessionId && context.replicateToken) {
+      watchPrediction(context.sessionId, variables.id, context.replicateToken);
+    }
+  },
+};
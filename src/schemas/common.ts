@@ -70,6 +70,20 @@ export const IdsSchema = z
   .max(50, 'Cannot process more than 50 IDs at once')
   .describe('Array of unique identifiers.');
 
+/**
+ * Replicate model identifier: "owner/name", "owner/name:version" or a bare version ID.
+ */
+export const ModelIdentifierSchema = z
+  .string()
+  .min(1, 'Model cannot be empty')
+  .regex(
+    /^([^/:\s]+\/[^/:\s]+(:[a-f0-9]+)?|[a-f0-9]{64})$/,
+    'Model must be "owner/name", "owner/name:version" or a 64-character version ID (e.g., "black-forest-labs/flux-schnell")',
+  )
+  .describe(
+    'Model identifier "owner/name" (e.g., "black-forest-labs/flux-schnell"), "owner/name:version" to pin a version, or a bare version ID. Use search_models if unsure.',
+  );
+
 /**
  * Batch operation schemas.
  */
@@ -11,18 +11,149 @@ export const SearchModelsOutput = z.object({
     name: z.string().describe('Model name'),
     description: z.string().nullable().describe('Model description'),
     run_count: z.number().describe('Number of times the model has been run'),
+    input_schema: z.object({
+      required: z.array(z.string()).describe('Required input parameter names'),
+      properties: z.record(z.unknown()).describe('Input parameters keyed by name (JSON Schema)'),
+    }).optional().describe('Input schema of the latest version, if available'),
   })).describe('List of matching models, sorted by relevance'),
 });
 export type SearchModelsOutput = z.infer<typeof SearchModelsOutput>;
 
+// File saved into a client root (generate_image save_to, save_image)
+const SavedFileOutput = z.object({
+  uri: z.string().describe('file:// URI of the file'),
+  path: z.string().describe('Absolute path on the client machine'),
+  source: z.string().describe('URL the content comes from'),
+  written: z.boolean().describe('True if the server wrote the file; otherwise the client has to save the source URL there'),
+});
+
 // generate_image output
 export const GenerateImageOutput = z.object({
   id: z.string().describe('Prediction ID for reference'),
-  status: z.enum(['succeeded', 'failed', 'canceled']).describe('Final prediction status'),
-  output: z.array(z.string()).nullable().describe('Array of generated image URLs (expire in 1 hour)'),
+  model: z.string().describe('Model identifier in "owner/name" format'),
+  version: z.string().nullable().describe('Version ID that ran (null if not reported yet)'),
+  status: z.enum(['starting', 'processing', 'succeeded', 'failed', 'canceled']).describe('Prediction status (starting/processing when called with wait: false)'),
+  output: z.array(z.string()).nullable().describe('Array of generated image URLs (expire in 1 hour unless stored)'),
+  stored: z.boolean().describe('True if output URLs are served by this server and do not expire after 1 hour'),
   error: z.string().nullable().describe('Error message if status is failed'),
+  seed: z.number().nullable().describe('Effective seed (from the input or the model logs), null if unknown'),
+  input: z.record(z.unknown()).optional().describe('Full input the prediction ran with'),
   metrics: z.object({
     predict_time: z.number().optional().describe('Generation time in seconds'),
   }).optional(),
+  prompt_enhancement: z.object({
+    original: z.string().describe('Prompt as given'),
+    enhanced: z.string().nullable().describe('Rewritten prompt that ran (null if the model enhanced it itself or enhancement was unavailable)'),
+    method: z.enum(['sampling', 'model', 'none']).describe('"sampling" (client LLM), "model" (model\'s enhance_prompt input) or "none"'),
+  }).optional().describe('Present when enhance_prompt was requested'),
+  saved_files: z.array(SavedFileOutput).optional().describe('Files saved with save_to'),
 });
 export type GenerateImageOutput = z.infer<typeof GenerateImageOutput>;
+
+// enhance_prompt output
+export const EnhancePromptOutput = z.object({
+  original: z.string().describe('Prompt as given'),
+  enhanced: z.string().describe('Rewritten prompt'),
+  family: z.enum(['flux', 'sdxl', 'seedream', 'generic']).describe('Model family whose prompt style was used'),
+  sampled_by: z.string().describe('Client LLM that wrote the prompt'),
+});
+export type EnhancePromptOutput = z.infer<typeof EnhancePromptOutput>;
+
+// save_image output
+export const SaveImageOutput = z.object({
+  prediction_id: z.string().describe('Prediction whose outputs were saved'),
+  files: z.array(SavedFileOutput).describe('One file per output'),
+});
+export type SaveImageOutput = z.infer<typeof SaveImageOutput>;
+
+// get_model output
+export const GetModelOutput = z.object({
+  owner: z.string().describe('Model owner/organization'),
+  name: z.string().describe('Model name'),
+  description: z.string().nullable().describe('Model description'),
+  url: z.string().describe('Model page on replicate.com'),
+  cover_image_url: z.string().nullable().describe('Cover image URL'),
+  run_count: z.number().describe('Number of times the model has been run'),
+  is_official: z.boolean().describe('Official models are billed by output and always run the latest version'),
+  version_id: z.string().nullable().describe('Version the schemas belong to (pinned or latest)'),
+  input_schema: z.object({
+    required: z.array(z.string()).describe('Required input parameter names'),
+    properties: z.record(z.unknown()).describe('Input parameters keyed by name (JSON Schema)'),
+  }).nullable().describe('Complete input schema'),
+  output_schema: z.unknown().describe('Output JSON Schema'),
+  default_example: z.object({
+    input: z.record(z.unknown()).describe('Example input'),
+    output: z.unknown().describe('Example output'),
+  }).nullable().describe('Default example prediction'),
+  versions: z.array(z.object({
+    id: z.string().describe('Version ID'),
+    created_at: z.string().describe('Creation time (ISO 8601)'),
+    cog_version: z.string().nullable(),
+  })).describe('Most recent versions, newest first (empty if unavailable)'),
+});
+export type GetModelOutput = z.infer<typeof GetModelOutput>;
+
+// generate_batch output
+export const GenerateBatchOutput = z.object({
+  results: z.array(z.object({
+    index: z.number().describe('Position of the job in the request (0-based)'),
+    label: z.string().optional().describe('Label given to the job'),
+    model: z.string().describe('Model identifier as requested'),
+    version: z.string().nullable().describe('Version ID that ran (null if it never started)'),
+    status: z.enum(['succeeded', 'failed', 'canceled']).describe('Final job status'),
+    prediction_id: z.string().nullable().describe('Prediction ID (null if the job never started)'),
+    output: z.array(z.string()).nullable().describe('Generated image URLs'),
+    stored: z.boolean().describe('True if output URLs are served by this server and do not expire after 1 hour'),
+    error: z.string().nullable().describe('Error message if the job failed'),
+    seed: z.number().nullable().describe('Effective seed, null if unknown'),
+    predict_time: z.number().nullable().describe('Model run time reported by Replicate, in seconds'),
+    duration_ms: z.number().describe('Wall-clock time for the job in milliseconds'),
+  })).describe('One result per job, in request order'),
+  succeeded: z.number().describe('Number of jobs that succeeded'),
+  failed: z.number().describe('Number of jobs that failed or were cancelled'),
+  duration_ms: z.number().describe('Wall-clock time for the whole batch in milliseconds'),
+});
+export type GenerateBatchOutput = z.infer<typeof GenerateBatchOutput>;
+
+// compare_models output
+export const CompareModelsOutput = z.object({
+  prompt: z.string().describe('Prompt rendered by every model'),
+  results: z.array(z.object({
+    model: z.string().describe('Model identifier as requested'),
+    version: z.string().nullable().describe('Version ID that ran'),
+    status: z.enum(['succeeded', 'failed', 'canceled']).describe('Final status'),
+    prediction_id: z.string().nullable().describe('Prediction ID (null if it never started)'),
+    input: z.record(z.unknown()).describe('Input sent to this model after parameter translation'),
+    notes: z.array(z.string()).describe('Parameter adjustments made for this model'),
+    output: z.array(z.string()).nullable().describe('Generated image URLs'),
+    seed: z.number().nullable().describe('Effective seed, null if unknown'),
+    predict_time: z.number().nullable().describe('Model run time in seconds'),
+    cost_estimate_usd: z.number().nullable().describe('Rough cost estimate in USD (not a billed amount)'),
+    error: z.string().nullable().describe('Error message if the model failed'),
+  })).describe('One result per model, in request order'),
+  contact_sheet_url: z.string().nullable().describe('URL of the composited contact sheet, if stored on this server'),
+});
+export type CompareModelsOutput = z.infer<typeof CompareModelsOutput>;
+
+// list_predictions output
+export const ListPredictionsOutput = z.object({
+  predictions: z.array(z.object({
+    id: z.string().describe('Prediction ID'),
+    uri: z.string().describe('Resource URI with the full record (replicate://predictions/{id})'),
+    model: z.string().describe('Model identifier in "owner/name" format'),
+    version: z.string().nullable().describe('Version ID that ran'),
+    status: z.enum(['starting', 'processing', 'succeeded', 'failed', 'canceled']).describe('Last known status'),
+    input: z.record(z.unknown()).describe('Input the prediction ran with'),
+    output: z.array(z.string()).nullable().describe('Generated image URLs'),
+    error: z.string().nullable().describe('Error message if the prediction failed'),
+    seed: z.number().nullable().describe('Effective seed, null if unknown'),
+    source: z.string().describe('Tool that started the prediction'),
+    created_at: z.string().describe('Start time (ISO 8601)'),
+    completed_at: z.string().nullable().describe('Finish time (ISO 8601), null while running'),
+    predict_time: z.number().nullable().describe('Model run time in seconds'),
+    duration_ms: z.number().nullable().describe('Wall-clock time from start to finish in milliseconds'),
+  })).describe('Predictions from this session, newest first'),
+  total: z.number().describe('Number of predictions matching the filters'),
+  next_cursor: z.string().nullable().describe('Pass as "cursor" to get the next page (null on the last page)'),
+});
+export type ListPredictionsOutput = z.infer<typeof ListPredictionsOutput>;
@@ -0,0 +1,188 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import {
+  createPrediction,
+  extractSeed,
+  formatModelRef,
+  parseLogProgress,
+  resolveModelRef,
+  runPrediction,
+} from './replicate.service.js';
+
+const VERSION = 'a'.repeat(64);
+
+describe('extractSeed', () => {
+  test('prefers the seed from the input', () => {
+    expect(extractSeed({ input: { seed: 42 }, logs: 'Using seed: 7' })).toBe(42);
+    expect(extractSeed({ input: { seed: '42' } })).toBe(42);
+  });
+
+  test('falls back to the seed printed in the logs', () => {
+    expect(
+      extractSeed({ input: {}, logs: 'Loading weights\nUsing seed: 1234\n' }),
+    ).toBe(1234);
+    expect(
+      extractSeed({ input: { seed: null }, logs: 'Random seed set to 987654321' }),
+    ).toBe(987654321);
+    expect(extractSeed({ input: {}, logs: 'no seed here' })).toBeNull();
+    expect(extractSeed({ input: {} })).toBeNull();
+  });
+
+  test('treats seeds beyond the safe integer range as unknown', () => {
+    expect(extractSeed({ input: { seed: 2 ** 53 } })).toBeNull();
+    expect(
+      extractSeed({ input: {}, logs: 'Using seed: 18446744073709551615' }),
+    ).toBeNull();
+    expect(extractSeed({ input: {}, logs: 'Using seed: 9007199254740993' })).toBeNull();
+    expect(extractSeed({ input: {}, logs: 'Using seed: 9007199254740991' })).toBe(
+      9007199254740991,
+    );
+  });
+});
+
+describe('parseLogProgress', () => {
+  test('reads the last progress bar percentage', () => {
+    expect(parseLogProgress(' 25%|██▌       | 1/4\n 75%|███████▌  | 3/4')).toBe(0.75);
+    expect(parseLogProgress('100%|██████████| 4/4')).toBe(1);
+  });
+
+  test('returns undefined without a progress bar', () => {
+    expect(parseLogProgress('Using seed: 1234')).toBeUndefined();
+    expect(parseLogProgress(undefined)).toBeUndefined();
+  });
+});
+
+describe('runPrediction', () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test('cancels the prediction on Replicate when the signal aborts', async () => {
+    const requests: string[] = [];
+    globalThis.fetch = (async (url: string, init?: RequestInit) => {
+      requests.push(`${init?.method ?? 'GET'} ${url}`);
+      const canceled = String(url).endsWith('/cancel');
+      return Response.json({
+        id: 'abc',
+        status: canceled ? 'canceled' : 'processing',
+        output: null,
+        error: null,
+      });
+    }) as typeof fetch;
+    const controller = new AbortController();
+
+    const result = await runPrediction(
+      { model: 'black-forest-labs/flux-schnell' },
+      { prompt: 'a lighthouse' },
+      'r8_test',
+      { signal: controller.signal, onUpdate: () => controller.abort() },
+    );
+
+    expect(result.status).toBe('canceled');
+    expect(requests).toEqual([
+      'POST https://api.replicate.com/v1/models/black-forest-labs/flux-schnell/predictions',
+      'POST https://api.replicate.com/v1/predictions/abc/cancel',
+    ]);
+  });
+
+  test('returns failed predictions instead of throwing', async () => {
+    globalThis.fetch = (async (_url: string) =>
+      Response.json({
+        id: 'abc',
+        version: 'v1',
+        status: 'failed',
+        output: null,
+        error: 'CUDA out of memory',
+        logs: 'Using seed: 7',
+      })) as typeof fetch;
+
+    const result = await runPrediction(
+      { model: 'black-forest-labs/flux-schnell' },
+      { prompt: 'a lighthouse' },
+      'r8_test',
+    );
+
+    expect(result).toMatchObject({
+      id: 'abc',
+      version: 'v1',
+      status: 'failed',
+      error: 'CUDA out of memory',
+      logs: 'Using seed: 7',
+    });
+  });
+});
+
+describe('resolveModelRef', () => {
+  test('parses models, versions and bare version IDs', () => {
+    expect(resolveModelRef('black-forest-labs/flux-schnell')).toEqual({
+      model: 'black-forest-labs/flux-schnell',
+    });
+    expect(resolveModelRef(`owner/name:${VERSION}`)).toEqual({
+      model: 'owner/name',
+      version: VERSION,
+    });
+    expect(resolveModelRef(VERSION)).toEqual({ version: VERSION });
+  });
+
+  test('applies server pins only without an explicit version', () => {
+    const pins = { 'owner/name': 'b'.repeat(64) };
+
+    expect(resolveModelRef('owner/name', pins)).toEqual({
+      model: 'owner/name',
+      version: pins['owner/name'],
+      pinned: true,
+    });
+    expect(resolveModelRef(`owner/name:${VERSION}`, pins)).toEqual({
+      model: 'owner/name',
+      version: VERSION,
+    });
+  });
+
+  test('formats references for display', () => {
+    expect(formatModelRef({ model: 'owner/name', version: VERSION })).toBe(
+      `owner/name:${VERSION}`,
+    );
+    expect(formatModelRef({ version: VERSION })).toBe(VERSION);
+    expect(formatModelRef({ model: 'owner/name' })).toBe('owner/name');
+  });
+});
+
+describe('createPrediction', () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test('runs a version when one is given and the model endpoint otherwise', async () => {
+    const requests: Array<{ url: string; body: unknown }> = [];
+    globalThis.fetch = (async (url: string, init?: RequestInit) => {
+      requests.push({ url: String(url), body: JSON.parse(String(init?.body)) });
+      return Response.json({
+        id: 'abc',
+        status: 'starting',
+        output: null,
+        error: null,
+      });
+    }) as typeof fetch;
+
+    await createPrediction(
+      { model: 'owner/name', version: VERSION },
+      { prompt: 'a' },
+      'r8_test',
+    );
+    await createPrediction({ model: 'owner/name' }, { prompt: 'a' }, 'r8_test');
+
+    expect(requests).toEqual([
+      {
+        url: 'https://api.replicate.com/v1/predictions',
+        body: { version: VERSION, input: { prompt: 'a' } },
+      },
+      {
+        url: 'https://api.replicate.com/v1/models/owner/name/predictions',
+        body: { input: { prompt: 'a' } },
+      },
+    ]);
+  });
+});
@@ -5,12 +5,20 @@
  * - Searching models
  * - Getting model details and schemas
  * - Running predictions (image generation)
+ * - Polling and cancelling predictions (async mode)
  * 
  * Token is passed per-request (from headers or env fallback).
+ * Search results and model schemas are cached (see services/cache).
  */
 
-import Replicate from 'replicate';
+import Replicate, { type Prediction } from 'replicate';
 import { logger } from '../../utils/logger.js';
+import {
+  type CacheOptions,
+  cached,
+  setCached,
+  tokenScope,
+} from '../cache/cache-store.js';
 
 export interface ReplicateModel {
   owner: string;
@@ -19,19 +27,32 @@ export interface ReplicateModel {
   visibility: 'public' | 'private';
   run_count: number;
   url: string;
+  cover_image_url?: string;
+  is_official?: boolean;
+  default_example?: {
+    input?: Record<string, unknown>;
+    output?: unknown;
+  };
   latest_version?: {
     id: string;
-    openapi_schema?: {
-      components?: {
-        schemas?: {
-          Input?: {
-            type: string;
-            required?: string[];
-            properties?: Record<string, unknown>;
-          };
-          Output?: unknown;
-        };
+    openapi_schema?: OpenApiSchema;
+  };
+}
+
+/**
+ * The part of a model version's OpenAPI schema we read.
+ * Enum parameters reference other component schemas via allOf/$ref.
+ */
+export interface OpenApiSchema {
+  components?: {
+    schemas?: {
+      Input?: {
+        type: string;
+        required?: string[];
+        properties?: Record<string, unknown>;
       };
+      Output?: unknown;
+      [name: string]: unknown;
     };
   };
 }
@@ -46,27 +67,85 @@ export interface ModelSearchResult {
 
 export interface ModelInputSchema {
   required: string[];
-  properties: Record<string, {
-    type: string;
-    description?: string;
-    default?: unknown;
-    enum?: unknown[];
-    minimum?: number;
-    maximum?: number;
-    format?: string;
-  }>;
+  properties: Record<string, ModelInputProperty>;
+}
+
+export interface ModelInputProperty {
+  type: string;
+  title?: string;
+  description?: string;
+  default?: unknown;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  format?: string;
+  nullable?: boolean;
+  items?: { type?: string; format?: string };
+  'x-order'?: number;
 }
 
 export interface PredictionResult {
   id: string;
+  model?: string;
+  /** Version that ran ("hidden" for some official models) */
+  version?: string;
+  /** Input the prediction was created with */
+  input?: Record<string, unknown>;
   status: 'starting' | 'processing' | 'succeeded' | 'failed' | 'canceled';
   output: string[] | null;
   error: string | null;
+  logs?: string;
   metrics?: {
     predict_time?: number;
   };
 }
 
+/**
+ * A model to run: "owner/name" (latest version), a specific version, or both.
+ */
+export interface ModelRef {
+  /** "owner/name" - unknown when only a bare version ID was given */
+  model?: string;
+  /** 64-character version ID */
+  version?: string;
+  /** True if the version comes from the server's MODEL_VERSIONS pins */
+  pinned?: boolean;
+}
+
+const VERSION_ID_PATTERN = /^[a-f0-9]{64}$/;
+
+/**
+ * Parse "owner/name", "owner/name:version" or a bare version ID.
+ * Models without an explicit version use the server pin from `pins`, if any.
+ */
+export function resolveModelRef(identifier: string, pins: Record<string, string> = {}): ModelRef {
+  if (VERSION_ID_PATTERN.test(identifier)) {
+    return { version: identifier };
+  }
+  
+  const [model, version] = identifier.split(':');
+  if (version) return { model, version };
+  
+  return pins[model] ? { model, version: pins[model], pinned: true } : { model };
+}
+
+/**
+ * Format a model reference for display ("owner/name:version").
+ */
+export function formatModelRef(ref: ModelRef): string {
+  if (!ref.model) return ref.version ?? 'unknown';
+  return ref.version ? `${ref.model}:${ref.version}` : ref.model;
+}
+
+/**
+ * predictions.create target - a version ID runs exactly that version.
+ */
+function predictionTarget(ref: ModelRef): { version: string } | { model: string } {
+  if (ref.version) return { version: ref.version };
+  if (ref.model) return { model: ref.model };
+  throw new Error('A model or version is required');
+}
+
 /**
  * Create a Replicate client with the given token.
  * Token is required - throws if missing.
@@ -79,38 +158,218 @@ export function createReplicateClient(apiToken: string): Replicate {
   return new Replicate({ auth: apiToken });
 }
 
+/**
+ * Extract the input schema from a version's OpenAPI schema.
+ * Parameters defined as `allOf: [{ $ref: '#/components/schemas/x' }]` (how
+ * Replicate models enums) are inlined so each property carries its type and enum.
+ */
+export function extractInputSchema(openapiSchema?: OpenApiSchema | null): ModelInputSchema | undefined {
+  const schemas = openapiSchema?.components?.schemas;
+  const input = schemas?.Input;
+  if (!input) return undefined;
+  
+  const properties: ModelInputSchema['properties'] = {};
+  for (const [name, raw] of Object.entries(input.properties ?? {})) {
+    const { allOf, ...prop } = raw as Record<string, unknown> & {
+      allOf?: Array<{ $ref?: string }>;
+    };
+    const refName = allOf?.find((entry) => entry.$ref)?.$ref?.split('/').pop();
+    const referenced = refName ? (schemas[refName] as Record<string, unknown> | undefined) : undefined;
+    
+    properties[name] = {
+      ...referenced,
+      ...prop,
+      type: String(prop.type ?? referenced?.type ?? 'string'),
+    } as ModelInputProperty;
+  }
+  
+  return { required: input.required ?? [], properties };
+}
+
+/** Model metadata as cached (schemas are cached separately, per version) */
+interface CachedModel {
+  owner: string;
+  name: string;
+  description: string | null;
+  visibility: 'public' | 'private';
+  run_count: number;
+  url: string;
+  cover_image_url: string | null;
+  is_official: boolean;
+  latest_version_id: string | null;
+  /** Input (and output) of the model's example prediction */
+  default_example: { input: Record<string, unknown>; output: unknown } | null;
+}
+
+/** Input and output schemas of one model version */
+export interface VersionSchemas {
+  input_schema: ModelInputSchema | null;
+  output_schema: unknown;
+}
+
+/** Summary of a model version */
+export interface ModelVersionSummary {
+  id: string;
+  created_at: string;
+  cog_version: string | null;
+}
+
+/** Full model details for get_model */
+export interface ModelInfo extends CachedModel {
+  /** Version the schemas belong to (pinned or latest) */
+  version_id: string | null;
+  input_schema: ModelInputSchema | null;
+  output_schema: unknown;
+}
+
+/** Versions are immutable, so their schemas can be cached for much longer */
+const VERSION_SCHEMA_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Keys start with the token's scope (tokenScope): private models are only visible to their account
+const versionSchemaKey = (scope: string, modelId: string, versionId: string) =>
+  `${scope}:version:${modelId}:${versionId}`;
+
+function toVersionSchemas(openapiSchema?: OpenApiSchema | null): VersionSchemas {
+  return {
+    input_schema: extractInputSchema(openapiSchema) ?? null,
+    output_schema: openapiSchema?.components?.schemas?.Output ?? null,
+  };
+}
+
+/**
+ * Get model metadata (cached for CACHE_TTL_SECONDS).
+ * The latest version's schemas come with the model, so their entry is primed too.
+ */
+async function getCachedModel(
+  client: Replicate,
+  scope: string,
+  owner: string,
+  name: string,
+  options: CacheOptions = {},
+): Promise<CachedModel> {
+  const modelId = `${owner}/${name}`;
+
+  return cached<CachedModel>(
+    `${scope}:model:${modelId}`,
+    async () => {
+      logger.debug('replicate', { message: 'Getting model', owner, name });
+
+      // Cast to access openapi_schema which may not be in the SDK types
+      const fullModel = (await client.models.get(owner, name)) as unknown as ReplicateModel;
+      const versionId = fullModel.latest_version?.id ?? null;
+
+      if (versionId && fullModel.latest_version?.openapi_schema) {
+        await setCached(
+          versionSchemaKey(scope, modelId, versionId),
+          toVersionSchemas(fullModel.latest_version.openapi_schema),
+          VERSION_SCHEMA_TTL_SECONDS,
+        );
+      }
+
+      const example = fullModel.default_example;
+
+      return {
+        owner: fullModel.owner,
+        name: fullModel.name,
+        description: fullModel.description ?? null,
+        visibility: fullModel.visibility,
+        run_count: fullModel.run_count ?? 0,
+        url: fullModel.url,
+        cover_image_url: fullModel.cover_image_url ?? null,
+        is_official: fullModel.is_official ?? false,
+        latest_version_id: versionId,
+        default_example: example?.input
+          ? { input: example.input as Record<string, unknown>, output: example.output ?? null }
+          : null,
+      };
+    },
+    options,
+  );
+}
+
+/**
+ * Get the schemas of a specific model version.
+ * Cached by version ID - a model publishing a new version changes the key,
+ * so stale schemas are never served past the metadata TTL.
+ */
+async function getVersionSchemas(
+  client: Replicate,
+  scope: string,
+  owner: string,
+  name: string,
+  versionId: string,
+): Promise<VersionSchemas> {
+  return cached(
+    versionSchemaKey(scope, `${owner}/${name}`, versionId),
+    async () => {
+      const version = await client.models.versions.get(owner, name, versionId);
+      return toVersionSchemas(version.openapi_schema as OpenApiSchema | null);
+    },
+    { ttlSeconds: VERSION_SCHEMA_TTL_SECONDS },
+  );
+}
+
+/**
+ * Get model metadata plus the input schema of its latest version.
+ */
+async function getModelDetails(
+  client: Replicate,
+  scope: string,
+  owner: string,
+  name: string,
+  options: CacheOptions = {},
+): Promise<CachedModel & { input_schema?: ModelInputSchema }> {
+  const model = await getCachedModel(client, scope, owner, name, options);
+  if (!model.latest_version_id) return model;
+
+  const { input_schema } = await getVersionSchemas(
+    client,
+    scope,
+    owner,
+    name,
+    model.latest_version_id,
+  );
+  return { ...model, input_schema: input_schema ?? undefined };
+}
+
 /**
  * Search for models on Replicate and enrich top results with input schemas.
  * Returns up to 5 models with full input schemas for immediate use.
+ * Search results and model details are cached; pass bypassCache to refresh.
  */
-export async function searchModels(query: string, apiToken: string): Promise<ModelSearchResult[]> {
+export async function searchModels(
+  query: string,
+  apiToken: string,
+  options: CacheOptions = {},
+): Promise<ModelSearchResult[]> {
   const client = createReplicateClient(apiToken);
+  const scope = await tokenScope(apiToken);
   
-  logger.debug('replicate', { message: 'Searching models', query });
-  
-  const response = await client.models.search(query);
-  
-  // Take top 5 results only
-  const topModels = response.results.slice(0, 5);
+  const topModels = await cached<ModelSearchResult[]>(
+    `${scope}:search:${query.trim().toLowerCase()}`,
+    async () => {
+      logger.debug('replicate', { message: 'Searching models', query });
+      
+      const response = await client.models.search(query);
+      
+      // Take top 5 results only
+      return response.results.slice(0, 5).map((model) => ({
+        owner: model.owner,
+        name: model.name,
+        description: model.description ?? null,
+        run_count: model.run_count ?? 0,
+      }));
+    },
+    options,
+  );
   
   // Enrich each result with input schema
   const enrichedResults: ModelSearchResult[] = await Promise.all(
     topModels.map(async (model) => {
       try {
-        const fullModel = await client.models.get(model.owner, model.name);
-        const modelData = fullModel as unknown as ReplicateModel;
-        const inputSchema = modelData.latest_version?.openapi_schema?.components?.schemas?.Input;
+        const details = await getModelDetails(client, scope, model.owner, model.name, options);
         
-        return {
-          owner: model.owner,
-          name: model.name,
-          description: model.description ?? null,
-          run_count: model.run_count ?? 0,
-          input_schema: inputSchema ? {
-            required: inputSchema.required ?? [],
-            properties: (inputSchema.properties ?? {}) as ModelInputSchema['properties'],
-          } : undefined,
-        };
+        return { ...model, input_schema: details.input_schema };
       } catch (error) {
         // If we can't get schema, return basic info
         logger.debug('replicate', { 
@@ -118,12 +377,7 @@ export async function searchModels(query: string, apiToken: string): Promise<Mod
           model: `${model.owner}/${model.name}`,
           error: (error as Error).message,
         });
-        return {
-          owner: model.owner,
-          name: model.name,
-          description: model.description ?? null,
-          run_count: model.run_count ?? 0,
-        };
+        return model;
       }
     })
   );
@@ -134,9 +388,14 @@ export async function searchModels(query: string, apiToken: string): Promise<Mod
 }
 
 /**
- * Get detailed model information including input schema
+ * Get detailed model information including input schema (cached)
  */
-export async function getModel(owner: string, name: string, apiToken: string): Promise<{
+export async function getModel(
+  owner: string,
+  name: string,
+  apiToken: string,
+  options: CacheOptions = {},
+): Promise<{
   owner: string;
   name: string;
   description: string | null;
@@ -144,54 +403,91 @@ export async function getModel(owner: string, name: string, apiToken: string): P
   input_schema: ModelInputSchema;
 }> {
   const client = createReplicateClient(apiToken);
-  
-  logger.debug('replicate', { message: 'Getting model', owner, name });
-  
-  const model = await client.models.get(owner, name);
-  
-  // Cast to access openapi_schema which may not be in the SDK types
-  const modelData = model as unknown as ReplicateModel;
-  const inputSchema = modelData.latest_version?.openapi_schema?.components?.schemas?.Input;
+  const model = await getModelDetails(client, await tokenScope(apiToken), owner, name, options);
   
   return {
     owner: model.owner,
     name: model.name,
-    description: model.description ?? null,
-    visibility: model.visibility as 'public' | 'private',
-    input_schema: {
-      required: inputSchema?.required ?? [],
-      properties: (inputSchema?.properties ?? {}) as ModelInputSchema['properties'],
+    description: model.description,
+    visibility: model.visibility,
+    input_schema: model.input_schema ?? {
+      required: [],
+      properties: {},
     },
   };
 }
 
 /**
- * Run a prediction and wait for result
+ * Get full model details: metadata, example input, and the input/output
+ * schemas of the latest version (or of `version`, if given). Cached.
  */
-export async function runPrediction(
-  modelId: string,
-  input: Record<string, unknown>,
+export async function getModelInfo(
+  owner: string,
+  name: string,
   apiToken: string,
-): Promise<PredictionResult> {
+  options: CacheOptions & { version?: string } = {},
+): Promise<ModelInfo> {
   const client = createReplicateClient(apiToken);
+  const scope = await tokenScope(apiToken);
+  const model = await getCachedModel(client, scope, owner, name, options);
+  const versionId = options.version ?? model.latest_version_id;
   
-  logger.debug('replicate', { message: 'Running prediction', modelId, input });
+  const schemas = versionId
+    ? await getVersionSchemas(client, scope, owner, name, versionId)
+    : { input_schema: null, output_schema: null };
   
-  // Create prediction and wait for completion
-  const prediction = await client.predictions.create({
-    model: modelId,
-    input,
-  });
+  return { ...model, version_id: versionId, ...schemas };
+}
+
+/**
+ * List a model's most recent versions, newest first (cached).
+ */
+export async function listModelVersions(
+  owner: string,
+  name: string,
+  apiToken: string,
+  options: CacheOptions & { limit?: number } = {},
+): Promise<ModelVersionSummary[]> {
+  const client = createReplicateClient(apiToken);
   
-  // Wait for completion
-  const result = await client.wait(prediction);
+  const versions = await cached<ModelVersionSummary[]>(
+    `${await tokenScope(apiToken)}:versions:${owner}/${name}`,
+    async () => {
+      logger.debug('replicate', { message: 'Listing model versions', owner, name });
+      
+      const page = await client.models.versions.list(owner, name);
+      return page.results.map((version) => ({
+        id: version.id,
+        created_at: version.created_at,
+        cog_version: version.cog_version ?? null,
+      }));
+    },
+    options,
+  );
   
-  logger.debug('replicate', { 
-    message: 'Prediction complete', 
-    id: result.id, 
-    status: result.status,
-  });
+  return versions.slice(0, options.limit ?? 10);
+}
+
+/**
+ * Get the input schema a model reference will run with (cached).
+ * Bare version IDs have no owner/name to look up and return undefined.
+ */
+export async function getModelInputSchema(
+  ref: ModelRef,
+  apiToken: string,
+  options: CacheOptions = {},
+): Promise<ModelInputSchema | undefined> {
+  if (!ref.model) return undefined;
   
+  const [owner, name] = ref.model.split('/');
+  const { input_schema } = await getModelInfo(owner, name, apiToken, { ...options, version: ref.version });
+  return input_schema ?? undefined;
+}
+
+/**
+ * Normalize a raw Replicate prediction into our result shape.
+ */
+function normalizePrediction(result: Prediction): PredictionResult {
   // Normalize status - the SDK may return "aborted" which we map to "canceled"
   const normalizedStatus = result.status === 'canceled' || result.status === 'aborted' 
     ? 'canceled' as const
@@ -204,9 +500,169 @@ export async function runPrediction(
   
   return {
     id: result.id,
+    model: result.model,
+    version: result.version,
+    input: result.input as Record<string, unknown> | undefined,
     status: normalizedStatus,
     output: Array.isArray(result.output) ? result.output : result.output ? [String(result.output)] : null,
     error: errorMessage,
+    logs: result.logs,
     metrics: result.metrics as PredictionResult['metrics'],
   };
 }
+
+/**
+ * Parse step progress from prediction logs.
+ * Diffusion models print tqdm bars such as " 50%|█████     | 14/28 [00:02<00:02]";
+ * the last percentage in the logs is returned as a fraction (0-1).
+ */
+export function parseLogProgress(logs?: string): number | undefined {
+  if (!logs) return undefined;
+  
+  const matches = [...logs.matchAll(/(\d{1,3})%\|/g)];
+  const last = matches.at(-1);
+  if (!last) return undefined;
+  
+  return Math.min(Number(last[1]), 100) / 100;
+}
+
+/**
+ * Get the effective seed of a prediction: the seed from its input, or the
+ * random seed the model printed to its logs (e.g. "Using seed: 1234").
+ * Seeds beyond Number.MAX_SAFE_INTEGER can't be reproduced exactly and count as unknown.
+ */
+export function extractSeed(prediction: Pick<PredictionResult, 'input' | 'logs'>): number | null {
+  const inputSeed = Number(prediction.input?.seed);
+  if (prediction.input?.seed !== undefined && prediction.input?.seed !== null && Number.isSafeInteger(inputSeed)) {
+    return inputSeed;
+  }
+  
+  // A longer number is another value (e.g. a hash), not a truncated seed
+  const match = prediction.logs?.match(/\bseed\b[^0-9\n]{0,20}(\d{1,16})(?!\d)/i);
+  const logSeed = match ? Number(match[1]) : Number.NaN;
+  return Number.isSafeInteger(logSeed) ? logSeed : null;
+}
+
+/** Interval between status checks while waiting for a prediction (as client.wait) */
+const POLL_INTERVAL_MS = 500;
+
+const isFinished = (status: Prediction['status']) =>
+  status === 'succeeded' || status === 'failed' || status === 'canceled' || status === 'aborted';
+
+/**
+ * Run a prediction and wait for result.
+ * A failed prediction is returned (status "failed"), not thrown.
+ * If the signal aborts while waiting, the prediction is cancelled on Replicate
+ * so the job stops billing, and the cancelled prediction is returned.
+ * onUpdate is called with every polled state while the prediction is running.
+ */
+export async function runPrediction(
+  ref: ModelRef,
+  input: Record<string, unknown>,
+  apiToken: string,
+  options: {
+    signal?: AbortSignal;
+    onUpdate?: (prediction: PredictionResult) => void | Promise<void>;
+  } = {},
+): Promise<PredictionResult> {
+  const { signal, onUpdate } = options;
+  const client = createReplicateClient(apiToken);
+  
+  logger.debug('replicate', { message: 'Running prediction', model: formatModelRef(ref), input });
+  
+  // Create prediction and wait for completion
+  const prediction = await client.predictions.create({
+    ...predictionTarget(ref),
+    input,
+  });
+  
+  await onUpdate?.(normalizePrediction(prediction));
+  
+  // Poll until it finishes, stopping early if the caller cancels. client.wait()
+  // would throw on failure and lose the failed prediction (ID, version, logs).
+  let result = prediction;
+  while (!isFinished(result.status) && !signal?.aborted) {
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    result = await client.predictions.get(prediction.id);
+    await onUpdate?.(normalizePrediction(result));
+  }
+  
+  if (signal?.aborted && (result.status === 'starting' || result.status === 'processing')) {
+    logger.info('replicate', { message: 'Request cancelled, cancelling prediction', id: result.id });
+    const canceled = await client.predictions.cancel(result.id);
+    return normalizePrediction(canceled);
+  }
+  
+  logger.debug('replicate', { 
+    message: 'Prediction complete', 
+    id: result.id, 
+    status: result.status,
+  });
+  
+  return normalizePrediction(result);
+}
+
+/**
+ * Create a prediction without waiting for it to finish.
+ * Use getPrediction to poll for the result.
+ */
+export async function createPrediction(
+  ref: ModelRef,
+  input: Record<string, unknown>,
+  apiToken: string,
+): Promise<PredictionResult> {
+  const client = createReplicateClient(apiToken);
+  
+  logger.debug('replicate', { message: 'Creating prediction', model: formatModelRef(ref), input });
+  
+  const prediction = await client.predictions.create({
+    ...predictionTarget(ref),
+    input,
+  });
+  
+  logger.debug('replicate', { 
+    message: 'Prediction created', 
+    id: prediction.id, 
+    status: prediction.status,
+  });
+  
+  return normalizePrediction(prediction);
+}
+
+/**
+ * Get the current state of a prediction
+ */
+export async function getPrediction(
+  predictionId: string,
+  apiToken: string,
+): Promise<PredictionResult> {
+  const client = createReplicateClient(apiToken);
+  
+  logger.debug('replicate', { message: 'Getting prediction', id: predictionId });
+  
+  const prediction = await client.predictions.get(predictionId);
+  
+  return normalizePrediction(prediction);
+}
+
+/**
+ * Cancel a running prediction
+ */
+export async function cancelPrediction(
+  predictionId: string,
+  apiToken: string,
+): Promise<PredictionResult> {
+  const client = createReplicateClient(apiToken);
+  
+  logger.debug('replicate', { message: 'Cancelling prediction', id: predictionId });
+  
+  const prediction = await client.predictions.cancel(predictionId);
+  
+  logger.debug('replicate', { 
+    message: 'Prediction cancel requested', 
+    id: prediction.id, 
+    status: prediction.status,
+  });
+  
+  return normalizePrediction(prediction);
+}
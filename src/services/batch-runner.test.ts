@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { runBatch } from './batch-runner.js';
+import { clearPredictionHistory, getRecordedPrediction } from './prediction-history.js';
+
+const SESSION = 'session-1';
+
+const originalFetch = globalThis.fetch;
+let creates: string[];
+let maxInFlight: number;
+
+beforeEach(() => {
+  creates = [];
+  maxInFlight = 0;
+  let inFlight = 0;
+
+  globalThis.fetch = (async (url: string, init?: RequestInit) => {
+    const path = new URL(url).pathname;
+    const create = /^\/v1\/models\/acme\/([^/]+)\/predictions$/.exec(path);
+
+    if (create && init?.method === 'POST') {
+      const name = create[1];
+      creates.push(name);
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      inFlight--;
+
+      if (name === 'broken') {
+        return Response.json({ detail: 'Invalid version' }, { status: 422 });
+      }
+      const { input } = JSON.parse(String(init.body));
+      return Response.json({
+        id: `${name}-${creates.length}`,
+        model: `acme/${name}`,
+        version: 'v1',
+        input,
+        status: name === 'lost' ? 'processing' : 'succeeded',
+        output: name === 'lost' ? null : [`https://replicate.delivery/x/${name}.png`],
+        error: null,
+        logs: 'Using seed: 7',
+        metrics: { predict_time: 1.5 },
+      });
+    }
+
+    // Model schemas and lookups of the "lost" prediction are unavailable
+    return new Response('Not found', { status: 404 });
+  }) as typeof fetch;
+});
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+  clearPredictionHistory(SESSION);
+});
+
+const options = {
+  apiToken: 'r8_test',
+  pins: {},
+  concurrency: 2,
+  sessionId: SESSION,
+};
+
+describe('runBatch', () => {
+  test('runs jobs under the concurrency limit and keeps their order', async () => {
+    const finished: number[] = [];
+    const items = await runBatch(
+      [
+        { model: 'acme/ok', input: { prompt: 'one' }, label: 'first' },
+        { model: 'acme/broken', input: { prompt: 'two' } },
+        { model: 'acme/ok', input: { prompt: 'three' } },
+      ],
+      { ...options, onJobDone: (_item, done) => void finished.push(done) },
+    );
+
+    expect(maxInFlight).toBe(2);
+    expect(finished).toEqual([1, 2, 3]);
+    expect(items.map((item) => [item.index, item.status])).toEqual([
+      [0, 'succeeded'],
+      [1, 'failed'],
+      [2, 'succeeded'],
+    ]);
+    expect(items[0]).toMatchObject({
+      label: 'first',
+      version: 'v1',
+      output: ['https://replicate.delivery/x/ok.png'],
+      seed: 7,
+      predict_time: 1.5,
+      success: true,
+    });
+    expect(items[1]).toMatchObject({ prediction_id: null, success: false });
+    expect(items[1].error).toContain('Invalid version');
+
+    const recorded = getRecordedPrediction(SESSION, String(items[0].prediction_id));
+    expect(recorded).toMatchObject({ status: 'succeeded', source: 'generate_batch' });
+  });
+
+  test('keeps a created prediction when waiting on it fails', async () => {
+    const [item] = await runBatch(
+      [{ model: 'acme/lost', input: { prompt: 'a' } }],
+      options,
+    );
+
+    expect(item).toMatchObject({ status: 'failed', prediction_id: 'lost-1', seed: 7 });
+    expect(getRecordedPrediction(SESSION, 'lost-1')?.status).toBe('failed');
+  });
+
+  test('skips every job once the batch is cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const items = await runBatch(
+      [
+        { model: 'acme/ok', input: { prompt: 'one' } },
+        { model: 'acme/ok', input: { prompt: 'two' } },
+      ],
+      { ...options, signal: controller.signal },
+    );
+
+    expect(creates).toEqual([]);
+    expect(items.map((item) => item.status)).toEqual(['canceled', 'canceled']);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Run several predictions concurrently (generate_batch, compare_models).
+ *
+ * Jobs run under a concurrency gate and never throw - every job ends as a
+ * succeeded, failed or canceled item. Aborting the signal cancels running
+ * predictions on Replicate and skips jobs that are still queued.
+ */
+
+import { makeConcurrencyGate } from '../utils/limits.js';
+import {
+  extractSeed,
+  type PredictionResult,
+  resolveModelRef,
+  runPrediction,
+} from './api/replicate.service.js';
+import { checkModelInput } from './model-input.js';
+import {
+  isTerminalStatus,
+  recordPrediction,
+  toPredictionRecord,
+} from './prediction-history.js';
+import { markAwaited } from './prediction-watcher.js';
+import { persistOutputs } from './storage/output-storage.js';
+
+export interface BatchJob {
+  /** "owner/name", "owner/name:version" or a version ID */
+  model: string;
+  input: Record<string, unknown>;
+  label?: string;
+}
+
+export interface BatchItem {
+  index: number;
+  label?: string;
+  model: string;
+  version: string | null;
+  status: 'succeeded' | 'failed' | 'canceled';
+  prediction_id: string | null;
+  output: string[] | null;
+  stored: boolean;
+  error: string | null;
+  /** Effective seed (from the input or the model logs) */
+  seed: number | null;
+  /** Model run time reported by Replicate, in seconds */
+  predict_time: number | null;
+  /** Wall-clock time for the job, including queueing on Replicate */
+  duration_ms: number;
+  success: boolean;
+}
+
+export interface BatchOptions {
+  apiToken: string;
+  signal?: AbortSignal;
+  /** Server version pins (MODEL_VERSIONS) */
+  pins: Record<string, string>;
+  concurrency: number;
+  /** Session whose prediction history receives the runs */
+  sessionId?: string;
+  /** Tool name recorded in the prediction history */
+  source?: string;
+  /** Called after each job finishes */
+  onJobDone?: (
+    item: BatchItem,
+    finished: number,
+    total: number,
+  ) => void | Promise<void>;
+}
+
+/**
+ * Run one job to completion. Never throws - errors become failed items.
+ */
+export async function runBatchJob(
+  job: BatchJob,
+  index: number,
+  options: Pick<BatchOptions, 'apiToken' | 'signal' | 'pins' | 'sessionId' | 'source'>,
+): Promise<BatchItem> {
+  const { apiToken, signal } = options;
+  const startedAt = Date.now();
+  const ref = resolveModelRef(job.model, options.pins);
+
+  const finish = (
+    fields: Partial<BatchItem> & Pick<BatchItem, 'status'>,
+  ): BatchItem => ({
+    index,
+    ...(job.label && { label: job.label }),
+    model: job.model,
+    version: ref.version ?? null,
+    prediction_id: null,
+    output: null,
+    stored: false,
+    error: null,
+    seed: null,
+    predict_time: null,
+    ...fields,
+    duration_ms: Date.now() - startedAt,
+    success: fields.status === 'succeeded',
+  });
+
+  // Jobs still queued when the batch is cancelled never start
+  if (signal?.aborted) {
+    return finish({
+      status: 'canceled',
+      error: 'Batch cancelled before the job started',
+    });
+  }
+
+  const describeRun = (prediction: PredictionResult) => ({
+    version: prediction.version ?? ref.version ?? null,
+    prediction_id: prediction.id,
+    seed: extractSeed(prediction),
+    predict_time: prediction.metrics?.predict_time ?? null,
+  });
+
+  let input = job.input;
+  const remember = (prediction: PredictionResult, output?: string[]) =>
+    recordPrediction(
+      options.sessionId,
+      toPredictionRecord(prediction, {
+        model: ref.model ?? job.model,
+        source: options.source ?? 'generate_batch',
+        input,
+        startedAt,
+        output,
+      }),
+    );
+
+  // Latest state of the created prediction, kept if waiting on it throws
+  let latest: PredictionResult | undefined;
+  let release: (() => void) | undefined;
+
+  try {
+    const checked = await checkModelInput(ref, job.input, apiToken);
+
+    if (checked.schema && checked.issues.length > 0) {
+      return finish({
+        status: 'failed',
+        error: `Invalid input - ${checked.issues.map((issue) => `${issue.key}: ${issue.message}`).join('; ')}`,
+      });
+    }
+
+    input = checked.schema ? checked.input : job.input;
+
+    const prediction = await runPrediction(ref, input, apiToken, {
+      signal,
+      onUpdate: (update) => {
+        latest = update;
+        release ??= markAwaited(update.id);
+        if (!isTerminalStatus(update.status)) remember(update);
+      },
+    });
+    const run = describeRun(prediction);
+
+    if (prediction.status === 'succeeded') {
+      const outputs = await persistOutputs(prediction.id, prediction.output || []);
+      remember(prediction, outputs.urls);
+      return finish({
+        ...run,
+        status: 'succeeded',
+        output: outputs.urls,
+        stored: outputs.stored,
+      });
+    }
+
+    remember(prediction);
+    return prediction.status === 'failed'
+      ? finish({ ...run, status: 'failed', error: prediction.error || 'Unknown error' })
+      : finish({ ...run, status: 'canceled', error: 'Cancelled before completion' });
+  } catch (error) {
+    const status = signal?.aborted ? 'canceled' : 'failed';
+    const message = (error as Error).message;
+
+    // The prediction was created before the error: keep it and close its record
+    if (latest) {
+      remember({ ...latest, status, error: message });
+      return finish({ ...describeRun(latest), status, error: message });
+    }
+
+    return finish({ status, error: message });
+  } finally {
+    release?.();
+  }
+}
+
+/**
+ * Run jobs concurrently (at most `concurrency` at once). Results keep job order.
+ */
+export async function runBatch(
+  jobs: BatchJob[],
+  options: BatchOptions,
+): Promise<BatchItem[]> {
+  const gate = makeConcurrencyGate(options.concurrency);
+  let finished = 0;
+
+  return Promise.all(
+    jobs.map((job, index) =>
+      gate(async () => {
+        const item = await runBatchJob(job, index, options);
+        finished++;
+        await options.onJobDone?.(item, finished, jobs.length);
+        return item;
+      }),
+    ),
+  );
+}
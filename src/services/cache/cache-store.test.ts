@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, setSystemTime, test } from 'bun:test';
+import { getModel } from '../api/replicate.service.js';
+import { cached, setCacheStore, tokenScope } from './cache-store.js';
+import { createMemoryCache } from './memory.cache.js';
+
+/** Loader that counts its calls */
+function counter() {
+  let calls = 0;
+  return {
+    load: async () => ++calls,
+    get calls() {
+      return calls;
+    },
+  };
+}
+
+beforeEach(() => {
+  setCacheStore(createMemoryCache({ maxEntries: 10 }));
+});
+
+afterEach(() => {
+  setCacheStore(null);
+  setSystemTime();
+  delete process.env.CACHE_TTL_SECONDS;
+});
+
+describe('cached', () => {
+  test('loads once and serves the cached value until the TTL expires', async () => {
+    const loader = counter();
+    setSystemTime(new Date('2026-01-01T00:00:00Z'));
+
+    expect(await cached('key', loader.load, { ttlSeconds: 60 })).toBe(1);
+    expect(await cached('key', loader.load, { ttlSeconds: 60 })).toBe(1);
+
+    setSystemTime(new Date('2026-01-01T00:01:01Z'));
+    expect(await cached('key', loader.load, { ttlSeconds: 60 })).toBe(2);
+    expect(loader.calls).toBe(2);
+  });
+
+  test('bypassCache loads fresh data and stores it', async () => {
+    const loader = counter();
+
+    await cached('key', loader.load, { ttlSeconds: 60 });
+    expect(
+      await cached('key', loader.load, { ttlSeconds: 60, bypassCache: true }),
+    ).toBe(2);
+    expect(await cached('key', loader.load, { ttlSeconds: 60 })).toBe(2);
+  });
+
+  test('a TTL of 0 disables caching', async () => {
+    const loader = counter();
+    process.env.CACHE_TTL_SECONDS = '0';
+
+    await cached('key', loader.load);
+    expect(await cached('key', loader.load)).toBe(2);
+  });
+
+  test('falls back to the loader when the store fails', async () => {
+    setCacheStore({
+      name: 'broken',
+      get: async () => {
+        throw new Error('store down');
+      },
+      set: async () => {
+        throw new Error('store down');
+      },
+      delete: async () => {},
+    });
+
+    expect(await cached('key', async () => 'fresh', { ttlSeconds: 60 })).toBe('fresh');
+  });
+});
+
+describe('tokenScope', () => {
+  test('is stable per token and differs between tokens', async () => {
+    expect(await tokenScope('r8_one')).toBe(await tokenScope('r8_one'));
+    expect(await tokenScope('r8_one')).not.toBe(await tokenScope('r8_two'));
+    expect(await tokenScope('r8_one')).toMatch(/^[0-9a-f]{16}$/);
+  });
+});
+
+describe('model cache', () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test('does not share entries between API tokens', async () => {
+    const seenTokens: string[] = [];
+    globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+      seenTokens.push(new Headers(init?.headers).get('Authorization') ?? '');
+      return Response.json({
+        owner: 'acme',
+        name: 'private-model',
+        visibility: 'private',
+      });
+    }) as typeof fetch;
+
+    await getModel('acme', 'private-model', 'r8_one');
+    await getModel('acme', 'private-model', 'r8_one');
+    await getModel('acme', 'private-model', 'r8_two');
+
+    expect(seenTokens).toEqual(['Bearer r8_one', 'Bearer r8_two']);
+  });
+});
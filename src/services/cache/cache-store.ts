@@ -0,0 +1,129 @@
+/**
+ * Cache for Replicate model metadata, schemas and search results.
+ *
+ * Searching and schema lookups cost several Replicate API calls each, so
+ * results are cached and shared across sessions. Keys are scoped by the API
+ * token (see tokenScope) - what a token can see depends on its account.
+ *
+ * Backends:
+ * - In-memory LRU (Node.js, and Workers without KV) - see memory.cache.ts
+ * - Workers KV (Cloudflare, TOKENS binding) - see kv.cache.ts
+ */
+
+import { resolveConfig } from '../../config/env.js';
+import { logger } from '../../utils/logger.js';
+import { createMemoryCache } from './memory.cache.js';
+
+/** Pluggable key/value cache backend */
+export interface CacheStore {
+  /** Backend name for logs ("memory", "kv") */
+  readonly name: string;
+  /** Read a value, or undefined if missing or expired */
+  get<T>(key: string): Promise<T | undefined>;
+  /** Store a JSON-serializable value for ttlSeconds */
+  set<T>(key: string, value: T, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/** Per-call cache options */
+export interface CacheOptions {
+  /** Skip reading the cache and fetch fresh data (the fresh value is still stored) */
+  bypassCache?: boolean;
+  /** Override the default TTL (CACHE_TTL_SECONDS) */
+  ttlSeconds?: number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Active cache (set once per runtime; defaults to an in-memory LRU)
+// ─────────────────────────────────────────────────────────────────────────────
+
+let activeCache: CacheStore | null = null;
+let defaultCache: CacheStore | null = null;
+
+export function setCacheStore(store: CacheStore | null): void {
+  activeCache = store;
+}
+
+export function getCacheStore(): CacheStore {
+  if (activeCache) return activeCache;
+  defaultCache ??= createMemoryCache({ maxEntries: resolveConfig().CACHE_MAX_ENTRIES });
+  return defaultCache;
+}
+
+/**
+ * Key prefix for values fetched with a Replicate API token: the first 16 hex
+ * digits of the token's SHA-256. Private models and search results must only
+ * be served to callers using the same token.
+ */
+export async function tokenScope(apiToken: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(apiToken),
+  );
+  return [...new Uint8Array(digest).slice(0, 8)]
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Return a cached value, or load and cache it.
+ * Cache errors are logged and never fail the call - the loader runs instead.
+ * A TTL of 0 disables caching.
+ */
+export async function cached<T>(
+  key: string,
+  load: () => Promise<T>,
+  options: CacheOptions = {},
+): Promise<T> {
+  const ttlSeconds = options.ttlSeconds ?? resolveConfig().CACHE_TTL_SECONDS;
+  if (ttlSeconds <= 0) return load();
+
+  const store = getCacheStore();
+
+  if (!options.bypassCache) {
+    try {
+      const hit = await store.get<T>(key);
+      if (hit !== undefined) {
+        logger.debug('cache', { message: 'Cache hit', entry: key, store: store.name });
+        return hit;
+      }
+    } catch (error) {
+      logger.warning('cache', {
+        message: 'Cache read failed',
+        entry: key,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  logger.debug('cache', {
+    message: options.bypassCache ? 'Cache bypassed' : 'Cache miss',
+    entry: key,
+    store: store.name,
+  });
+
+  const value = await load();
+  await setCached(key, value, ttlSeconds);
+  return value;
+}
+
+/**
+ * Store a value directly (e.g. to prime an entry fetched alongside another).
+ */
+export async function setCached<T>(
+  key: string,
+  value: T,
+  ttlSeconds: number,
+): Promise<void> {
+  if (ttlSeconds <= 0) return;
+
+  try {
+    await getCacheStore().set(key, value, ttlSeconds);
+  } catch (error) {
+    logger.warning('cache', {
+      message: 'Cache write failed',
+      entry: key,
+      error: (error as Error).message,
+    });
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Workers KV cache (Cloudflare).
+ * Entries are shared across isolates and expire via KV's expirationTtl.
+ */
+
+import type { KVNamespace } from '@cloudflare/workers-types';
+import type { CacheStore } from './cache-store.js';
+
+export interface KvCacheOptions {
+  /** KV namespace binding */
+  namespace: KVNamespace;
+  /** Key prefix, so cache entries don't collide with other data in the namespace */
+  prefix?: string;
+}
+
+/** KV rejects expirationTtl values below 60 seconds */
+const MIN_KV_TTL_SECONDS = 60;
+
+export function createKvCache(options: KvCacheOptions): CacheStore {
+  const { namespace } = options;
+  const prefix = options.prefix ?? 'cache:';
+
+  return {
+    name: 'kv',
+
+    async get<T>(key: string): Promise<T | undefined> {
+      const value = await namespace.get(`${prefix}${key}`, 'json');
+      return value === null ? undefined : (value as T);
+    },
+
+    async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+      await namespace.put(`${prefix}${key}`, JSON.stringify(value), {
+        expirationTtl: Math.max(MIN_KV_TTL_SECONDS, Math.ceil(ttlSeconds)),
+      });
+    },
+
+    async delete(key: string): Promise<void> {
+      await namespace.delete(`${prefix}${key}`);
+    },
+  };
+}
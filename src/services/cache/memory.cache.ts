@@ -0,0 +1,47 @@
+/**
+ * In-memory LRU cache (Node.js).
+ * Shared by all sessions in the process; least recently used entries are
+ * evicted once maxEntries is reached.
+ */
+
+import type { CacheStore } from './cache-store.js';
+
+export interface MemoryCacheOptions {
+  /** Maximum number of entries before the least recently used is evicted */
+  maxEntries: number;
+}
+
+export function createMemoryCache(options: MemoryCacheOptions): CacheStore {
+  // Map iteration order is insertion order - re-inserting on read keeps it LRU
+  const entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  return {
+    name: 'memory',
+
+    async get<T>(key: string): Promise<T | undefined> {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return undefined;
+
+      entries.set(key, entry);
+      return entry.value as T;
+    },
+
+    async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+
+      while (entries.size > Math.max(1, options.maxEntries)) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+
+    async delete(key: string): Promise<void> {
+      entries.delete(key);
+    },
+  };
+}
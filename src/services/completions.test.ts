@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { setCacheStore } from './cache/cache-store.js';
+import { createMemoryCache } from './cache/memory.cache.js';
+import { completeModelIds, rankCompletions } from './completions.js';
+
+const originalFetch = globalThis.fetch;
+let searches: string[] = [];
+
+beforeEach(() => {
+  searches = [];
+  setCacheStore(createMemoryCache({ maxEntries: 50 }));
+  // Replicate search answers "flu…" with FLUX models; model lookups fail (no schemas)
+  globalThis.fetch = (async (url: string, init?: RequestInit) => {
+    if (init?.method === 'QUERY') {
+      const query = JSON.parse(String(init.body)) as string;
+      searches.push(query);
+      const results = query.startsWith('flu')
+        ? [
+            { owner: 'black-forest-labs', name: 'flux-dev' },
+            { owner: 'acme', name: 'fluffy' },
+          ]
+        : [{ owner: 'stability-ai', name: 'sdxl' }];
+      return Response.json({ results, next: null });
+    }
+    return new Response(`Not found: ${url}`, { status: 404 });
+  }) as typeof fetch;
+});
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+  setCacheStore(null);
+});
+
+describe('rankCompletions', () => {
+  test('puts prefix matches before substring matches and drops duplicates', () => {
+    expect(
+      rankCompletions('flux', [
+        'acme/flux-lora',
+        'flux/x',
+        'black-forest-labs/flux-dev',
+        'flux/x',
+      ]),
+    ).toEqual(['flux/x', 'acme/flux-lora', 'black-forest-labs/flux-dev']);
+    expect(rankCompletions('', ['a', 'b', 'a'])).toEqual(['a', 'b']);
+  });
+});
+
+describe('completeModelIds', () => {
+  test('completes known models without searching short input', async () => {
+    const ids = await completeModelIds('bl', { replicateToken: 'r8_short' });
+
+    expect(ids[0]).toBe('black-forest-labs/flux-schnell');
+    expect(searches).toEqual([]);
+  });
+
+  test('reuses a search for longer input with the same prefix', async () => {
+    const source = { replicateToken: 'r8_prefix' };
+
+    await completeModelIds('flu', source);
+    await completeModelIds('flux', source);
+    expect(await completeModelIds('fluff', source)).toEqual(['acme/fluffy']);
+    // No reused result matches "sdx", so it searches again
+    expect(await completeModelIds('sdx', source)).toEqual(['stability-ai/sdxl']);
+
+    expect(searches).toEqual(['flu', 'sdx']);
+  });
+
+  test('does not reuse searches made with another token', async () => {
+    await completeModelIds('flu', { replicateToken: 'r8_first' });
+    await completeModelIds('flux', { replicateToken: 'r8_second' });
+
+    expect(searches).toEqual(['flu', 'flux']);
+  });
+});
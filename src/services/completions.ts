@@ -0,0 +1,186 @@
+/**
+ * Value suggestions for completion/complete: model identifiers, version IDs
+ * and enum values of model parameters.
+ *
+ * Sources are the server's known models (popular models, version pins, the
+ * session's history), Replicate search and the cached model schemas. Lookup
+ * failures never surface to the client - they just yield fewer suggestions.
+ */
+
+import { resolveConfig } from '../config/env.js';
+import { logger } from '../utils/logger.js';
+import {
+  getModelInputSchema,
+  listModelVersions,
+  resolveModelRef,
+  searchModels,
+} from './api/replicate.service.js';
+import { tokenScope } from './cache/cache-store.js';
+import { listRecordedPredictions } from './prediction-history.js';
+
+export interface CompletionSource {
+  sessionId?: string;
+  replicateToken?: string;
+}
+
+const POPULAR_MODELS = [
+  'black-forest-labs/flux-schnell',
+  'black-forest-labs/flux-dev',
+  'black-forest-labs/flux-kontext-pro',
+  'bytedance/seedream-4',
+];
+
+/** Suggested when a model's schema doesn't list aspect ratios */
+export const COMMON_ASPECT_RATIOS = ['1:1', '16:9', '9:16', '4:3', '21:9'];
+
+/** Don't search Replicate for very short input */
+const MIN_SEARCH_LENGTH = 3;
+
+/** Completion searches kept for reuse while the user keeps typing */
+const MAX_RECENT_SEARCHES = 50;
+
+/** Model IDs found per "<token scope>:<query>", oldest first (results depend on the token) */
+const recentSearches = new Map<string, string[]>();
+
+/**
+ * Unique candidates matching the typed value: prefix matches first, then
+ * substring matches (case-insensitive).
+ */
+export function rankCompletions(value: string, candidates: string[]): string[] {
+  const unique = [...new Set(candidates)];
+  const needle = value.toLowerCase();
+  if (!needle) return unique;
+
+  const prefix = unique.filter((candidate) =>
+    candidate.toLowerCase().startsWith(needle),
+  );
+  const contains = unique.filter(
+    (candidate) =>
+      !prefix.includes(candidate) && candidate.toLowerCase().includes(needle),
+  );
+  return [...prefix, ...contains];
+}
+
+/**
+ * Model IDs from Replicate search. A longer query reuses the results of an
+ * earlier search for its prefix while they still match the typed value, so
+ * typing "flux-dev" searches once, not once per character. Only searches
+ * made with the same API token are reused.
+ */
+async function searchModelIds(
+  query: string,
+  value: string,
+  replicateToken: string,
+): Promise<string[]> {
+  const key = `${await tokenScope(replicateToken)}:${query}`;
+  let reusable: string | undefined;
+  for (const previous of recentSearches.keys()) {
+    // Same scope: the scope has a fixed length and ends in ":"
+    if (key.startsWith(previous) && (!reusable || previous.length > reusable.length)) {
+      reusable = previous;
+    }
+  }
+  const reused = reusable === undefined ? undefined : recentSearches.get(reusable);
+  if (reused && rankCompletions(value, reused).length > 0) {
+    return reused;
+  }
+
+  const results = await searchModels(query, replicateToken);
+  const ids = results.map((model) => `${model.owner}/${model.name}`);
+  recentSearches.delete(key);
+  recentSearches.set(key, ids);
+  if (recentSearches.size > MAX_RECENT_SEARCHES) {
+    recentSearches.delete(recentSearches.keys().next().value as string);
+  }
+  return ids;
+}
+
+/**
+ * Version IDs of one model ("owner/name"), newest first.
+ */
+export async function completeVersionIds(
+  model: string | undefined,
+  value: string,
+  source: CompletionSource,
+): Promise<string[]> {
+  const [owner, name] = model?.split(':')[0].split('/') ?? [];
+  if (!owner || !name || !source.replicateToken) return [];
+
+  try {
+    const versions = await listModelVersions(owner, name, source.replicateToken);
+    return rankCompletions(
+      value,
+      versions.map((version) => version.id),
+    );
+  } catch (error) {
+    logger.debug('completions', {
+      message: 'Could not list versions',
+      model,
+      error: (error as Error).message,
+    });
+    return [];
+  }
+}
+
+/**
+ * Model identifiers ("owner/name"). Once the value contains ":", completes
+ * the version part instead ("owner/name:version").
+ */
+export async function completeModelIds(
+  value: string,
+  source: CompletionSource,
+): Promise<string[]> {
+  if (value.includes(':')) {
+    const [model, version = ''] = value.split(':');
+    const versions = await completeVersionIds(model, version, source);
+    return versions.map((id) => `${model}:${id}`);
+  }
+
+  const known = [
+    ...POPULAR_MODELS,
+    ...Object.keys(resolveConfig().MODEL_VERSIONS),
+    ...listRecordedPredictions(source.sessionId).map((record) => record.model),
+  ];
+
+  const query = value.replace(/[/_-]+/g, ' ').trim();
+  let found: string[] = [];
+  if (source.replicateToken && query.length >= MIN_SEARCH_LENGTH) {
+    try {
+      found = await searchModelIds(query, value, source.replicateToken);
+    } catch (error) {
+      logger.debug('completions', {
+        message: 'Model search failed',
+        query,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  return rankCompletions(value, [...known, ...found]);
+}
+
+/**
+ * Allowed values of a model parameter (its enum), from the cached schema.
+ */
+export async function completeParameterValues(
+  model: string | undefined,
+  parameter: string,
+  value: string,
+  source: CompletionSource,
+): Promise<string[]> {
+  if (!model || !source.replicateToken) return [];
+
+  try {
+    const ref = resolveModelRef(model, resolveConfig().MODEL_VERSIONS);
+    const schema = await getModelInputSchema(ref, source.replicateToken);
+    const options = schema?.properties[parameter]?.enum ?? [];
+    return rankCompletions(value, options.map(String));
+  } catch (error) {
+    logger.debug('completions', {
+      message: 'Could not load model schema',
+      model,
+      error: (error as Error).message,
+    });
+    return [];
+  }
+}
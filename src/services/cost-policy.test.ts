@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import type { ClientChannel } from '../types/context.js';
+import { enforceCostPolicy } from './cost-policy.js';
+
+const FLUX_PRO = 'black-forest-labs/flux-1.1-pro'; // $0.04 per image
+const UNKNOWN = 'someone/video-model';
+
+/** Client that answers the confirmation form with `confirmed` */
+function confirmingClient(confirmed: boolean, asked: string[] = []): ClientChannel {
+  return {
+    notification: async () => {},
+    getClientCapabilities: () => ({ elicitation: {} }),
+    request: async <T>(request: { params?: Record<string, unknown> }) => {
+      asked.push(String(request.params?.message));
+      return { action: 'accept', content: { confirmed } } as T;
+    },
+  };
+}
+
+const ENV_KEYS = ['COST_CONFIRM_THRESHOLD', 'COST_UNKNOWN_PRICE', 'MODEL_PRICES'];
+
+afterEach(() => {
+  for (const key of ENV_KEYS) delete process.env[key];
+});
+
+describe('enforceCostPolicy', () => {
+  test('allows calls at or below the threshold without asking', async () => {
+    const asked: string[] = [];
+    const decision = await enforceCostPolicy(
+      [{ model: FLUX_PRO, input: { num_outputs: 4 } }],
+      confirmingClient(false, asked),
+      'generate_image',
+    );
+
+    expect(decision).toEqual({ allowed: true, estimate_usd: 0.16 });
+    expect(asked).toEqual([]);
+  });
+
+  test('asks for approval above the threshold', async () => {
+    process.env.COST_CONFIRM_THRESHOLD = '0.1';
+    const jobs = [{ model: FLUX_PRO, input: { num_outputs: 4 } }];
+    const asked: string[] = [];
+
+    const approved = await enforceCostPolicy(
+      jobs,
+      confirmingClient(true, asked),
+      'generate_image',
+    );
+    expect(approved.allowed).toBe(true);
+    expect(asked[0]).toContain("above this server's approval limit of $0.10");
+
+    const declined = await enforceCostPolicy(
+      jobs,
+      confirmingClient(false),
+      'generate_image',
+    );
+    expect(declined.allowed).toBe(false);
+    expect(declined.allowed ? '' : declined.message).toContain('## Cost Not Approved');
+  });
+
+  test('refuses above the threshold when the client cannot confirm', async () => {
+    process.env.COST_CONFIRM_THRESHOLD = '0.1';
+    const decision = await enforceCostPolicy(
+      [{ model: FLUX_PRO, input: { num_outputs: 4 } }],
+      { notification: async () => {} },
+      'generate_batch',
+    );
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.allowed ? '' : decision.message).toContain(
+      '## Cost Approval Required',
+    );
+  });
+
+  test('does not count unknown prices by default', async () => {
+    const version = 'a'.repeat(64);
+    const decision = await enforceCostPolicy(
+      [
+        { model: UNKNOWN, input: {} },
+        { model: version, input: {} },
+      ],
+      undefined,
+      'compare_models',
+    );
+
+    expect(decision).toEqual({ allowed: true, estimate_usd: 0 });
+  });
+
+  test('counts unknown prices as COST_UNKNOWN_PRICE', async () => {
+    process.env.COST_UNKNOWN_PRICE = '2';
+    const asked: string[] = [];
+    const decision = await enforceCostPolicy(
+      [{ model: UNKNOWN, input: {} }],
+      confirmingClient(true, asked),
+      'generate_image',
+    );
+
+    expect(decision).toEqual({ allowed: true, estimate_usd: 2 });
+    expect(asked[0]).toContain(`- ${UNKNOWN}: unknown (counted as $2.00)`);
+  });
+
+  test('never gates with a threshold of 0', async () => {
+    process.env.COST_CONFIRM_THRESHOLD = '0';
+    process.env.MODEL_PRICES = `${UNKNOWN}=5`;
+    const decision = await enforceCostPolicy(
+      [{ model: UNKNOWN, input: {} }],
+      undefined,
+      'generate_image',
+    );
+
+    expect(decision).toEqual({ allowed: true, estimate_usd: 5 });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Cost confirmation gate for expensive calls.
+ *
+ * Before predictions start, the call's estimated cost is compared with the
+ * server's COST_CONFIRM_THRESHOLD. Above it, the user has to approve the spend
+ * through form elicitation; clients that can't show forms are refused.
+ * Predictions without a known price count as COST_UNKNOWN_PRICE (default 0).
+ * The threshold is server config only - no tool argument can raise or skip it.
+ */
+
+import { resolveConfig } from '../config/env.js';
+import type { ClientChannel } from '../types/context.js';
+import { clientSupportsFormElicitation, confirm } from '../utils/elicitation.js';
+import { logger } from '../utils/logger.js';
+import { estimatePredictionCost, formatCost } from './pricing.js';
+
+export interface CostedJob {
+  model: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * Outcome of the gate. `estimate_usd` covers the models with a known price
+ * (and COST_UNKNOWN_PRICE for the rest); a refusal carries markdown explaining it.
+ */
+export type CostDecision =
+  | { allowed: true; estimate_usd: number }
+  | { allowed: false; estimate_usd: number; message: string };
+
+const formatUsd = (usd: number) => `$${usd.toFixed(2)}`;
+
+/**
+ * Check a call's predictions against the cost threshold, asking the user
+ * for approval when it is exceeded.
+ */
+export async function enforceCostPolicy(
+  jobs: CostedJob[],
+  client: ClientChannel | undefined,
+  tool: string,
+): Promise<CostDecision> {
+  const {
+    COST_CONFIRM_THRESHOLD,
+    COST_UNKNOWN_PRICE,
+    MODEL_PRICES,
+    MODEL_RUN_ESTIMATES,
+  } = resolveConfig();
+  const estimates = jobs.map((job) =>
+    estimatePredictionCost(job.model, job.input, {
+      prices: MODEL_PRICES,
+      runs: MODEL_RUN_ESTIMATES,
+    }),
+  );
+  const total = estimates.reduce(
+    (sum, estimate) => sum + (estimate?.usd ?? COST_UNKNOWN_PRICE),
+    0,
+  );
+
+  if (COST_CONFIRM_THRESHOLD <= 0 || total <= COST_CONFIRM_THRESHOLD) {
+    return { allowed: true, estimate_usd: total };
+  }
+
+  const breakdown = jobs
+    .map((job, index) => {
+      const estimate = estimates[index];
+      const counted =
+        !estimate && COST_UNKNOWN_PRICE > 0
+          ? ` (counted as ${formatUsd(COST_UNKNOWN_PRICE)})`
+          : '';
+      return `- ${job.model}: ${formatCost(estimate)}${counted}`;
+    })
+    .join('\n');
+  const summary = `Estimated cost: ~${formatUsd(total)} (approval required above ${formatUsd(COST_CONFIRM_THRESHOLD)})
+
+${breakdown}`;
+
+  if (!client || !clientSupportsFormElicitation(client)) {
+    logger.warning('cost_policy', {
+      message: 'Refused: over threshold and client cannot confirm',
+      tool,
+      estimateUsd: total,
+      threshold: COST_CONFIRM_THRESHOLD,
+    });
+
+    return {
+      allowed: false,
+      estimate_usd: total,
+      message: `## Cost Approval Required
+
+${summary}
+
+This call needs the user's approval, but the client can't show a confirmation form (no elicitation support). Nothing was run.
+
+Options:
+- Use a cheaper model, or fewer outputs or jobs
+- Ask the server administrator to raise COST_CONFIRM_THRESHOLD`,
+    };
+  }
+
+  const approved = await confirm(
+    client,
+    `${tool} will run ${jobs.length === 1 ? 'a prediction' : `${jobs.length} predictions`} estimated at ~${formatUsd(total)}, above this server's approval limit of ${formatUsd(COST_CONFIRM_THRESHOLD)}.
+
+${breakdown}
+
+Approve this spend?`,
+    { confirmLabel: 'Approve' },
+  ).catch((error) => {
+    logger.error('cost_policy', {
+      message: 'Confirmation request failed',
+      tool,
+      error: (error as Error).message,
+    });
+    return false;
+  });
+
+  logger.info('cost_policy', {
+    message: approved ? 'Spend approved' : 'Spend declined',
+    tool,
+    estimateUsd: total,
+    threshold: COST_CONFIRM_THRESHOLD,
+  });
+
+  return approved
+    ? { allowed: true, estimate_usd: total }
+    : {
+        allowed: false,
+        estimate_usd: total,
+        message: `## Cost Not Approved
+
+${summary}
+
+The user did not approve this spend. Nothing was run.
+Don't retry the same call - ask the user how to proceed (e.g. a cheaper model).`,
+      };
+}
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { ClientChannel } from '../types/context.js';
+import type { ModelInputSchema } from './api/replicate.service.js';
+import {
+  buildInputForm,
+  canElicitInput,
+  elicitModelInput,
+} from './input-elicitation.js';
+
+const schema: ModelInputSchema = {
+  required: ['prompt'],
+  properties: {
+    num_outputs: { type: 'integer', minimum: 1, maximum: 4, default: 1, 'x-order': 2 },
+    prompt: { type: 'string', description: 'Text prompt', 'x-order': 0 },
+    aspect_ratio: { type: 'string', enum: ['1:1', '16:9'], 'x-order': 1 },
+    image_input: { type: 'array', items: { type: 'string' }, 'x-order': 3 },
+  },
+};
+
+type Answer = {
+  action: 'accept' | 'decline' | 'cancel';
+  content?: Record<string, unknown>;
+};
+
+/** Client that answers each form with the next answer and records the forms */
+function answeringClient(
+  answers: Answer[],
+  forms: Array<Record<string, unknown>> = [],
+) {
+  const client: ClientChannel = {
+    notification: async () => {},
+    getClientCapabilities: () => ({ elicitation: { form: {} } }),
+    request: async <T>(request: { params?: Record<string, unknown> }) => {
+      forms.push(request.params?.requestedSchema as Record<string, unknown>);
+      return answers.shift() as T;
+    },
+  };
+  return client;
+}
+
+describe('buildInputForm', () => {
+  test('builds fields in parameter order and leaves out arrays', () => {
+    const form = buildInputForm(schema, { aspect_ratio: '16:9' });
+
+    expect(Object.keys(form.properties)).toEqual([
+      'prompt',
+      'aspect_ratio',
+      'num_outputs',
+    ]);
+    expect(form.properties.aspect_ratio).toMatchObject({
+      type: 'string',
+      enum: ['1:1', '16:9'],
+      default: '16:9',
+    });
+    expect(form.properties.num_outputs).toMatchObject({
+      type: 'integer',
+      minimum: 1,
+      maximum: 4,
+      default: 1,
+    });
+    expect(form.required).toEqual(['prompt']);
+  });
+});
+
+describe('elicitModelInput', () => {
+  const originalFetch = globalThis.fetch;
+
+  beforeEach(() => {
+    globalThis.fetch = (async (_url: string) =>
+      Response.json({
+        owner: 'black-forest-labs',
+        name: 'flux-schnell',
+        run_count: 1,
+        url: 'https://replicate.com/black-forest-labs/flux-schnell',
+        latest_version: {
+          id: 'a'.repeat(64),
+          openapi_schema: { components: { schemas: { Input: schema } } },
+        },
+      })) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test('asks for the model, then its parameters', async () => {
+    const forms: Array<Record<string, unknown>> = [];
+    const client = answeringClient(
+      [
+        { action: 'accept', content: { selection: 'black-forest-labs/flux-schnell' } },
+        { action: 'accept', content: { prompt: 'a lighthouse', aspect_ratio: '' } },
+      ],
+      forms,
+    );
+
+    const result = await elicitModelInput(
+      client,
+      { input: { num_outputs: 2 } },
+      `r8_elicit_${crypto.randomUUID()}`,
+    );
+
+    expect(canElicitInput(client)).toBe(true);
+    expect(forms).toHaveLength(2);
+    expect(result).toEqual({
+      model: 'black-forest-labs/flux-schnell',
+      input: { num_outputs: 2, prompt: 'a lighthouse' },
+    });
+  });
+
+  test('returns undefined when the user declines', async () => {
+    const client = answeringClient([{ action: 'decline' }]);
+
+    expect(
+      await elicitModelInput(
+        client,
+        { model: 'black-forest-labs/flux-schnell', input: {} },
+        `r8_elicit_${crypto.randomUUID()}`,
+      ),
+    ).toBeUndefined();
+  });
+
+  test('is unavailable without form support', () => {
+    expect(canElicitInput(undefined)).toBe(false);
+    expect(
+      canElicitInput({
+        notification: async () => {},
+        getClientCapabilities: () => ({}),
+      }),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Interactive model and parameter selection for generate_image.
+ * When the client supports form elicitation, the user picks a model and then
+ * fills in a form generated from that model's input schema.
+ *
+ * Accepted values are not trusted: they go through the same schema validation
+ * as input written by the assistant.
+ */
+
+import { resolveConfig } from '../config/env.js';
+import type { ClientChannel } from '../types/context.js';
+import {
+  clientSupportsFormElicitation,
+  type ElicitationSchema,
+  elicitForm,
+  type FieldSchema,
+  promptSelect,
+} from '../utils/elicitation.js';
+import { logger } from '../utils/logger.js';
+import {
+  getModelInputSchema,
+  type ModelInputProperty,
+  type ModelInputSchema,
+  resolveModelRef,
+} from './api/replicate.service.js';
+
+const MODEL_CHOICES = [
+  { value: 'black-forest-labs/flux-schnell', label: 'FLUX Schnell - fast (~2s)' },
+  { value: 'black-forest-labs/flux-dev', label: 'FLUX Dev - higher quality (~10s)' },
+  { value: 'bytedance/seedream-4', label: 'Seedream 4 - versatile' },
+  {
+    value: 'black-forest-labs/flux-kontext-pro',
+    label: 'FLUX Kontext Pro - edit an image with text instructions',
+  },
+];
+
+export interface ElicitedInput {
+  model: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * Whether the client can show forms on this request's channel.
+ */
+export function canElicitInput(
+  client: ClientChannel | undefined,
+): client is ClientChannel {
+  return client !== undefined && clientSupportsFormElicitation(client);
+}
+
+/**
+ * Models offered in the picker: the common models plus models pinned by the server.
+ */
+function modelChoices(): Array<{ value: string; label: string }> {
+  const pinned = Object.keys(resolveConfig().MODEL_VERSIONS)
+    .filter((model) => !MODEL_CHOICES.some((choice) => choice.value === model))
+    .map((model) => ({ value: model, label: `${model} (pinned by server)` }));
+  return [...MODEL_CHOICES, ...pinned];
+}
+
+/**
+ * Map one schema property to a form field. Enums become selects, numbers keep
+ * their min/max. Arrays and objects can't be expressed in a flat form and
+ * are left out.
+ */
+function toFormField(
+  name: string,
+  property: ModelInputProperty,
+  value: unknown,
+): FieldSchema | undefined {
+  const title = property.title ?? name;
+  const description = property.description;
+
+  if (property.enum?.length) {
+    return {
+      type: 'string',
+      title,
+      description,
+      enum: property.enum.map(String),
+      default: value !== undefined && value !== null ? String(value) : undefined,
+    };
+  }
+
+  switch (property.type) {
+    case 'integer':
+    case 'number':
+      return {
+        type: property.type,
+        title,
+        description,
+        minimum: property.minimum,
+        maximum: property.maximum,
+        default: typeof value === 'number' ? value : undefined,
+      };
+    case 'boolean':
+      return {
+        type: 'boolean',
+        title,
+        description,
+        default: typeof value === 'boolean' ? value : undefined,
+      };
+    case 'string':
+      return {
+        type: 'string',
+        title,
+        description,
+        format: property.format === 'uri' ? 'uri' : undefined,
+        default: typeof value === 'string' ? value : undefined,
+      };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Build a flat elicitation form from a model's input schema, in the model's
+ * own parameter order. Values already in `input` (or schema defaults) prefill
+ * the fields.
+ */
+export function buildInputForm(
+  schema: ModelInputSchema,
+  input: Record<string, unknown>,
+): ElicitationSchema {
+  const order = (property: ModelInputProperty) =>
+    property['x-order'] ?? Number.MAX_SAFE_INTEGER;
+  const properties: Record<string, FieldSchema> = {};
+
+  const entries = Object.entries(schema.properties).sort(
+    ([, a], [, b]) => order(a) - order(b),
+  );
+  for (const [name, property] of entries) {
+    const field = toFormField(name, property, input[name] ?? property.default);
+    if (field) properties[name] = field;
+  }
+
+  const required = schema.required.filter((name) => name in properties);
+  return { type: 'object', properties, ...(required.length > 0 && { required }) };
+}
+
+/**
+ * Ask the user for a model (unless given) and its parameters.
+ * Returns `undefined` when the user declines or cancels either step.
+ */
+export async function elicitModelInput(
+  client: ClientChannel,
+  selection: { model?: string; input: Record<string, unknown> },
+  apiToken: string,
+): Promise<ElicitedInput | undefined> {
+  const choices = modelChoices();
+  const model =
+    selection.model ??
+    (await promptSelect(client, 'Which model should generate the image?', choices, {
+      title: 'Model',
+      defaultValue: choices[0].value,
+      required: true,
+    }));
+  if (!model) return undefined;
+
+  let schema: ModelInputSchema | undefined;
+  try {
+    schema = await getModelInputSchema(
+      resolveModelRef(model, resolveConfig().MODEL_VERSIONS),
+      apiToken,
+    );
+  } catch (error) {
+    // Without a schema there is no form to show; validation reports the problem
+    logger.warning('input_elicitation', {
+      message: 'Could not load model schema',
+      model,
+      error: (error as Error).message,
+    });
+  }
+
+  const form = schema ? buildInputForm(schema, selection.input) : undefined;
+  if (!form || Object.keys(form.properties).length === 0) {
+    return { model, input: selection.input };
+  }
+
+  const result = await elicitForm(client, {
+    message: `Set the parameters for ${model}`,
+    requestedSchema: form,
+  });
+  if (result.action !== 'accept') return undefined;
+
+  // Fields left empty are omitted so the model's defaults apply
+  const values = Object.fromEntries(
+    Object.entries(result.content ?? {}).filter(([, value]) => value !== ''),
+  );
+  return { model, input: { ...selection.input, ...values } };
+}
@@ -0,0 +1,231 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import type { ModelInputSchema } from './api/replicate.service.js';
+import {
+  adaptCommonParams,
+  checkModelInput,
+  suggestKey,
+  validateModelInput,
+} from './model-input.js';
+
+const schema: ModelInputSchema = {
+  required: ['prompt'],
+  properties: {
+    prompt: { type: 'string' },
+    num_outputs: { type: 'integer', minimum: 1, maximum: 4 },
+    guidance: { type: 'number' },
+    go_fast: { type: 'boolean' },
+    aspect_ratio: { type: 'string', enum: ['1:1', '16:9'] },
+    output_format: { type: 'string', enum: ['webp', 'png'] },
+    image_input: { type: 'array', items: { type: 'string', format: 'uri' } },
+    negative_prompt: { type: 'string', nullable: true },
+    steps: { type: 'integer', enum: [4, 8] },
+  },
+};
+
+describe('validateModelInput', () => {
+  test('coerces obvious type mismatches and reports them', () => {
+    const result = validateModelInput(
+      {
+        prompt: 'a cat',
+        num_outputs: '2',
+        guidance: '3.5',
+        go_fast: 'false',
+        image_input: 'https://x/a.png',
+      },
+      schema,
+    );
+
+    expect(result.issues).toEqual([]);
+    expect(result.input).toEqual({
+      prompt: 'a cat',
+      num_outputs: 2,
+      guidance: 3.5,
+      go_fast: false,
+      image_input: ['https://x/a.png'],
+    });
+    expect(result.coerced).toContain('num_outputs: "2" → 2');
+  });
+
+  test('coerces numbers and booleans to strings and accepts null when nullable', () => {
+    const result = validateModelInput(
+      { prompt: 42, aspect_ratio: '16:9', negative_prompt: null, go_fast: true },
+      schema,
+    );
+
+    expect(result.issues).toEqual([]);
+    expect(result.input).toEqual({
+      prompt: '42',
+      aspect_ratio: '16:9',
+      negative_prompt: null,
+      go_fast: true,
+    });
+    expect(result.coerced).toEqual(['prompt: 42 → "42"']);
+  });
+
+  test('rejects values that cannot be coerced', () => {
+    const result = validateModelInput(
+      {
+        prompt: { text: 'a cat' },
+        num_outputs: '',
+        go_fast: 'yes',
+        image_input: { url: 'https://x/a.png' },
+      },
+      schema,
+    );
+
+    expect(result.input).toEqual({});
+    expect(result.issues).toEqual([
+      { key: 'prompt', message: 'expected string, got {"text":"a cat"}' },
+      { key: 'num_outputs', message: 'expected integer, got ""' },
+      { key: 'go_fast', message: 'expected boolean, got "yes"' },
+      { key: 'image_input', message: 'expected array, got {"url":"https://x/a.png"}' },
+    ]);
+  });
+
+  test('matches enums case-insensitively', () => {
+    const result = validateModelInput(
+      { prompt: 'a cat', output_format: 'PNG' },
+      schema,
+    );
+
+    expect(result.issues).toEqual([]);
+    expect(result.input.output_format).toBe('png');
+  });
+
+  test('coerces numeric strings before matching numeric enums', () => {
+    const result = validateModelInput({ prompt: 'a cat', steps: '8' }, schema);
+
+    expect(result.issues).toEqual([]);
+    expect(result.input.steps).toBe(8);
+    expect(validateModelInput({ prompt: 'a cat', steps: '6' }, schema).issues).toEqual([
+      { key: 'steps', message: 'invalid value "6"; allowed: 4, 8' },
+    ]);
+  });
+
+  test('reports bad values, ranges and missing required fields', () => {
+    const result = validateModelInput(
+      { num_outputs: 1.5, guidance: 'high', aspect_ratio: '4:3' },
+      schema,
+    );
+
+    expect(result.issues).toEqual([
+      { key: 'num_outputs', message: 'expected integer, got 1.5' },
+      { key: 'guidance', message: 'expected number, got "high"' },
+      { key: 'aspect_ratio', message: 'invalid value "4:3"; allowed: "1:1", "16:9"' },
+      { key: 'prompt', message: 'missing required parameter' },
+    ]);
+    expect(validateModelInput({ prompt: 'a', num_outputs: 8 }, schema).issues).toEqual([
+      { key: 'num_outputs', message: '8 is above the maximum of 4' },
+    ]);
+    expect(
+      validateModelInput({ prompt: 'a', num_outputs: '0' }, schema).issues,
+    ).toEqual([{ key: 'num_outputs', message: '0 is below the minimum of 1' }]);
+    expect(validateModelInput({ prompt: '' }, schema).issues).toEqual([
+      { key: 'prompt', message: 'missing required parameter' },
+    ]);
+  });
+
+  test('suggests the closest key for unknown parameters', () => {
+    const result = validateModelInput(
+      { prompt: 'a cat', aspectRatio: '1:1', outptu_format: 'png', zzz: 1 },
+      schema,
+    );
+
+    expect(result.issues).toEqual([
+      {
+        key: 'aspectRatio',
+        message: 'unknown parameter (did you mean "aspect_ratio"?)',
+      },
+      {
+        key: 'outptu_format',
+        message: 'unknown parameter (did you mean "output_format"?)',
+      },
+      { key: 'zzz', message: 'unknown parameter' },
+    ]);
+  });
+});
+
+describe('suggestKey', () => {
+  test('ignores case and separators before edit distance', () => {
+    expect(suggestKey('NumOutputs', Object.keys(schema.properties))).toBe(
+      'num_outputs',
+    );
+    expect(suggestKey('unrelated_key', Object.keys(schema.properties))).toBeUndefined();
+  });
+});
+
+describe('checkModelInput', () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test('returns the input unchecked when the schema is unavailable', async () => {
+    globalThis.fetch = (async (_url: string) =>
+      new Response('Service Unavailable', { status: 503 })) as typeof fetch;
+    const input = { prompt: 'a cat', num_outputs: '2', typo: true };
+
+    const result = await checkModelInput(
+      { model: 'acme/schema-outage' },
+      input,
+      'r8_test',
+    );
+
+    expect(result).toEqual({ input, issues: [], coerced: [] });
+  });
+});
+
+describe('adaptCommonParams', () => {
+  const ratios: ModelInputSchema = {
+    required: ['prompt'],
+    properties: {
+      prompt: { type: 'string' },
+      aspect_ratio: { type: 'string', enum: ['1:1', '16:9', '3:2', '9:16'] },
+      seed: { type: 'integer' },
+    },
+  };
+  const dimensions: ModelInputSchema = {
+    required: ['text_prompt'],
+    properties: {
+      negative_prompt: { type: 'string' },
+      text_prompt: { type: 'string' },
+      width: { type: 'integer', minimum: 256, maximum: 1024 },
+      height: { type: 'integer', minimum: 256, maximum: 1024 },
+    },
+  };
+
+  test('passes supported values through unchanged', () => {
+    expect(
+      adaptCommonParams({ prompt: 'a cat', aspect_ratio: '16:9', seed: 7 }, ratios),
+    ).toEqual({
+      input: { prompt: 'a cat', aspect_ratio: '16:9', seed: 7 },
+      notes: [],
+    });
+  });
+
+  test('maps unsupported ratios to the closest option', () => {
+    expect(adaptCommonParams({ prompt: 'a cat', aspect_ratio: '4:3' }, ratios)).toEqual(
+      {
+        input: { prompt: 'a cat', aspect_ratio: '3:2' },
+        notes: ['aspect_ratio 4:3 not supported, using 3:2'],
+      },
+    );
+  });
+
+  test('converts ratios to dimensions and finds the prompt key', () => {
+    expect(
+      adaptCommonParams({ prompt: 'a cat', aspect_ratio: '16:9', seed: 7 }, dimensions),
+    ).toEqual({
+      input: { text_prompt: 'a cat', width: 1024, height: 768 },
+      notes: ['aspect_ratio 16:9 → 1024×768', 'seed not supported, ignored'],
+    });
+  });
+
+  test('passes parameters unchanged without a schema', () => {
+    expect(adaptCommonParams({ prompt: 'a cat', aspect_ratio: '4:3' })).toEqual({
+      input: { prompt: 'a cat', aspect_ratio: '4:3' },
+      notes: ['Schema unavailable - parameters passed unchanged'],
+    });
+  });
+});
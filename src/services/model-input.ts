@@ -0,0 +1,393 @@
+/**
+ * Validate and coerce model input against a model's OpenAPI Input schema.
+ * Catches typos, out-of-range values and bad enums before a paid prediction.
+ */
+
+import { logger } from '../utils/logger.js';
+import {
+  getModelInputSchema,
+  type ModelInputProperty,
+  type ModelInputSchema,
+  type ModelRef,
+} from './api/replicate.service.js';
+
+export interface InputIssue {
+  key: string;
+  message: string;
+}
+
+export interface InputValidationResult {
+  /** Input with obvious type mismatches coerced (e.g. "4" → 4) */
+  input: Record<string, unknown>;
+  issues: InputIssue[];
+  /** Human-readable notes about applied coercions */
+  coerced: string[];
+}
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function levenshtein(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] =
+        a[i - 1] === b[j - 1] ? previous : 1 + Math.min(previous, row[j], row[j - 1]);
+      previous = current;
+    }
+  }
+
+  return row[b.length];
+}
+
+/**
+ * Suggest the closest known key for an unknown one.
+ * Matches ignoring case and separators first (aspectRatio → aspect_ratio),
+ * then falls back to edit distance.
+ */
+export function suggestKey(key: string, known: string[]): string | undefined {
+  const normalized = normalizeKey(key);
+  const exact = known.find((candidate) => normalizeKey(candidate) === normalized);
+  if (exact) return exact;
+
+  let best: string | undefined;
+  let bestDistance = Number.POSITIVE_INFINITY;
+  for (const candidate of known) {
+    const distance = levenshtein(normalized, normalizeKey(candidate));
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return bestDistance <= Math.max(2, Math.floor(normalized.length / 3))
+    ? best
+    : undefined;
+}
+
+const describe = (value: unknown) => JSON.stringify(value);
+
+/**
+ * Coerce a single value to the property's type.
+ * Returns `undefined` as the error when the value is acceptable.
+ */
+function coerceValue(
+  value: unknown,
+  property: ModelInputProperty,
+): { value: unknown; error?: string } {
+  if (value === null && property.nullable) return { value };
+
+  switch (property.type) {
+    case 'integer':
+    case 'number': {
+      const num =
+        typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof num !== 'number' || Number.isNaN(num)) {
+        return { value, error: `expected ${property.type}, got ${describe(value)}` };
+      }
+      if (property.type === 'integer' && !Number.isInteger(num)) {
+        return { value, error: `expected integer, got ${describe(value)}` };
+      }
+      return { value: num };
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return { value };
+      if (value === 'true' || value === 'false') return { value: value === 'true' };
+      return { value, error: `expected boolean, got ${describe(value)}` };
+    }
+    case 'string': {
+      if (typeof value === 'string') return { value };
+      if (typeof value === 'number' || typeof value === 'boolean')
+        return { value: String(value) };
+      return { value, error: `expected string, got ${describe(value)}` };
+    }
+    case 'array': {
+      if (Array.isArray(value)) return { value };
+      if (typeof value === 'string') return { value: [value] };
+      return { value, error: `expected array, got ${describe(value)}` };
+    }
+    default:
+      return { value };
+  }
+}
+
+/**
+ * Match a value against an enum, accepting case-insensitive matches
+ * and numeric strings for numeric enums.
+ */
+function matchEnum(
+  value: unknown,
+  options: unknown[],
+): { found: boolean; value: unknown } {
+  if (options.includes(value)) return { found: true, value };
+
+  const text = String(value).toLowerCase();
+  const match = options.find((option) => String(option).toLowerCase() === text);
+  return match === undefined ? { found: false, value } : { found: true, value: match };
+}
+
+/**
+ * Validate input against a model's Input schema.
+ * Unknown keys, type mismatches, bad enum values, range violations and
+ * missing required fields are reported as issues; safe coercions are applied.
+ */
+export function validateModelInput(
+  input: Record<string, unknown>,
+  schema: ModelInputSchema,
+): InputValidationResult {
+  const known = Object.keys(schema.properties);
+  const issues: InputIssue[] = [];
+  const coerced: string[] = [];
+  const result: Record<string, unknown> = {};
+
+  for (const [key, raw] of Object.entries(input)) {
+    const property = schema.properties[key];
+
+    if (!property) {
+      const suggestion = suggestKey(key, known);
+      issues.push({
+        key,
+        message: suggestion
+          ? `unknown parameter (did you mean "${suggestion}"?)`
+          : 'unknown parameter',
+      });
+      continue;
+    }
+
+    if (raw === undefined) continue;
+
+    const coercion = coerceValue(raw, property);
+    if (coercion.error) {
+      issues.push({ key, message: coercion.error });
+      continue;
+    }
+
+    let value = coercion.value;
+
+    if (property.enum?.length) {
+      const matched = matchEnum(value, property.enum);
+      if (!matched.found) {
+        issues.push({
+          key,
+          message: `invalid value ${describe(raw)}; allowed: ${property.enum.map(describe).join(', ')}`,
+        });
+        continue;
+      }
+      value = matched.value;
+    }
+
+    if (typeof value === 'number') {
+      if (property.minimum !== undefined && value < property.minimum) {
+        issues.push({
+          key,
+          message: `${value} is below the minimum of ${property.minimum}`,
+        });
+        continue;
+      }
+      if (property.maximum !== undefined && value > property.maximum) {
+        issues.push({
+          key,
+          message: `${value} is above the maximum of ${property.maximum}`,
+        });
+        continue;
+      }
+    }
+
+    if (value !== raw) {
+      coerced.push(`${key}: ${describe(raw)} → ${describe(value)}`);
+    }
+    result[key] = value;
+  }
+
+  for (const key of schema.required) {
+    if (input[key] === undefined || input[key] === null || input[key] === '') {
+      issues.push({ key, message: 'missing required parameter' });
+    }
+  }
+
+  return { input: result, issues, coerced };
+}
+
+export interface CheckedInput extends InputValidationResult {
+  /** Schema the input was checked against (undefined if unavailable) */
+  schema?: ModelInputSchema;
+}
+
+/**
+ * Fetch the schema for a model reference and validate input against it.
+ * If the schema can't be fetched, the input is returned unchecked so that
+ * Replicate validates it instead.
+ */
+export async function checkModelInput(
+  ref: ModelRef,
+  input: Record<string, unknown>,
+  apiToken: string,
+): Promise<CheckedInput> {
+  let schema: ModelInputSchema | undefined;
+  try {
+    schema = await getModelInputSchema(ref, apiToken);
+  } catch (error) {
+    logger.warning('model_input', {
+      message: 'Could not fetch model schema, skipping input validation',
+      model: ref.model ?? ref.version,
+      error: (error as Error).message,
+    });
+  }
+
+  if (!schema || Object.keys(schema.properties).length === 0) {
+    return { input, issues: [], coerced: [] };
+  }
+
+  const validation = validateModelInput(input, schema);
+
+  if (validation.coerced.length > 0) {
+    logger.debug('model_input', {
+      message: 'Coerced input values',
+      model: ref.model ?? ref.version,
+      coerced: validation.coerced,
+    });
+  }
+
+  return { ...validation, schema };
+}
+
+/**
+ * Format validation issues as a markdown list.
+ */
+export function formatInputIssues(issues: InputIssue[]): string {
+  return issues.map((issue) => `- ${issue.key}: ${issue.message}`).join('\n');
+}
+
+/**
+ * List a schema's parameters in compact form for error messages.
+ */
+export function formatSchemaParameters(schema: ModelInputSchema): string {
+  return Object.entries(schema.properties)
+    .sort(([, a], [, b]) => (a['x-order'] ?? 0) - (b['x-order'] ?? 0))
+    .map(([key, property]) => {
+      const required = schema.required.includes(key) ? ', required' : '';
+      const options = property.enum?.length
+        ? ` — one of ${property.enum.map(describe).join(', ')}`
+        : '';
+      const range =
+        property.minimum !== undefined || property.maximum !== undefined
+          ? ` — ${property.minimum ?? '…'} to ${property.maximum ?? '…'}`
+          : '';
+      return `- ${key} (${property.type}${required})${options}${range}`;
+    })
+    .join('\n');
+}
+
+/** Parameters shared by every model in a comparison */
+export interface CommonParams {
+  prompt: string;
+  /** "w:h", e.g. "16:9" */
+  aspect_ratio?: string;
+  seed?: number;
+}
+
+const parseRatio = (value: string): number | undefined => {
+  const match = /^(\d+(?:\.\d+)?):(\d+(?:\.\d+)?)$/.exec(value);
+  return match ? Number(match[1]) / Number(match[2]) : undefined;
+};
+
+/**
+ * Width/height for an aspect ratio at about one megapixel,
+ * rounded to multiples of 64 and clamped to the schema's limits.
+ */
+function dimensionsFor(
+  ratio: number,
+  width: ModelInputProperty,
+  height: ModelInputProperty,
+): { width: number; height: number } {
+  const area = 1024 * 1024;
+  const fit = (value: number, property: ModelInputProperty) => {
+    const rounded = Math.max(64, Math.round(value / 64) * 64);
+    return Math.min(
+      property.maximum ?? rounded,
+      Math.max(property.minimum ?? rounded, rounded),
+    );
+  };
+  return {
+    width: fit(Math.sqrt(area * ratio), width),
+    height: fit(Math.sqrt(area / ratio), height),
+  };
+}
+
+/**
+ * Translate common parameters into one model's input using its schema.
+ * - aspect_ratio: used as-is, mapped to the closest supported ratio, or
+ *   converted to width/height for models that take dimensions
+ * - seed: passed only if the model accepts one
+ * Every adjustment or dropped parameter is described in `notes`.
+ */
+export function adaptCommonParams(
+  params: CommonParams,
+  schema?: ModelInputSchema,
+): { input: Record<string, unknown>; notes: string[] } {
+  const { prompt, aspect_ratio, seed } = params;
+
+  if (!schema || Object.keys(schema.properties).length === 0) {
+    return {
+      input: {
+        prompt,
+        ...(aspect_ratio && { aspect_ratio }),
+        ...(seed !== undefined && { seed }),
+      },
+      notes: ['Schema unavailable - parameters passed unchanged'],
+    };
+  }
+
+  const props = schema.properties;
+  const notes: string[] = [];
+  const promptKey =
+    'prompt' in props
+      ? 'prompt'
+      : (Object.keys(props).find(
+          (key) => key.includes('prompt') && !key.includes('negative'),
+        ) ?? 'prompt');
+  const input: Record<string, unknown> = { [promptKey]: prompt };
+
+  if (aspect_ratio) {
+    const ratio = parseRatio(aspect_ratio);
+    const options = props.aspect_ratio?.enum?.map(String);
+
+    if (props.aspect_ratio && (!options || options.includes(aspect_ratio))) {
+      input.aspect_ratio = aspect_ratio;
+    } else if (props.aspect_ratio && options && ratio !== undefined) {
+      const closest = options
+        .filter((option) => parseRatio(option) !== undefined)
+        .sort(
+          (a, b) =>
+            Math.abs(Math.log((parseRatio(a) as number) / ratio)) -
+            Math.abs(Math.log((parseRatio(b) as number) / ratio)),
+        )[0];
+      if (closest) {
+        input.aspect_ratio = closest;
+        notes.push(`aspect_ratio ${aspect_ratio} not supported, using ${closest}`);
+      } else {
+        notes.push(`aspect_ratio ${aspect_ratio} not supported, ignored`);
+      }
+    } else if (props.width && props.height && ratio !== undefined) {
+      const size = dimensionsFor(ratio, props.width, props.height);
+      input.width = size.width;
+      input.height = size.height;
+      notes.push(`aspect_ratio ${aspect_ratio} → ${size.width}×${size.height}`);
+    } else {
+      notes.push('aspect_ratio not supported, ignored');
+    }
+  }
+
+  if (seed !== undefined) {
+    if (props.seed) {
+      input.seed = seed;
+    } else {
+      notes.push('seed not supported, ignored');
+    }
+  }
+
+  return { input, notes };
+}
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { buildOutputContent } from './output-content.js';
+
+const PNG = 'https://replicate.delivery/x/out-0.png';
+const MP4 = 'https://replicate.delivery/x/out-1.mp4';
+
+describe('buildOutputContent', () => {
+  const originalFetch = globalThis.fetch;
+
+  beforeEach(() => {
+    globalThis.fetch = (async (url: string) =>
+      String(url).endsWith('.mp4')
+        ? new Response(new Uint8Array([0]), {
+            headers: { 'content-type': 'video/mp4' },
+          })
+        : new Response(new Uint8Array([1, 2, 3]), {
+            headers: { 'content-type': 'image/png' },
+          })) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test('adds nothing in markdown mode', async () => {
+    expect(await buildOutputContent([PNG], 'markdown', { maxDimension: 0 })).toEqual(
+      [],
+    );
+  });
+
+  test('inlines images as base64 and links everything else', async () => {
+    const blocks = await buildOutputContent([PNG, MP4], 'image', { maxDimension: 0 });
+
+    expect(blocks).toEqual([
+      { type: 'image', data: 'AQID', mimeType: 'image/png' },
+      {
+        type: 'resource_link',
+        uri: MP4,
+        name: 'out-1.mp4',
+        mimeType: 'video/mp4',
+        description: 'Generated output 2',
+      },
+    ]);
+  });
+
+  test('returns both blocks per output in all mode', async () => {
+    const blocks = await buildOutputContent([PNG], 'all', { maxDimension: 0 });
+
+    expect(blocks.map((block) => block.type)).toEqual(['image', 'resource_link']);
+  });
+
+  test('returns only links in resource_link mode', async () => {
+    const blocks = await buildOutputContent([PNG], 'resource_link', {
+      maxDimension: 0,
+    });
+
+    expect(blocks).toEqual([
+      {
+        type: 'resource_link',
+        uri: PNG,
+        name: 'out-0.png',
+        mimeType: 'image/png',
+        description: 'Generated output 1',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Build MCP content blocks for generated outputs.
+ *
+ * Some clients render `image` blocks inline but not markdown images, and some
+ * cannot reach replicate.delivery at all. These helpers fetch the output and
+ * return it as base64 image content and/or a `resource_link`.
+ */
+
+import type { ToolContentBlock } from '../shared/tools/types.js';
+import { base64EncodeBytes } from '../shared/utils/base64.js';
+import { logger } from '../utils/logger.js';
+import { contentTypeFor } from './storage/output-storage.js';
+
+export type OutputMode = 'markdown' | 'image' | 'resource_link' | 'all';
+
+/** Minimal slice of the sharp API used for downscaling and contact sheets */
+interface SharpImage {
+  resize(
+    width: number,
+    height: number,
+    options: {
+      fit: 'inside' | 'contain';
+      withoutEnlargement?: boolean;
+      background?: string;
+    },
+  ): SharpImage;
+  composite(
+    layers: Array<{ input: Uint8Array; left: number; top: number }>,
+  ): SharpImage;
+  jpeg(options?: { quality?: number }): SharpImage;
+  toBuffer(): Promise<Uint8Array>;
+}
+
+type SharpFactory = (
+  input:
+    | Uint8Array
+    | { create: { width: number; height: number; channels: 3; background: string } },
+) => SharpImage;
+
+let sharpLoader: Promise<SharpFactory | null> | null = null;
+
+/**
+ * Load sharp if it is installed (optional dependency, Node.js only).
+ * The module name is kept out of the literal import so Workers bundles skip it.
+ */
+function loadSharp(): Promise<SharpFactory | null> {
+  if (!sharpLoader) {
+    const moduleName = 'sharp';
+    sharpLoader = import(moduleName)
+      .then((mod) => (mod.default ?? mod) as SharpFactory)
+      .catch(() => {
+        logger.debug('output_content', {
+          message: 'sharp not available - images are returned at original size',
+        });
+        return null;
+      });
+  }
+  return sharpLoader;
+}
+
+/**
+ * Downscale an image so its longest side is at most maxDimension pixels.
+ * Returns the original bytes when no resizer is available or maxDimension is 0.
+ */
+export async function downscaleImage(
+  data: Uint8Array,
+  maxDimension: number,
+): Promise<Uint8Array> {
+  if (maxDimension <= 0) return data;
+
+  const sharp = await loadSharp();
+  if (!sharp) return data;
+
+  try {
+    return await sharp(data)
+      .resize(maxDimension, maxDimension, { fit: 'inside', withoutEnlargement: true })
+      .toBuffer();
+  } catch (error) {
+    logger.warning('output_content', {
+      message: 'Failed to downscale image, using original',
+      error: (error as Error).message,
+    });
+    return data;
+  }
+}
+
+function filenameFor(url: string, index: number): string {
+  const name = new URL(url).pathname.split('/').pop();
+  return name || `output-${index + 1}`;
+}
+
+async function toImageBlock(
+  url: string,
+  maxDimension: number,
+): Promise<ToolContentBlock> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Download failed with status ${response.status}`);
+  }
+
+  const headerType = response.headers.get('content-type')?.split(';')[0].trim();
+  const mimeType = headerType?.startsWith('image/') ? headerType : contentTypeFor(url);
+  if (!mimeType.startsWith('image/')) {
+    throw new Error(`Not an image (${mimeType})`);
+  }
+
+  const original = new Uint8Array(await response.arrayBuffer());
+  // SVG is already resolution independent
+  const data =
+    mimeType === 'image/svg+xml'
+      ? original
+      : await downscaleImage(original, maxDimension);
+
+  return { type: 'image', data: base64EncodeBytes(data), mimeType };
+}
+
+function toResourceLink(url: string, index: number): ToolContentBlock {
+  return {
+    type: 'resource_link',
+    uri: url,
+    name: filenameFor(url, index),
+    mimeType: contentTypeFor(url),
+    description: `Generated output ${index + 1}`,
+  };
+}
+
+/**
+ * Build image and/or resource_link blocks for output URLs.
+ * In image mode, outputs that cannot be fetched (or are not images) fall back
+ * to a resource_link so the result still points at them.
+ */
+export async function buildOutputContent(
+  urls: string[],
+  mode: OutputMode,
+  options: { maxDimension: number },
+): Promise<ToolContentBlock[]> {
+  if (mode === 'markdown') return [];
+
+  const blocks: ToolContentBlock[] = [];
+  const includeImages = mode === 'image' || mode === 'all';
+  const includeLinks = mode === 'resource_link' || mode === 'all';
+
+  for (const [index, url] of urls.entries()) {
+    if (includeImages) {
+      try {
+        blocks.push(await toImageBlock(url, options.maxDimension));
+      } catch (error) {
+        logger.warning('output_content', {
+          message: 'Failed to inline output, returning a link instead',
+          url,
+          error: (error as Error).message,
+        });
+        if (!includeLinks) {
+          blocks.push(toResourceLink(url, index));
+        }
+      }
+    }
+    if (includeLinks) {
+      blocks.push(toResourceLink(url, index));
+    }
+  }
+
+  return blocks;
+}
+
+/** A labelled image for a contact sheet */
+export interface ContactSheetTile {
+  url: string;
+  label: string;
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&'"]/g, (char) => `&#${char.charCodeAt(0)};`);
+
+/**
+ * Composite images into a single labelled grid (JPEG).
+ * Returns null when sharp is not installed or no tile could be loaded.
+ */
+export async function buildContactSheet(
+  tiles: ContactSheetTile[],
+  options: { tileSize?: number; columns?: number } = {},
+): Promise<Uint8Array | null> {
+  const sharp = await loadSharp();
+  if (!sharp || tiles.length === 0) return null;
+
+  const tileSize = options.tileSize ?? 512;
+  const labelHeight = 40;
+  const gap = 8;
+
+  const loaded = await Promise.all(
+    tiles.map(async (tile) => {
+      try {
+        const response = await fetch(tile.url);
+        if (!response.ok) {
+          throw new Error(`Download failed with status ${response.status}`);
+        }
+        const image = await sharp(new Uint8Array(await response.arrayBuffer()))
+          .resize(tileSize, tileSize, { fit: 'contain', background: '#ffffff' })
+          .toBuffer();
+        return { ...tile, image };
+      } catch (error) {
+        logger.warning('output_content', {
+          message: 'Failed to load contact sheet tile',
+          url: tile.url,
+          error: (error as Error).message,
+        });
+        return null;
+      }
+    }),
+  );
+
+  const images = loaded.filter((tile) => tile !== null);
+  if (images.length === 0) return null;
+
+  const columns = Math.min(options.columns ?? 3, images.length);
+  const rows = Math.ceil(images.length / columns);
+  const cellHeight = tileSize + labelHeight;
+
+  const layers = images.flatMap((tile, index) => {
+    const left = gap + (index % columns) * (tileSize + gap);
+    const top = gap + Math.floor(index / columns) * (cellHeight + gap);
+    const label = `<svg width="${tileSize}" height="${labelHeight}" xmlns="http://www.w3.org/2000/svg">
+  <text x="${tileSize / 2}" y="${labelHeight / 2 + 6}" font-family="sans-serif" font-size="18" text-anchor="middle" fill="#111">${escapeXml(tile.label)}</text>
+</svg>`;
+    return [
+      { input: tile.image, left, top },
+      { input: new TextEncoder().encode(label), left, top: top + tileSize },
+    ];
+  });
+
+  try {
+    return await sharp({
+      create: {
+        width: gap + columns * (tileSize + gap),
+        height: gap + rows * (cellHeight + gap),
+        channels: 3,
+        background: '#ffffff',
+      },
+    })
+      .composite(layers)
+      .jpeg({ quality: 85 })
+      .toBuffer();
+  } catch (error) {
+    logger.warning('output_content', {
+      message: 'Failed to build contact sheet',
+      error: (error as Error).message,
+    });
+    return null;
+  }
+}
@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, setSystemTime, test } from 'bun:test';
+import type { PredictionResult } from './api/replicate.service.js';
+import {
+  clearPredictionHistory,
+  getRecordedPrediction,
+  listRecordedPredictions,
+  recordPrediction,
+  restorePredictionHistory,
+  toPredictionRecord,
+  updateRecordedPrediction,
+} from './prediction-history.js';
+
+const prediction = (
+  id: string,
+  fields: Partial<PredictionResult> = {},
+): PredictionResult => ({
+  id,
+  status: 'starting',
+  output: null,
+  error: null,
+  ...fields,
+});
+
+const record = (id: string, startedAt = Date.now()) =>
+  toPredictionRecord(prediction(id), {
+    model: 'acme/painter',
+    source: 'generate_image',
+    input: { prompt: 'a lighthouse' },
+    startedAt,
+  });
+
+afterEach(() => {
+  setSystemTime();
+  clearPredictionHistory('session-a');
+  clearPredictionHistory('session-b');
+});
+
+describe('prediction history', () => {
+  test('lists a session its own predictions, newest first', () => {
+    recordPrediction('session-a', record('one'));
+    recordPrediction('session-a', record('two'));
+    recordPrediction('session-b', record('three'));
+    recordPrediction(undefined, record('four'));
+
+    expect(listRecordedPredictions('session-a').map((r) => r.id)).toEqual([
+      'two',
+      'one',
+    ]);
+    expect(getRecordedPrediction('session-b', 'one')).toBeUndefined();
+    expect(listRecordedPredictions(undefined)).toEqual([]);
+  });
+
+  test('keeps the 200 most recent predictions per session', () => {
+    for (let i = 0; i < 201; i++) {
+      recordPrediction('session-a', record(`p${i}`));
+    }
+
+    const ids = listRecordedPredictions('session-a').map((r) => r.id);
+    expect(ids).toHaveLength(200);
+    expect(ids[0]).toBe('p200');
+    expect(ids).not.toContain('p0');
+  });
+
+  test('updates status, outputs and timings of recorded predictions', () => {
+    setSystemTime(new Date('2026-10-18T12:00:00Z'));
+    recordPrediction('session-a', record('one'));
+
+    setSystemTime(new Date('2026-10-18T12:00:05Z'));
+    const updated = updateRecordedPrediction(
+      'session-a',
+      prediction('one', {
+        status: 'succeeded',
+        output: ['https://replicate.delivery/x/out-0.png'],
+        logs: 'Using seed: 42',
+        metrics: { predict_time: 3.2 },
+      }),
+      ['https://mcp.example.com/files/one/0.png'],
+    );
+
+    expect(updated).toMatchObject({
+      status: 'succeeded',
+      output: ['https://mcp.example.com/files/one/0.png'],
+      seed: 42,
+      created_at: '2026-10-18T12:00:00.000Z',
+      completed_at: '2026-10-18T12:00:05.000Z',
+      predict_time: 3.2,
+      duration_ms: 5000,
+    });
+    expect(
+      updateRecordedPrediction('session-a', prediction('unknown')),
+    ).toBeUndefined();
+  });
+
+  test('restores a saved history in its original order', () => {
+    recordPrediction('session-a', record('one'));
+    recordPrediction('session-a', record('two'));
+    const saved = listRecordedPredictions('session-a');
+
+    clearPredictionHistory('session-a');
+    restorePredictionHistory('session-a', saved);
+    recordPrediction('session-a', record('three'));
+
+    expect(listRecordedPredictions('session-a').map((r) => r.id)).toEqual([
+      'three',
+      'two',
+      'one',
+    ]);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Per-session history of predictions started through this server.
+ * Backs list_predictions and the replicate://predictions/{id} resources.
+ *
+ * History is in memory: it lasts as long as the process (Node) or the
+ * isolate (Workers; with MCP_SESSIONS it is saved with the session's Durable
+ * Object), and each session only sees its own predictions.
+ * Status and output changes notify sessions subscribed to the resource.
+ */
+
+import { subscriptionRegistry } from '../core/subscriptions.js';
+import { extractSeed, type PredictionResult } from './api/replicate.service.js';
+
+export interface PredictionRecord {
+  id: string;
+  model: string;
+  version: string | null;
+  input: Record<string, unknown>;
+  status: PredictionResult['status'];
+  output: string[] | null;
+  error: string | null;
+  seed: number | null;
+  /** Tool that started the prediction */
+  source: string;
+  created_at: string;
+  completed_at: string | null;
+  /** Model run time reported by Replicate, in seconds */
+  predict_time: number | null;
+  /** Wall-clock time from start to finish, in milliseconds */
+  duration_ms: number | null;
+}
+
+const MAX_RECORDS_PER_SESSION = 200;
+const TERMINAL_STATUSES = new Set(['succeeded', 'failed', 'canceled']);
+
+const histories = new Map<string, Map<string, PredictionRecord>>();
+
+export const predictionUri = (id: string) => `replicate://predictions/${id}`;
+
+export const isTerminalStatus = (status: string) => TERMINAL_STATUSES.has(status);
+
+/**
+ * Store a record and notify subscribers if its status or outputs changed.
+ */
+function store(
+  sessionId: string,
+  history: Map<string, PredictionRecord>,
+  record: PredictionRecord,
+): void {
+  const previous = history.get(record.id);
+  history.set(record.id, record);
+
+  const changed =
+    !previous ||
+    previous.status !== record.status ||
+    JSON.stringify(previous.output) !== JSON.stringify(record.output);
+  if (changed) {
+    void subscriptionRegistry.notifyUpdated(sessionId, predictionUri(record.id));
+  }
+}
+
+/**
+ * Build a history record from a prediction.
+ * `output` overrides the prediction's own URLs (e.g. with stored copies).
+ */
+export function toPredictionRecord(
+  prediction: PredictionResult,
+  details: {
+    model: string;
+    source: string;
+    input: Record<string, unknown>;
+    startedAt: number;
+    output?: string[];
+  },
+): PredictionRecord {
+  const finished = isTerminalStatus(prediction.status);
+
+  return {
+    id: prediction.id,
+    model: prediction.model || details.model,
+    version: prediction.version ?? null,
+    input: prediction.input ?? details.input,
+    status: prediction.status,
+    output: details.output ?? prediction.output,
+    error: prediction.error,
+    seed: extractSeed({ ...prediction, input: prediction.input ?? details.input }),
+    source: details.source,
+    created_at: new Date(details.startedAt).toISOString(),
+    completed_at: finished ? new Date().toISOString() : null,
+    predict_time: prediction.metrics?.predict_time ?? null,
+    duration_ms: finished ? Date.now() - details.startedAt : null,
+  };
+}
+
+/**
+ * Add or replace a prediction in a session's history.
+ * Without a session ID nothing is recorded.
+ */
+export function recordPrediction(
+  sessionId: string | undefined,
+  record: PredictionRecord,
+): void {
+  if (!sessionId) return;
+
+  let history = histories.get(sessionId);
+  if (!history) {
+    history = new Map();
+    histories.set(sessionId, history);
+  }
+
+  store(sessionId, history, record);
+
+  // Drop the oldest records beyond the cap
+  while (history.size > MAX_RECORDS_PER_SESSION) {
+    const oldest = history.keys().next().value as string;
+    history.delete(oldest);
+  }
+}
+
+/**
+ * Update a recorded prediction with its latest state (e.g. from get_prediction).
+ * Predictions that are not in the session's history are ignored.
+ */
+export function updateRecordedPrediction(
+  sessionId: string | undefined,
+  prediction: PredictionResult,
+  output?: string[],
+): PredictionRecord | undefined {
+  const history = sessionId ? histories.get(sessionId) : undefined;
+  const existing = history?.get(prediction.id);
+  if (!sessionId || !history || !existing) return undefined;
+
+  const finished = isTerminalStatus(prediction.status);
+  const updated: PredictionRecord = {
+    ...existing,
+    version: prediction.version ?? existing.version,
+    status: prediction.status,
+    output: output ?? prediction.output ?? existing.output,
+    error: prediction.error,
+    seed: existing.seed ?? extractSeed(prediction),
+    completed_at: existing.completed_at ?? (finished ? new Date().toISOString() : null),
+    predict_time: prediction.metrics?.predict_time ?? existing.predict_time,
+    duration_ms:
+      existing.duration_ms ??
+      (finished ? Date.now() - Date.parse(existing.created_at) : null),
+  };
+
+  store(sessionId, history, updated);
+  return updated;
+}
+
+/**
+ * A session's predictions, newest first.
+ */
+export function listRecordedPredictions(
+  sessionId: string | undefined,
+): PredictionRecord[] {
+  const history = sessionId ? histories.get(sessionId) : undefined;
+  return history ? [...history.values()].reverse() : [];
+}
+
+export function getRecordedPrediction(
+  sessionId: string | undefined,
+  id: string,
+): PredictionRecord | undefined {
+  return sessionId ? histories.get(sessionId)?.get(id) : undefined;
+}
+
+/**
+ * Replace a session's history with saved records, newest first as returned by
+ * listRecordedPredictions (Workers: Durable Object storage). Nobody is notified.
+ */
+export function restorePredictionHistory(
+  sessionId: string,
+  records: PredictionRecord[],
+): void {
+  histories.set(
+    sessionId,
+    new Map([...records].reverse().map((record) => [record.id, record])),
+  );
+}
+
+/**
+ * Forget a session's history (called when the session ends).
+ */
+export function clearPredictionHistory(sessionId: string): void {
+  histories.delete(sessionId);
+}
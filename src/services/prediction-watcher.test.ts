@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { subscriptionRegistry } from '../core/subscriptions.js';
+import {
+  clearPredictionHistory,
+  getRecordedPrediction,
+  predictionUri,
+  recordPrediction,
+  toPredictionRecord,
+} from './prediction-history.js';
+import { setPredictionWatching, watchPrediction } from './prediction-watcher.js';
+
+const SESSION = 'session-1';
+const ID = 'abc';
+
+const originalFetch = globalThis.fetch;
+let lookups: number;
+
+/** Wait past one polling interval (2s) */
+const nextPoll = () => new Promise((resolve) => setTimeout(resolve, 2100));
+
+beforeEach(() => {
+  lookups = 0;
+  globalThis.fetch = (async (_url: string) => {
+    lookups++;
+    return Response.json({
+      id: ID,
+      model: 'black-forest-labs/flux-schnell',
+      status: 'succeeded',
+      output: ['https://replicate.delivery/abc/out-0.png'],
+      error: null,
+    });
+  }) as typeof fetch;
+
+  recordPrediction(
+    SESSION,
+    toPredictionRecord(
+      { id: ID, status: 'starting', output: null, error: null },
+      {
+        model: 'black-forest-labs/flux-schnell',
+        source: 'generate_image',
+        input: { prompt: 'a lighthouse' },
+        startedAt: Date.now(),
+      },
+    ),
+  );
+  subscriptionRegistry.subscribe(SESSION, predictionUri(ID));
+  setPredictionWatching(true);
+});
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+  subscriptionRegistry.clear(SESSION);
+  clearPredictionHistory(SESSION);
+});
+
+describe('watchPrediction', () => {
+  test('polls a subscribed prediction until it finishes', async () => {
+    watchPrediction(SESSION, ID, 'r8_test');
+    await nextPoll();
+
+    expect(lookups).toBe(1);
+    expect(getRecordedPrediction(SESSION, ID)?.status).toBe('succeeded');
+  });
+
+  test('does nothing while polling is turned off', async () => {
+    setPredictionWatching(false);
+    watchPrediction(SESSION, ID, 'r8_test');
+    await nextPoll();
+
+    expect(lookups).toBe(0);
+    expect(getRecordedPrediction(SESSION, ID)?.status).toBe('starting');
+  });
+});
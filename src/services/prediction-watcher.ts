@@ -0,0 +1,118 @@
+/**
+ * Poll predictions that a client subscribed to but nothing else is waiting on
+ * (generate_image with wait: false), so status changes reach subscribers
+ * without the client polling get_prediction.
+ *
+ * Polling runs on timers, so it needs a process (Node) or Durable Object
+ * (Workers, MCP_SESSIONS) that outlives the request. A plain Worker may be
+ * evicted once the response is sent, so the Workers runtime turns it off there.
+ */
+
+import { subscriptionRegistry } from '../core/subscriptions.js';
+import { logger } from '../utils/logger.js';
+import { getPrediction } from './api/replicate.service.js';
+import {
+  getRecordedPrediction,
+  isTerminalStatus,
+  predictionUri,
+  updateRecordedPrediction,
+} from './prediction-history.js';
+import { persistOutputs } from './storage/output-storage.js';
+
+const WATCH_INTERVAL_MS = 2000;
+/** Consecutive lookup failures before giving up */
+const MAX_FAILURES = 5;
+
+let enabled = true;
+const watching = new Set<string>();
+// Predictions a tool call is already waiting on (runPrediction): it records every
+// state, so polling them here too would only double the API calls
+const awaited = new Set<string>();
+
+/**
+ * Turn background polling on or off. Predictions already watched keep going.
+ */
+export function setPredictionWatching(on: boolean): void {
+  enabled = on;
+}
+
+/**
+ * Mark a prediction as awaited by a tool call. Watchers skip it until the
+ * returned release function is called.
+ */
+export function markAwaited(id: string): () => void {
+  awaited.add(id);
+  return () => {
+    awaited.delete(id);
+  };
+}
+
+/**
+ * Watch a recorded prediction until it finishes or the session unsubscribes.
+ * Calling it again for a prediction that is already watched is a no-op, as is
+ * calling it while polling is turned off.
+ */
+export function watchPrediction(sessionId: string, id: string, apiToken: string): void {
+  const key = `${sessionId}:${id}`;
+  const record = getRecordedPrediction(sessionId, id);
+  if (!enabled || watching.has(key) || !record || isTerminalStatus(record.status)) {
+    return;
+  }
+
+  watching.add(key);
+  let failures = 0;
+
+  const stop = () => {
+    watching.delete(key);
+    logger.debug('prediction_watcher', { message: 'Stopped watching', id });
+  };
+
+  const poll = async () => {
+    const current = getRecordedPrediction(sessionId, id);
+    if (
+      !subscriptionRegistry.isSubscribed(sessionId, predictionUri(id)) ||
+      !current ||
+      isTerminalStatus(current.status)
+    ) {
+      stop();
+      return;
+    }
+
+    if (awaited.has(id)) {
+      setTimeout(() => void poll(), WATCH_INTERVAL_MS);
+      return;
+    }
+
+    try {
+      const prediction = await getPrediction(id, apiToken);
+      const outputs =
+        prediction.status === 'succeeded'
+          ? await persistOutputs(prediction.id, prediction.output || [])
+          : undefined;
+      updateRecordedPrediction(sessionId, prediction, outputs?.urls);
+      failures = 0;
+
+      if (isTerminalStatus(prediction.status)) {
+        stop();
+        return;
+      }
+    } catch (error) {
+      failures++;
+      logger.warning('prediction_watcher', {
+        message: 'Prediction lookup failed',
+        id,
+        failures,
+        error: (error as Error).message,
+      });
+      if (failures >= MAX_FAILURES) {
+        stop();
+        return;
+      }
+    }
+
+    setTimeout(() => void poll(), WATCH_INTERVAL_MS);
+  };
+
+  logger.debug('prediction_watcher', { message: 'Watching prediction', id });
+  setTimeout(() => void poll(), WATCH_INTERVAL_MS);
+}
@@ -0,0 +1,145 @@
+/**
+ * Rough cost estimates for predictions.
+ *
+ * Replicate's API does not expose prices, so this uses approximate list
+ * prices for popular official models (billed per output) and hardware rates
+ * for everything else (billed by run time). Operators can override per-output
+ * prices with MODEL_PRICES and typical runs with MODEL_RUN_ESTIMATES.
+ * Always present results as estimates.
+ */
+
+/** Approximate USD per output (image or video) for popular official models */
+const PER_IMAGE_PRICES: Record<string, number> = {
+  'black-forest-labs/flux-schnell': 0.003,
+  'black-forest-labs/flux-dev': 0.025,
+  'black-forest-labs/flux-pro': 0.055,
+  'black-forest-labs/flux-1.1-pro': 0.04,
+  'black-forest-labs/flux-1.1-pro-ultra': 0.06,
+  'black-forest-labs/flux-kontext-pro': 0.04,
+  'black-forest-labs/flux-kontext-max': 0.08,
+  'bytedance/seedream-4': 0.03,
+  'google/imagen-4': 0.04,
+  'ideogram-ai/ideogram-v3-turbo': 0.03,
+  'recraft-ai/recraft-v3': 0.04,
+  'minimax/video-01': 0.5,
+  'google/veo-3': 6,
+};
+
+/** Replicate list prices by hardware tier, USD per second */
+const HARDWARE_PRICES: Record<string, number> = {
+  cpu: 0.0001,
+  'gpu-t4': 0.000225,
+  'gpu-l40s': 0.000975,
+  'gpu-a100-large': 0.0014,
+  'gpu-h100': 0.001525,
+};
+
+/** Fallback for models billed by run time (Nvidia A100 80GB list price), USD per second */
+const GPU_PRICE_PER_SECOND = HARDWARE_PRICES['gpu-a100-large'];
+
+/** Hardware and typical run time of a model billed by run time */
+export interface RunEstimate {
+  hardware: string;
+  seconds: number;
+}
+
+/** Typical runs of popular models billed by run time */
+const TYPICAL_RUNS: Record<string, RunEstimate> = {
+  'nightmareai/real-esrgan': { hardware: 'gpu-t4', seconds: 2 },
+  'philz1337x/clarity-upscaler': { hardware: 'gpu-a100-large', seconds: 40 },
+  'stability-ai/sdxl': { hardware: 'gpu-l40s', seconds: 10 },
+};
+
+/** Input keys models use for the number of outputs */
+const OUTPUT_COUNT_KEYS = [
+  'num_outputs',
+  'num_images',
+  'max_images',
+  'number_of_images',
+];
+
+export interface CostEstimate {
+  usd: number;
+  /** "per_image" for known per-output prices, "run_time" for GPU-seconds */
+  basis: 'per_image' | 'run_time';
+}
+
+/**
+ * Per-image price for a model, if known ("owner/name", version suffix ignored).
+ */
+export function perImagePrice(
+  model: string,
+  overrides: Record<string, number> = {},
+): number | undefined {
+  const modelId = model.split(':')[0];
+  return overrides[modelId] ?? PER_IMAGE_PRICES[modelId];
+}
+
+/**
+ * Estimate what a finished prediction cost.
+ * Returns null when there is nothing to base an estimate on.
+ */
+export function estimateCost(
+  model: string,
+  run: { outputCount: number; predictTime: number | null },
+  overrides: Record<string, number> = {},
+): CostEstimate | null {
+  const price = perImagePrice(model, overrides);
+  if (price !== undefined) {
+    return { usd: price * Math.max(1, run.outputCount), basis: 'per_image' };
+  }
+  if (run.predictTime !== null) {
+    return { usd: run.predictTime * GPU_PRICE_PER_SECOND, basis: 'run_time' };
+  }
+  return null;
+}
+
+/**
+ * Number of outputs a prediction is expected to produce, from its input.
+ */
+export function expectedOutputCount(input: Record<string, unknown>): number {
+  for (const key of OUTPUT_COUNT_KEYS) {
+    const count = Number(input[key]);
+    if (Number.isInteger(count) && count > 0) return count;
+  }
+  return 1;
+}
+
+/**
+ * Estimate what a prediction will cost before it runs: the per-output price
+ * times the expected outputs, or the hardware rate times the typical run time.
+ * Returns null for models without a known price or typical run, and for bare
+ * version IDs (the model they belong to isn't known).
+ */
+export function estimatePredictionCost(
+  model: string,
+  input: Record<string, unknown>,
+  overrides: {
+    prices?: Record<string, number>;
+    runs?: Record<string, RunEstimate>;
+  } = {},
+): CostEstimate | null {
+  const modelId = model.split(':')[0];
+  if (!modelId.includes('/')) return null;
+
+  const price = perImagePrice(modelId, overrides.prices);
+  if (price !== undefined) {
+    return { usd: price * expectedOutputCount(input), basis: 'per_image' };
+  }
+
+  const run = overrides.runs?.[modelId] ?? TYPICAL_RUNS[modelId];
+  if (run) {
+    const rate = HARDWARE_PRICES[run.hardware] ?? GPU_PRICE_PER_SECOND;
+    return { usd: rate * run.seconds, basis: 'run_time' };
+  }
+  return null;
+}
+
+/**
+ * Format an estimate for display, e.g. "~$0.025" or "~$0.0042 (run time)".
+ */
+export function formatCost(estimate: CostEstimate | null): string {
+  if (!estimate) return 'unknown';
+  const usd = estimate.usd >= 0.01 ? estimate.usd.toFixed(3) : estimate.usd.toFixed(4);
+  return `~$${usd}${estimate.basis === 'run_time' ? ' (run time)' : ''}`;
+}
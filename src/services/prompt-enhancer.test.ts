@@ -0,0 +1,92 @@
+import { describe, expect, test } from 'bun:test';
+import type { ClientChannel } from '../types/context.js';
+import type { ModelInputSchema } from './api/replicate.service.js';
+import { applyPromptEnhancement, promptFamily } from './prompt-enhancer.js';
+
+/** Client whose LLM answers every sampling request with `reply` */
+function samplingClient(
+  reply: string | Error,
+  systemPrompts: string[] = [],
+): ClientChannel {
+  return {
+    notification: async () => {},
+    getClientCapabilities: () => ({ sampling: {} }),
+    request: async <T>(request: { params?: Record<string, unknown> }) => {
+      systemPrompts.push(String(request.params?.systemPrompt));
+      if (reply instanceof Error) throw reply;
+      return {
+        role: 'assistant',
+        content: { type: 'text', text: reply },
+        model: 'client-llm',
+      } as T;
+    },
+  };
+}
+
+const withEnhanceOption: ModelInputSchema = {
+  required: ['prompt'],
+  properties: { prompt: { type: 'string' }, enhance_prompt: { type: 'boolean' } },
+};
+
+describe('promptFamily', () => {
+  test('recognizes model families from the identifier', () => {
+    expect(promptFamily('black-forest-labs/flux-schnell')).toBe('flux');
+    expect(promptFamily('stability-ai/sdxl')).toBe('sdxl');
+    expect(promptFamily('bytedance/seedream-4')).toBe('seedream');
+    expect(promptFamily('acme/painter')).toBe('generic');
+  });
+});
+
+describe('applyPromptEnhancement', () => {
+  test('rewrites the prompt through sampling with family guidance', async () => {
+    const systemPrompts: string[] = [];
+    const result = await applyPromptEnhancement(
+      samplingClient('"A red lighthouse on a cliff at dusk."', systemPrompts),
+      'black-forest-labs/flux-schnell',
+      { prompt: 'lighthouse', num_outputs: 1 },
+      undefined,
+    );
+
+    expect(result.input).toEqual({
+      prompt: 'A red lighthouse on a cliff at dusk.',
+      num_outputs: 1,
+    });
+    expect(result.enhancement).toEqual({
+      original: 'lighthouse',
+      enhanced: 'A red lighthouse on a cliff at dusk.',
+      method: 'sampling',
+      family: 'flux',
+    });
+    expect(systemPrompts[0]).toContain('The target is a FLUX model.');
+  });
+
+  test("falls back to the model's enhance_prompt option when sampling fails", async () => {
+    const result = await applyPromptEnhancement(
+      samplingClient(new Error('user rejected')),
+      'acme/painter',
+      { prompt: 'lighthouse' },
+      withEnhanceOption,
+    );
+
+    expect(result.input).toEqual({ prompt: 'lighthouse', enhance_prompt: true });
+    expect(result.enhancement).toMatchObject({ method: 'model', enhanced: null });
+    expect(result.enhancement.note).toContain('user rejected');
+  });
+
+  test('keeps the original prompt when neither is available', async () => {
+    const result = await applyPromptEnhancement(
+      undefined,
+      'acme/painter',
+      {
+        prompt: 'lighthouse',
+      },
+      undefined,
+    );
+
+    expect(result.input).toEqual({ prompt: 'lighthouse' });
+    expect(result.enhancement.method).toBe('none');
+    expect(result.enhancement.note).toBe(
+      'The client does not support sampling, and acme/painter has no enhance_prompt option - the original prompt was used',
+    );
+  });
+});
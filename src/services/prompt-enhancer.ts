@@ -0,0 +1,158 @@
+/**
+ * Opt-in prompt enhancement (enhance_prompt tool, generate_image enhance_prompt).
+ *
+ * The client's LLM rewrites a terse prompt through MCP sampling, with guidance
+ * for the target model family. Without sampling support, models that take an
+ * `enhance_prompt` input do the rewriting themselves.
+ */
+
+import type { ClientChannel } from '../types/context.js';
+import { logger } from '../utils/logger.js';
+import { clientSupportsSampling, requestSampling } from '../utils/sampling.js';
+import type { ModelInputSchema } from './api/replicate.service.js';
+
+export type PromptFamily = 'flux' | 'sdxl' | 'seedream' | 'generic';
+
+export interface PromptEnhancement {
+  original: string;
+  /** Rewritten prompt; null when the model enhances it itself */
+  enhanced: string | null;
+  /** "sampling" (client LLM), "model" (the model's enhance_prompt input) or "none" */
+  method: 'sampling' | 'model' | 'none';
+  family: PromptFamily;
+  /** Why enhancement fell back or was skipped */
+  note?: string;
+}
+
+const MAX_ENHANCED_TOKENS = 400;
+
+const FAMILY_GUIDANCE: Record<PromptFamily, string> = {
+  flux: `The target is a FLUX model. Write 2-4 natural-language sentences (40-80 words):
+subject first, then setting, composition, lighting, color palette and camera or medium.
+No comma-separated tag lists, no weights like (word:1.2), no negative prompts.
+Put any text that must appear in the image in double quotes.`,
+  sdxl: `The target is Stable Diffusion XL. Write one line of comma-separated descriptive
+phrases (under 60 words - the text encoder truncates long prompts): subject, style,
+medium, lighting, composition, then quality terms like "highly detailed, sharp focus".
+No full sentences.`,
+  seedream: `The target is Seedream. Write 1-3 clear descriptive sentences: subject and
+action, style, composition and lighting. If the prompt edits reference images, say
+what to keep and what to change. Put any text that must appear in the image in double quotes.`,
+  generic: `Write 1-3 vivid descriptive sentences (under 80 words) covering subject,
+setting, style, composition and lighting.`,
+};
+
+/**
+ * Prompt family of a model, from its identifier.
+ */
+export function promptFamily(model: string): PromptFamily {
+  const id = model.toLowerCase();
+  if (id.includes('flux')) return 'flux';
+  if (id.includes('sdxl') || id.includes('stable-diffusion')) return 'sdxl';
+  if (id.includes('seedream')) return 'seedream';
+  return 'generic';
+}
+
+/**
+ * Whether the model rewrites prompts itself (boolean `enhance_prompt` input).
+ */
+export function modelHasEnhanceOption(schema: ModelInputSchema | undefined): boolean {
+  return schema?.properties.enhance_prompt?.type === 'boolean';
+}
+
+/**
+ * Have the client's LLM expand a prompt for the model.
+ * Throws when the client can't sample or the request fails.
+ */
+export async function enhancePrompt(
+  client: ClientChannel,
+  prompt: string,
+  model: string,
+): Promise<{ prompt: string; sampledBy: string }> {
+  const family = promptFamily(model);
+
+  const response = await requestSampling(client, {
+    messages: [
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text: `Rewrite this image prompt for ${model}:\n\n${prompt}`,
+        },
+      },
+    ],
+    maxTokens: MAX_ENHANCED_TOKENS,
+    systemPrompt: `You expand short image prompts into detailed prompts for text-to-image models.
+Keep the user's subject and intent exactly; add only visual detail that fits it.
+${FAMILY_GUIDANCE[family]}
+Reply with the prompt only - no preamble, quotes or explanation.`,
+    modelPreferences: { speedPriority: 0.7, intelligencePriority: 0.5 },
+    temperature: 0.7,
+  });
+
+  if (response.content.type !== 'text') {
+    throw new Error(`Expected a text response but got ${response.content.type}`);
+  }
+
+  const enhanced = response.content.text
+    .trim()
+    .replace(/^["'](.*)["']$/s, '$1')
+    .trim();
+  if (!enhanced) {
+    throw new Error('The client returned an empty prompt');
+  }
+  return { prompt: enhanced, sampledBy: response.model };
+}
+
+/**
+ * Enhance `input.prompt` for generate_image: via sampling when the client
+ * supports it, otherwise (or if sampling fails) by setting the model's own
+ * `enhance_prompt` input. Returns the input to run with.
+ */
+export async function applyPromptEnhancement(
+  client: ClientChannel | undefined,
+  model: string,
+  input: Record<string, unknown>,
+  schema: ModelInputSchema | undefined,
+): Promise<{ input: Record<string, unknown>; enhancement: PromptEnhancement }> {
+  const original = String(input.prompt);
+  const family = promptFamily(model);
+  let note: string | undefined;
+
+  if (client && clientSupportsSampling(client)) {
+    try {
+      const { prompt: enhanced } = await enhancePrompt(client, original, model);
+      return {
+        input: { ...input, prompt: enhanced },
+        enhancement: { original, enhanced, method: 'sampling', family },
+      };
+    } catch (error) {
+      logger.warning('prompt_enhancer', {
+        message: 'Sampling failed, falling back',
+        model,
+        error: (error as Error).message,
+      });
+      note = `Sampling failed: ${(error as Error).message}`;
+    }
+  } else {
+    note = 'The client does not support sampling';
+  }
+
+  if (modelHasEnhanceOption(schema)) {
+    return {
+      input: { ...input, enhance_prompt: true },
+      enhancement: { original, enhanced: null, method: 'model', family, note },
+    };
+  }
+
+  return {
+    input,
+    enhancement: {
+      original,
+      enhanced: null,
+      method: 'none',
+      family,
+      note: `${note}, and ${model} has no enhance_prompt option - the original prompt was used`,
+    },
+  };
+}
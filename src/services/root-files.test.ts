@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'bun:test';
+import type { ClientChannel } from '../types/context.js';
+import { resolveSaveTarget } from './root-files.js';
+
+/** Client advertising the given roots */
+function clientWithRoots(uris: string[]): ClientChannel {
+  return {
+    notification: async () => {},
+    getClientCapabilities: () => ({ roots: {} }),
+    request: async <T>() => ({ roots: uris.map((uri) => ({ uri })) }) as T,
+  };
+}
+
+const dirFor = async (roots: string[], saveTo: string) =>
+  (await resolveSaveTarget(clientWithRoots(roots), saveTo)).dir;
+
+describe('resolveSaveTarget', () => {
+  test('resolves relative paths against the first root', async () => {
+    expect(
+      await dirFor(['file:///home/me/project', 'file:///tmp'], 'images/cats'),
+    ).toBe('/home/me/project/images/cats');
+    expect(await dirFor(['file:///home/me/project'], './a/../b/')).toBe(
+      '/home/me/project/b',
+    );
+  });
+
+  test('accepts absolute paths and file:// URIs inside any root', async () => {
+    expect(await dirFor(['file:///home/me/project', 'file:///tmp'], '/tmp/out')).toBe(
+      '/tmp/out',
+    );
+    expect(
+      await dirFor(['file:///home/me/project'], 'file:///home/me/project/my%20images'),
+    ).toBe('/home/me/project/my images');
+  });
+
+  test('refuses paths outside the roots', async () => {
+    const roots = ['file:///home/me/project'];
+
+    await expect(dirFor(roots, '../secrets')).rejects.toThrow(
+      "outside the client's roots",
+    );
+    await expect(dirFor(roots, '/home/me/project-other')).rejects.toThrow(
+      "outside the client's roots",
+    );
+    await expect(dirFor(roots, 'file:///etc')).rejects.toThrow(
+      "outside the client's roots",
+    );
+    await expect(dirFor(['file:///'], '/../..')).rejects.toThrow(
+      "outside the client's roots",
+    );
+  });
+
+  test('keeps Windows drives', async () => {
+    const roots = ['file:///c:/Users/me'];
+
+    expect(await dirFor(roots, 'images\\cats')).toBe('C:/Users/me/images/cats');
+    expect(await dirFor(roots, 'C:\\Users\\me\\out')).toBe('C:/Users/me/out');
+    await expect(dirFor(roots, 'D:/Users/me')).rejects.toThrow(
+      "outside the client's roots",
+    );
+  });
+
+  test('requires roots support', async () => {
+    const client = { ...clientWithRoots([]), getClientCapabilities: () => ({}) };
+
+    await expect(resolveSaveTarget(client, 'images')).rejects.toThrow(
+      'roots capability',
+    );
+    await expect(
+      resolveSaveTarget(clientWithRoots(['https://example.com']), 'images'),
+    ).rejects.toThrow('did not advertise any filesystem roots');
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Save prediction outputs into the client's filesystem roots
+ * (generate_image save_to, save_image).
+ *
+ * Paths are resolved against the roots the client advertises and refused if
+ * they end up outside them. When the server runs on the client's machine and
+ * LOCAL_FILE_WRITES is on (Node bound to a loopback address) it writes the
+ * files itself; otherwise it returns file:// resource links for the client to
+ * fill from the source URLs.
+ *
+ * Paths use forward slashes; Windows roots keep their drive ("C:/Users/me").
+ */
+
+import type { ToolContentBlock } from '../shared/tools/types.js';
+import type { ClientChannel } from '../types/context.js';
+import { logger } from '../utils/logger.js';
+import { clientSupportsRoots, type Root, requestRoots } from '../utils/roots.js';
+import { contentTypeFor } from './storage/output-storage.js';
+
+/** Writes files on the machine the server runs on */
+export interface LocalFileWriter {
+  /**
+   * Write a file (file:// URI), creating parent directories. Must refuse
+   * files that resolve outside `rootUri` once symlinks are followed.
+   */
+  write(uri: string, data: Uint8Array, rootUri: string): Promise<void>;
+}
+
+/** Directory inside a client root */
+export interface SaveTarget {
+  root: Root;
+  /** Absolute directory path */
+  dir: string;
+}
+
+export interface SavedFile {
+  uri: string;
+  path: string;
+  name: string;
+  mimeType: string;
+  /** URL the file's content comes from */
+  source: string;
+  /** True if the server wrote the file; otherwise the client has to */
+  written: boolean;
+  error?: string;
+}
+
+const MAX_SLUG_LENGTH = 48;
+
+// Set once per runtime at startup (Node, when the server runs locally)
+let localWriter: LocalFileWriter | null = null;
+
+export function setLocalFileWriter(writer: LocalFileWriter | null): void {
+  localWriter = writer;
+}
+
+export function getLocalFileWriter(): LocalFileWriter | null {
+  return localWriter;
+}
+
+const DRIVE_PATTERN = /^[a-z]:(?=\/|$)/i;
+
+/**
+ * Path of a file:// URI. Windows drives lose the URL's leading slash
+ * ("file:///C:/x" → "C:/x"), as with Node's fileURLToPath.
+ */
+function fileUriToPath(uri: string): string {
+  const path = decodeURIComponent(new URL(uri).pathname);
+  return DRIVE_PATTERN.test(path.slice(1)) ? path.slice(1) : path;
+}
+
+function pathToFileUri(path: string): string {
+  const encoded = path
+    .split('/')
+    .map((segment, index) =>
+      index === 0 && DRIVE_PATTERN.test(segment)
+        ? segment
+        : encodeURIComponent(segment),
+    )
+    .join('/');
+  return `file://${path.startsWith('/') ? '' : '/'}${encoded}`;
+}
+
+const isAbsolutePath = (path: string) =>
+  path.startsWith('/') || DRIVE_PATTERN.test(path);
+
+/**
+ * Normalize an absolute path ("." and ".." resolved, no trailing slash,
+ * drive letter upper-cased). Returns null if ".." climbs above the root.
+ */
+function normalizePath(path: string): string | null {
+  const drive = path.match(DRIVE_PATTERN)?.[0].toUpperCase() ?? '';
+  const segments: string[] = [];
+  for (const segment of path.slice(drive.length).split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      if (segments.length === 0) return null;
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return `${drive}/${segments.join('/')}`;
+}
+
+function isInside(path: string, rootPath: string): boolean {
+  return (
+    path === rootPath ||
+    path.startsWith(rootPath.endsWith('/') ? rootPath : `${rootPath}/`)
+  );
+}
+
+/**
+ * Resolve `save_to` to a directory inside one of the client's roots.
+ * Relative paths are resolved against the first root; absolute paths and
+ * file:// URIs must lie inside any root. Throws with a user-facing message.
+ */
+export async function resolveSaveTarget(
+  client: ClientChannel | undefined,
+  saveTo: string,
+): Promise<SaveTarget> {
+  if (!client || !clientSupportsRoots(client)) {
+    throw new Error(
+      'The client does not expose filesystem roots (MCP roots capability), so there is nowhere to save to',
+    );
+  }
+
+  const roots = (await requestRoots(client))
+    .filter((root) => root.uri.startsWith('file://'))
+    .map((root) => ({ root, path: normalizePath(fileUriToPath(root.uri)) ?? '/' }));
+  if (roots.length === 0) {
+    throw new Error('The client did not advertise any filesystem roots');
+  }
+
+  // Windows clients may send backslashes
+  const requested = DRIVE_PATTERN.test(roots[0].path)
+    ? saveTo.replaceAll('\\', '/')
+    : saveTo;
+  const absolute = requested.startsWith('file://')
+    ? fileUriToPath(requested)
+    : isAbsolutePath(requested)
+      ? requested
+      : `${roots[0].path}/${requested}`;
+  const dir = normalizePath(absolute);
+  const match = dir ? roots.find((entry) => isInside(dir, entry.path)) : undefined;
+
+  if (!dir || !match) {
+    throw new Error(
+      `"${saveTo}" is outside the client's roots (${roots.map((entry) => entry.path).join(', ')})`,
+    );
+  }
+
+  return { root: match.root, dir };
+}
+
+/**
+ * File name from the prompt and prediction ID, e.g. "a-cat-on-the-moon-abc123.webp".
+ * Numbered when a prediction has several outputs.
+ */
+export function outputFilename(
+  prompt: string | undefined,
+  predictionId: string,
+  source: string,
+  index: number,
+  count: number,
+): string {
+  const slug = (prompt ?? '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/^-+|-+$/g, '');
+  const extension =
+    new URL(source).pathname.match(/\.([a-z0-9]+)$/i)?.[1]?.toLowerCase() ?? 'bin';
+  const base = slug ? `${slug}-${predictionId}` : predictionId;
+  return `${base}${count > 1 ? `-${index + 1}` : ''}.${extension}`;
+}
+
+/**
+ * Save a prediction's outputs into the target directory. Files are written by
+ * the server when it runs locally with LOCAL_FILE_WRITES; failed or remote
+ * writes are left to the client.
+ */
+export async function saveOutputs(
+  target: SaveTarget,
+  outputs: { urls: string[]; prompt?: string; predictionId: string },
+): Promise<SavedFile[]> {
+  const writer = localWriter;
+
+  return Promise.all(
+    outputs.urls.map(async (source, index): Promise<SavedFile> => {
+      const name = outputFilename(
+        outputs.prompt,
+        outputs.predictionId,
+        source,
+        index,
+        outputs.urls.length,
+      );
+      const path = `${target.dir.replace(/\/$/, '')}/${name}`;
+      const file = {
+        uri: pathToFileUri(path),
+        path,
+        name,
+        mimeType: contentTypeFor(name),
+        source,
+        written: false,
+      };
+      if (!writer) return file;
+
+      try {
+        const response = await fetch(source);
+        if (!response.ok) {
+          throw new Error(`Download failed with status ${response.status}`);
+        }
+        await writer.write(
+          file.uri,
+          new Uint8Array(await response.arrayBuffer()),
+          target.root.uri,
+        );
+        return { ...file, written: true };
+      } catch (error) {
+        logger.warning('root_files', {
+          message: 'Failed to write output, leaving it to the client',
+          path,
+          error: (error as Error).message,
+        });
+        return { ...file, error: (error as Error).message };
+      }
+    }),
+  );
+}
+
+/**
+ * Markdown lines and resource_link blocks describing saved files.
+ */
+export function describeSavedFiles(files: SavedFile[]): {
+  text: string;
+  links: ToolContentBlock[];
+} {
+  const pending = files.filter((file) => !file.written);
+  const lines = [
+    ...files.filter((file) => file.written).map((file) => `- Saved ${file.path}`),
+    ...pending.map(
+      (file) =>
+        `- ${file.path} ← ${file.source}${file.error ? ` (server write failed: ${file.error})` : ''}`,
+    ),
+  ];
+  const instruction =
+    pending.length > 0
+      ? "\n\nThis server can't write to your machine: save each source URL to the path shown (the resource links point at the target files)."
+      : '';
+
+  return {
+    text: `Files:\n${lines.join('\n')}${instruction}`,
+    links: files.map((file) => ({
+      type: 'resource_link',
+      uri: file.uri,
+      name: file.name,
+      mimeType: file.mimeType,
+      description: file.written
+        ? `Saved image (${file.path})`
+        : `Target file - download ${file.source}`,
+    })),
+  };
+}
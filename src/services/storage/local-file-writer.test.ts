@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdir, mkdtemp, readFile, rm, symlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { createLocalFileWriter, isLoopbackHost } from './local-file-writer.js';
+
+describe('isLoopbackHost', () => {
+  test('accepts only loopback addresses', () => {
+    expect(isLoopbackHost('127.0.0.1')).toBe(true);
+    expect(isLoopbackHost('LOCALHOST')).toBe(true);
+    expect(isLoopbackHost('::1')).toBe(true);
+    expect(isLoopbackHost('0.0.0.0')).toBe(false);
+  });
+});
+
+describe('createLocalFileWriter', () => {
+  const writer = createLocalFileWriter();
+  const data = new Uint8Array([1, 2, 3]);
+  let base: string;
+  let root: string;
+  let outside: string;
+
+  const fileUri = (path: string) => pathToFileURL(path).href;
+
+  beforeEach(async () => {
+    base = await mkdtemp(join(tmpdir(), 'replicate-mcp-roots-'));
+    root = join(base, 'root');
+    outside = join(base, 'outside');
+    await mkdir(root);
+    await mkdir(outside);
+  });
+
+  afterEach(async () => {
+    await rm(base, { recursive: true, force: true });
+  });
+
+  test('creates directories and writes inside the root', async () => {
+    await writer.write(fileUri(join(root, 'images', 'cat.png')), data, fileUri(root));
+
+    expect(new Uint8Array(await readFile(join(root, 'images', 'cat.png')))).toEqual(
+      data,
+    );
+  });
+
+  test('refuses directories that link out of the root', async () => {
+    await symlink(outside, join(root, 'escape'));
+
+    await expect(
+      writer.write(
+        fileUri(join(root, 'escape', 'new', 'cat.png')),
+        data,
+        fileUri(root),
+      ),
+    ).rejects.toThrow('resolves outside the root');
+    await expect(
+      writer.write(fileUri(join(root, 'escape', 'cat.png')), data, fileUri(root)),
+    ).rejects.toThrow('resolves outside the root');
+  });
+
+  test('does not write through a symlinked file', async () => {
+    await writeFile(join(outside, 'target.png'), 'original');
+    await symlink(join(outside, 'target.png'), join(root, 'cat.png'));
+
+    await expect(
+      writer.write(fileUri(join(root, 'cat.png')), data, fileUri(root)),
+    ).rejects.toThrow();
+    expect(await readFile(join(outside, 'target.png'), 'utf8')).toBe('original');
+  });
+});
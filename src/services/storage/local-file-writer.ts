@@ -0,0 +1,75 @@
+/**
+ * Local file writer for saving outputs into client roots (Node.js only).
+ * Only installed when the server runs on the client's machine and
+ * LOCAL_FILE_WRITES is on.
+ */
+
+import { constants } from 'node:fs';
+import { mkdir, realpath, stat, writeFile } from 'node:fs/promises';
+import { dirname, isAbsolute, relative, sep } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { LocalFileWriter } from '../root-files.js';
+
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', 'localhost', '::1']);
+
+/** Replace an existing file, but never through a symlink (0 where unsupported) */
+const WRITE_FLAGS =
+  constants.O_WRONLY |
+  constants.O_CREAT |
+  constants.O_TRUNC |
+  (constants.O_NOFOLLOW ?? 0);
+
+/**
+ * Whether a listen address is only reachable from this machine.
+ */
+export function isLoopbackHost(host: string): boolean {
+  return LOOPBACK_HOSTS.has(host.toLowerCase());
+}
+
+function isWithin(path: string, root: string): boolean {
+  const rel = relative(root, path);
+  return rel === '' || (rel.split(sep)[0] !== '..' && !isAbsolute(rel));
+}
+
+/**
+ * Closest ancestor of `path` (or the path itself) that exists.
+ */
+async function existingAncestor(path: string): Promise<string> {
+  let current = path;
+  while (true) {
+    try {
+      await stat(current);
+      return current;
+    } catch {
+      const parent = dirname(current);
+      if (parent === current) return current;
+      current = parent;
+    }
+  }
+}
+
+/**
+ * Throw unless `dir` resolves inside `root` with symlinks followed.
+ */
+async function assertInsideRoot(dir: string, root: string): Promise<void> {
+  if (!isWithin(await realpath(dir), root)) {
+    throw new Error(`${dir} resolves outside the root ${root}`);
+  }
+}
+
+export function createLocalFileWriter(): LocalFileWriter {
+  return {
+    async write(uri, data, rootUri) {
+      const path = fileURLToPath(uri);
+      const dir = dirname(path);
+      const root = await realpath(fileURLToPath(rootUri));
+
+      // Check before creating directories (a symlink could lead out of the
+      // root) and again once they exist
+      await assertInsideRoot(await existingAncestor(dir), root);
+      await mkdir(dir, { recursive: true });
+      await assertInsideRoot(dir, root);
+      await writeFile(path, data, { flag: WRITE_FLAGS });
+    },
+  };
+}
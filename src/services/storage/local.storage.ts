@@ -0,0 +1,101 @@
+/**
+ * Local filesystem output storage (Node.js only).
+ * Files live under `{dir}/{predictionId}/{filename}`; retention uses file mtime.
+ */
+
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import {
+  contentTypeFor,
+  isValidStorageKey,
+  type OutputStorage,
+  type StoredFile,
+} from './output-storage.js';
+
+export interface LocalStorageOptions {
+  /** Directory to store files in */
+  dir: string;
+  /** Public base URL of this server (e.g. "http://127.0.0.1:3000") */
+  baseUrl: string;
+  /** Retention period in hours (0 = keep forever) */
+  retentionHours: number;
+}
+
+export function createLocalStorage(options: LocalStorageOptions): OutputStorage {
+  const root = resolve(options.dir);
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const maxAgeMs = options.retentionHours * 60 * 60 * 1000;
+
+  function pathFor(key: string): string {
+    if (!isValidStorageKey(key)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return join(root, key);
+  }
+
+  function isExpired(mtimeMs: number): boolean {
+    return maxAgeMs > 0 && Date.now() - mtimeMs > maxAgeMs;
+  }
+
+  return {
+    retentionHours: options.retentionHours,
+
+    async put(key: string, data: Uint8Array): Promise<void> {
+      const path = pathFor(key);
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, data);
+    },
+
+    async get(key: string): Promise<StoredFile | null> {
+      if (!isValidStorageKey(key)) return null;
+      const path = pathFor(key);
+
+      try {
+        const info = await stat(path);
+        if (isExpired(info.mtimeMs)) {
+          await rm(path, { force: true });
+          return null;
+        }
+        const body = new Uint8Array(await readFile(path));
+        return { body, contentType: contentTypeFor(key), size: info.size };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async cleanup(): Promise<number> {
+      if (maxAgeMs <= 0) return 0;
+
+      let removed = 0;
+      const predictionDirs = await readdir(root, { withFileTypes: true }).catch(
+        () => [],
+      );
+
+      for (const entry of predictionDirs) {
+        if (!entry.isDirectory()) continue;
+        const dir = join(root, entry.name);
+        const files = await readdir(dir);
+
+        for (const file of files) {
+          const path = join(dir, file);
+          const info = await stat(path);
+          if (isExpired(info.mtimeMs)) {
+            await rm(path, { force: true });
+            removed++;
+          }
+        }
+
+        if ((await readdir(dir)).length === 0) {
+          await rm(dir, { recursive: true, force: true });
+        }
+      }
+
+      return removed;
+    },
+
+    urlFor(key: string): string {
+      return `${baseUrl}/files/${key}`;
+    },
+  };
+}
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, setSystemTime, test } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { serveStoredFile } from '../../shared/http/files.js';
+import { createLocalStorage } from './local.storage.js';
+import {
+  describeRetention,
+  formatExpiryNote,
+  isValidStorageKey,
+  type OutputStorage,
+  persistOutputs,
+  setOutputStorage,
+} from './output-storage.js';
+
+describe('isValidStorageKey', () => {
+  test('accepts prediction files and rejects paths that escape', () => {
+    expect(isValidStorageKey('abc123/0.webp')).toBe(true);
+    expect(isValidStorageKey('../etc/passwd')).toBe(false);
+    expect(isValidStorageKey('abc/../../x.png')).toBe(false);
+    expect(isValidStorageKey('abc/0.png/extra')).toBe(false);
+  });
+});
+
+describe('describeRetention', () => {
+  test('uses days for whole days and hours otherwise', () => {
+    expect(describeRetention(0)).toBe('indefinitely');
+    expect(describeRetention(24)).toBe('for 1 day');
+    expect(describeRetention(72)).toBe('for 3 days');
+    expect(describeRetention(1)).toBe('for 1 hour');
+  });
+});
+
+describe('local output storage', () => {
+  const originalFetch = globalThis.fetch;
+  let dir: string;
+  let storage: OutputStorage;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'replicate-mcp-outputs-'));
+    storage = createLocalStorage({
+      dir,
+      baseUrl: 'http://127.0.0.1:3000/',
+      retentionHours: 24,
+    });
+    setOutputStorage(storage);
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    setOutputStorage(null);
+    setSystemTime();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('stores outputs and serves them under stable URLs', async () => {
+    globalThis.fetch = (async (_url: string) =>
+      new Response(new Uint8Array([1, 2, 3]), {
+        headers: { 'content-type': 'image/webp' },
+      })) as typeof fetch;
+
+    const outputs = await persistOutputs('abc', ['https://replicate.delivery/x/out-0']);
+
+    expect(outputs).toEqual({
+      urls: ['http://127.0.0.1:3000/files/abc/0.webp'],
+      stored: true,
+    });
+    expect(formatExpiryNote(outputs)).toBe(
+      'Note: Images are stored on this server for 1 day.',
+    );
+
+    const response = await serveStoredFile(storage, 'abc/0.webp');
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('image/webp');
+    expect(new Uint8Array(await response.arrayBuffer())).toEqual(
+      new Uint8Array([1, 2, 3]),
+    );
+    expect((await serveStoredFile(storage, 'abc/1.webp')).status).toBe(404);
+  });
+
+  test('keeps the original URL when a download fails', async () => {
+    globalThis.fetch = (async (url: string) =>
+      String(url).endsWith('out-1.png')
+        ? new Response('Gone', { status: 410 })
+        : new Response(new Uint8Array([1]))) as typeof fetch;
+
+    const outputs = await persistOutputs('abc', [
+      'https://replicate.delivery/x/out-0.png',
+      'https://replicate.delivery/x/out-1.png',
+    ]);
+
+    expect(outputs).toEqual({
+      urls: [
+        'http://127.0.0.1:3000/files/abc/0.png',
+        'https://replicate.delivery/x/out-1.png',
+      ],
+      stored: false,
+    });
+    expect(formatExpiryNote(outputs)).toBe('Note: URLs expire in 1 hour.');
+  });
+
+  test('drops files past the retention period', async () => {
+    await storage.put('abc/0.png', new Uint8Array([1]), 'image/png');
+    expect(await storage.cleanup()).toBe(0);
+
+    setSystemTime(new Date(Date.now() + 25 * 60 * 60 * 1000));
+
+    expect(await storage.get('abc/0.png')).toBeNull();
+    await storage.put('def/0.png', new Uint8Array([1]), 'image/png');
+    setSystemTime(new Date(Date.now() + 25 * 60 * 60 * 1000));
+    expect(await storage.cleanup()).toBe(1);
+  });
+});
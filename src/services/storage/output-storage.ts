@@ -0,0 +1,225 @@
+/**
+ * Output storage for generated files.
+ *
+ * Replicate delivery URLs expire after one hour. When a storage backend is
+ * configured, prediction outputs are downloaded and re-served by this server
+ * under a stable URL (GET /files/{predictionId}/{filename}).
+ *
+ * Backends:
+ * - Local filesystem (Node.js) - see local.storage.ts
+ * - R2 bucket (Cloudflare Workers) - see r2.storage.ts
+ */
+
+import { logger } from '../../utils/logger.js';
+
+/** A file read back from storage */
+export interface StoredFile {
+  body: ReadableStream | Uint8Array;
+  contentType: string;
+  size?: number;
+}
+
+/** Pluggable storage backend for prediction outputs */
+export interface OutputStorage {
+  /** Store a file under a key (e.g. "abc123/0.webp") */
+  put(key: string, data: Uint8Array, contentType: string): Promise<void>;
+  /** Read a file back, or null if missing or expired */
+  get(key: string): Promise<StoredFile | null>;
+  /** Delete files older than the retention period. Returns the number removed. */
+  cleanup(): Promise<number>;
+  /** Public URL for a stored key */
+  urlFor(key: string): string;
+  /** Retention period in hours (0 = keep forever) */
+  readonly retentionHours: number;
+}
+
+/** Result of persisting prediction outputs */
+export interface PersistedOutputs {
+  urls: string[];
+  /** True if every output was stored (URLs no longer expire after 1 hour) */
+  stored: boolean;
+}
+
+/** File extension → content type for generated outputs */
+const CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  json: 'application/json',
+  txt: 'text/plain',
+};
+
+/** Keys are "{predictionId}/{filename}" - nothing that could escape a directory */
+const KEY_PATTERN = /^[a-zA-Z0-9_-]+\/[a-zA-Z0-9_-]+\.[a-z0-9]+$/;
+
+/**
+ * Check that a storage key is well-formed (prevents path traversal).
+ */
+export function isValidStorageKey(key: string): boolean {
+  return KEY_PATTERN.test(key);
+}
+
+/**
+ * Get the content type for a key or filename from its extension.
+ */
+export function contentTypeFor(key: string): string {
+  const ext = key.split('.').pop()?.toLowerCase() ?? '';
+  return CONTENT_TYPES[ext] ?? 'application/octet-stream';
+}
+
+/**
+ * Pick a file extension from a content type, falling back to the source URL.
+ */
+function extensionFor(contentType: string | null, sourceUrl: string): string {
+  const mime = contentType?.split(';')[0].trim().toLowerCase();
+  const fromMime = Object.entries(CONTENT_TYPES).find(([, type]) => type === mime)?.[0];
+  if (fromMime) return fromMime;
+
+  const fromUrl = new URL(sourceUrl).pathname.split('.').pop()?.toLowerCase();
+  return fromUrl && fromUrl in CONTENT_TYPES ? fromUrl : 'bin';
+}
+
+/**
+ * Human-readable retention period.
+ */
+export function describeRetention(hours: number): string {
+  if (hours <= 0) return 'indefinitely';
+  if (hours % 24 === 0) {
+    const days = hours / 24;
+    return `for ${days} day${days === 1 ? '' : 's'}`;
+  }
+  return `for ${hours} hour${hours === 1 ? '' : 's'}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Active storage (set once per runtime at startup)
+// ─────────────────────────────────────────────────────────────────────────────
+
+let activeStorage: OutputStorage | null = null;
+
+export function setOutputStorage(storage: OutputStorage | null): void {
+  activeStorage = storage;
+}
+
+export function getOutputStorage(): OutputStorage | null {
+  return activeStorage;
+}
+
+/**
+ * Download prediction outputs into the active storage and return stable URLs.
+ * Without a configured storage the original URLs are returned unchanged.
+ * Outputs that fail to download keep their original (expiring) URL.
+ */
+export async function persistOutputs(
+  predictionId: string,
+  urls: string[],
+): Promise<PersistedOutputs> {
+  const storage = activeStorage;
+  if (!storage || urls.length === 0) {
+    return { urls, stored: false };
+  }
+
+  let stored = true;
+
+  const persisted = await Promise.all(
+    urls.map(async (url, index) => {
+      try {
+        const response = await fetch(url);
+        if (!response.ok) {
+          throw new Error(`Download failed with status ${response.status}`);
+        }
+
+        const contentType = response.headers.get('content-type');
+        const key = `${predictionId}/${index}.${extensionFor(contentType, url)}`;
+        const data = new Uint8Array(await response.arrayBuffer());
+
+        await storage.put(key, data, contentTypeFor(key));
+        return storage.urlFor(key);
+      } catch (error) {
+        stored = false;
+        logger.warning('output_storage', {
+          message: 'Failed to persist output, keeping original URL',
+          predictionId,
+          url,
+          error: (error as Error).message,
+        });
+        return url;
+      }
+    }),
+  );
+
+  logger.debug('output_storage', {
+    message: 'Persisted prediction outputs',
+    predictionId,
+    count: persisted.length,
+    stored,
+  });
+
+  return { urls: persisted, stored };
+}
+
+/**
+ * Note for tool results explaining how long output URLs stay valid.
+ */
+export function formatExpiryNote(outputs: PersistedOutputs): string {
+  const storage = activeStorage;
+  if (outputs.stored && storage) {
+    return `Note: Images are stored on this server ${describeRetention(storage.retentionHours)}.`;
+  }
+  return 'Note: URLs expire in 1 hour.';
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Retention cleanup
+// ─────────────────────────────────────────────────────────────────────────────
+
+let cleanupIntervalId: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Periodically remove expired outputs (Node.js).
+ * Workers run cleanup from the scheduled handler instead.
+ */
+export function startOutputCleanup(intervalMs = 60 * 60 * 1000): void {
+  if (cleanupIntervalId) return;
+  cleanupIntervalId = setInterval(() => {
+    void runOutputCleanup();
+  }, intervalMs);
+}
+
+export function stopOutputCleanup(): void {
+  if (cleanupIntervalId) {
+    clearInterval(cleanupIntervalId);
+    cleanupIntervalId = null;
+  }
+}
+
+/**
+ * Remove expired outputs from the active storage.
+ */
+export async function runOutputCleanup(): Promise<number> {
+  const storage = activeStorage;
+  if (!storage || storage.retentionHours <= 0) return 0;
+
+  try {
+    const removed = await storage.cleanup();
+    if (removed > 0) {
+      logger.info('output_storage', { message: 'Removed expired outputs', removed });
+    }
+    return removed;
+  } catch (error) {
+    logger.error('output_storage', {
+      message: 'Output cleanup failed',
+      error: (error as Error).message,
+    });
+    return 0;
+  }
+}
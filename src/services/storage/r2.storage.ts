@@ -0,0 +1,84 @@
+/**
+ * R2 bucket output storage (Cloudflare Workers).
+ * Objects are keyed `{predictionId}/{filename}`; retention uses the upload time.
+ */
+
+import type { R2Bucket } from '@cloudflare/workers-types';
+import {
+  isValidStorageKey,
+  type OutputStorage,
+  type StoredFile,
+} from './output-storage.js';
+
+export interface R2StorageOptions {
+  /** R2 bucket binding */
+  bucket: R2Bucket;
+  /** Public base URL of this Worker (e.g. "https://replicate-mcp.example.workers.dev") */
+  baseUrl: string;
+  /** Retention period in hours (0 = keep forever) */
+  retentionHours: number;
+}
+
+export function createR2Storage(options: R2StorageOptions): OutputStorage {
+  const { bucket } = options;
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const maxAgeMs = options.retentionHours * 60 * 60 * 1000;
+
+  function isExpired(uploaded: Date): boolean {
+    return maxAgeMs > 0 && Date.now() - uploaded.getTime() > maxAgeMs;
+  }
+
+  return {
+    retentionHours: options.retentionHours,
+
+    async put(key: string, data: Uint8Array, contentType: string): Promise<void> {
+      if (!isValidStorageKey(key)) {
+        throw new Error(`Invalid storage key: ${key}`);
+      }
+      await bucket.put(key, data, { httpMetadata: { contentType } });
+    },
+
+    async get(key: string): Promise<StoredFile | null> {
+      if (!isValidStorageKey(key)) return null;
+
+      const object = await bucket.get(key);
+      if (!object) return null;
+
+      if (isExpired(object.uploaded)) {
+        await bucket.delete(key);
+        return null;
+      }
+
+      return {
+        body: object.body as unknown as ReadableStream,
+        contentType: object.httpMetadata?.contentType ?? 'application/octet-stream',
+        size: object.size,
+      };
+    },
+
+    async cleanup(): Promise<number> {
+      if (maxAgeMs <= 0) return 0;
+
+      let removed = 0;
+      let cursor: string | undefined;
+
+      do {
+        const page = await bucket.list({ cursor, limit: 1000 });
+        const expired = page.objects
+          .filter((obj) => isExpired(obj.uploaded))
+          .map((obj) => obj.key);
+        if (expired.length > 0) {
+          await bucket.delete(expired);
+          removed += expired.length;
+        }
+        cursor = page.truncated ? page.cursor : undefined;
+      } while (cursor);
+
+      return removed;
+    },
+
+    urlFor(key: string): string {
+      return `${baseUrl}/files/${key}`;
+    },
+  };
+}
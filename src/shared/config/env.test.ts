@@ -0,0 +1,16 @@
+import { describe, expect, test } from 'bun:test';
+import { parseConfig } from './env.js';
+
+describe('parseConfig', () => {
+  test('reads version pins and skips malformed entries', () => {
+    const config = parseConfig({
+      MODEL_VERSIONS: ` owner/name:${'a'.repeat(64)}, flux-schnell:abc, owner/other:, owner/last:${'b'.repeat(64)}`,
+    });
+
+    expect(config.MODEL_VERSIONS).toEqual({
+      'owner/name': 'a'.repeat(64),
+      'owner/last': 'b'.repeat(64),
+    });
+    expect(parseConfig({}).MODEL_VERSIONS).toEqual({});
+  });
+});
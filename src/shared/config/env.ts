@@ -18,6 +18,49 @@ export type UnifiedConfig = {
 
   // Logging
   LOG_LEVEL: 'debug' | 'info' | 'warning' | 'error';
+
+  // Output storage (Node: 'local' filesystem; Workers: enabled by the OUTPUTS R2 binding)
+  OUTPUT_STORAGE: 'none' | 'local';
+  OUTPUT_DIR: string;
+  // Hours to keep stored outputs (0 = keep forever)
+  OUTPUT_RETENTION_HOURS: number;
+  // Public base URL used for stored output links (defaults to the server address)
+  PUBLIC_URL?: string;
+
+  // Let the server write save_to files itself (Node on a loopback HOST only)
+  LOCAL_FILE_WRITES: boolean;
+
+  // Default generate_image output mode (overridable per call)
+  OUTPUT_MODE: 'markdown' | 'image' | 'resource_link' | 'all';
+  // Longest side in pixels for inline image content (0 = no downscaling)
+  IMAGE_MAX_DIMENSION: number;
+
+  // Cache for search results and model metadata (0 = disabled)
+  CACHE_TTL_SECONDS: number;
+  // Max entries in the in-memory cache (Workers use KV when TOKENS is bound)
+  CACHE_MAX_ENTRIES: number;
+
+  // Max predictions generate_batch runs at once
+  BATCH_CONCURRENCY: number;
+
+  // Version pins: "owner/name" → version ID, from "owner/name:version,owner/name:version"
+  MODEL_VERSIONS: Record<string, string>;
+
+  // Per-image price overrides for cost estimates: "owner/name=0.003,owner/name=0.04"
+  MODEL_PRICES: Record<string, number>;
+
+  // Typical runs for models billed by run time: "owner/name=gpu-a100-large:30"
+  MODEL_RUN_ESTIMATES: Record<string, { hardware: string; seconds: number }>;
+
+  // Estimated USD per call above which the user must approve the spend (0 = disabled)
+  COST_CONFIRM_THRESHOLD: number;
+  // USD counted per prediction without a known price (0 = not counted)
+  COST_UNKNOWN_PRICE: number;
+
+  // Minutes without requests before a session ends (0 = never; Workers: MCP_SESSIONS binding)
+  SESSION_IDLE_MINUTES: number;
+  // Max concurrent sessions (Node); the least recently used is evicted (0 = unlimited)
+  MAX_SESSIONS: number;
 };
 
 function parseNumber(value: unknown, defaultValue: number): number {
@@ -25,6 +68,47 @@ function parseNumber(value: unknown, defaultValue: number): number {
   return Number.isFinite(num) ? num : defaultValue;
 }
 
+function parseOutputMode(value: unknown): UnifiedConfig['OUTPUT_MODE'] {
+  const modes = ['markdown', 'image', 'resource_link', 'all'] as const;
+  return modes.find((mode) => mode === value) ?? 'markdown';
+}
+
+function parseModelVersions(value: unknown): Record<string, string> {
+  const pins: Record<string, string> = {};
+  for (const entry of String(value ?? '').split(',')) {
+    const [model, version] = entry.trim().split(':');
+    if (model?.includes('/') && version) {
+      pins[model] = version;
+    }
+  }
+  return pins;
+}
+
+function parseModelPrices(value: unknown): Record<string, number> {
+  const prices: Record<string, number> = {};
+  for (const entry of String(value ?? '').split(',')) {
+    const [model, price] = entry.trim().split('=');
+    const usd = Number(price);
+    if (model?.includes('/') && price && Number.isFinite(usd)) {
+      prices[model] = usd;
+    }
+  }
+  return prices;
+}
+
+function parseRunEstimates(value: unknown): UnifiedConfig['MODEL_RUN_ESTIMATES'] {
+  const runs: UnifiedConfig['MODEL_RUN_ESTIMATES'] = {};
+  for (const entry of String(value ?? '').split(',')) {
+    const [model, run] = entry.trim().split('=');
+    const [hardware, time] = run?.split(':') ?? [];
+    const seconds = Number(time);
+    if (model?.includes('/') && hardware && time && Number.isFinite(seconds)) {
+      runs[model] = { hardware, seconds };
+    }
+  }
+  return runs;
+}
+
 /**
  * Parse environment variables into a unified config object
  */
@@ -41,6 +125,31 @@ export function parseConfig(env: Record<string, unknown>): UnifiedConfig {
     REPLICATE_API_TOKEN: env.REPLICATE_API_TOKEN as string | undefined,
 
     LOG_LEVEL: (env.LOG_LEVEL as UnifiedConfig['LOG_LEVEL']) || 'info',
+
+    OUTPUT_STORAGE: env.OUTPUT_STORAGE === 'local' ? 'local' : 'none',
+    OUTPUT_DIR: String(env.OUTPUT_DIR || './data/outputs'),
+    OUTPUT_RETENTION_HOURS: parseNumber(env.OUTPUT_RETENTION_HOURS, 168),
+    PUBLIC_URL: env.PUBLIC_URL as string | undefined,
+
+    LOCAL_FILE_WRITES: String(env.LOCAL_FILE_WRITES).toLowerCase() === 'true',
+
+    OUTPUT_MODE: parseOutputMode(env.OUTPUT_MODE),
+    IMAGE_MAX_DIMENSION: parseNumber(env.IMAGE_MAX_DIMENSION, 1024),
+
+    CACHE_TTL_SECONDS: parseNumber(env.CACHE_TTL_SECONDS, 600),
+    CACHE_MAX_ENTRIES: parseNumber(env.CACHE_MAX_ENTRIES, 500),
+
+    BATCH_CONCURRENCY: Math.max(1, parseNumber(env.BATCH_CONCURRENCY, 3)),
+
+    MODEL_VERSIONS: parseModelVersions(env.MODEL_VERSIONS),
+    MODEL_PRICES: parseModelPrices(env.MODEL_PRICES),
+    MODEL_RUN_ESTIMATES: parseRunEstimates(env.MODEL_RUN_ESTIMATES),
+
+    COST_CONFIRM_THRESHOLD: Math.max(0, parseNumber(env.COST_CONFIRM_THRESHOLD, 1)),
+    COST_UNKNOWN_PRICE: Math.max(0, parseNumber(env.COST_UNKNOWN_PRICE, 0)),
+
+    SESSION_IDLE_MINUTES: Math.max(0, parseNumber(env.SESSION_IDLE_MINUTES, 30)),
+    MAX_SESSIONS: Math.max(0, parseNumber(env.MAX_SESSIONS, 100)),
   };
 }
 
@@ -0,0 +1,33 @@
+// Serve stored prediction outputs for both Node.js and Cloudflare Workers
+
+import type { OutputStorage } from '../../services/storage/output-storage.js';
+import { withCors } from './cors.js';
+import { textError } from './response.js';
+
+/**
+ * Build a response for GET /files/{predictionId}/{filename}.
+ */
+export async function serveStoredFile(
+  storage: OutputStorage | null,
+  key: string,
+): Promise<Response> {
+  if (!storage) {
+    return textError('Not Found', { status: 404 });
+  }
+
+  const file = await storage.get(key);
+  if (!file) {
+    return textError('Not Found', { status: 404 });
+  }
+
+  const headers: Record<string, string> = {
+    'Content-Type': file.contentType,
+    'Cache-Control': 'public, max-age=3600',
+    'X-Content-Type-Options': 'nosniff',
+  };
+  if (file.size !== undefined) {
+    headers['Content-Length'] = String(file.size);
+  }
+
+  return withCors(new Response(file.body, { status: 200, headers }));
+}
@@ -0,0 +1,34 @@
+import { describe, expect, test } from 'bun:test';
+import { acceptsEventStream, createSseStream } from './sse.js';
+
+describe('acceptsEventStream', () => {
+  test('checks the Accept header', () => {
+    const request = (accept: string) =>
+      new Request('https://mcp.example.com/mcp', { headers: { Accept: accept } });
+
+    expect(acceptsEventStream(request('application/json, text/event-stream'))).toBe(
+      true,
+    );
+    expect(acceptsEventStream(request('application/json'))).toBe(false);
+  });
+});
+
+describe('createSseStream', () => {
+  test('writes JSON-RPC messages as SSE events until closed', async () => {
+    const stream = createSseStream({ headers: { 'Mcp-Session-Id': 'abc' } });
+    const body = stream.response.text();
+    const progress = {
+      jsonrpc: '2.0',
+      method: 'notifications/progress',
+      params: { progressToken: 1, progress: 0.5, total: 1 },
+    };
+
+    await stream.send(progress);
+    await stream.close();
+    await stream.send({ jsonrpc: '2.0', method: 'ignored' });
+
+    expect(stream.response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(stream.response.headers.get('Mcp-Session-Id')).toBe('abc');
+    expect(await body).toBe(`event: message\ndata: ${JSON.stringify(progress)}\n\n`);
+  });
+});
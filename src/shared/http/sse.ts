@@ -0,0 +1,59 @@
+// Server-Sent Events helpers for Streamable HTTP responses (Node.js and Workers)
+
+import { withCors } from './cors.js';
+
+export interface SseStream {
+  /** Response to return to the client (stream stays open until close()) */
+  response: Response;
+  /** Write a JSON-RPC message as an SSE "message" event */
+  send: (message: unknown) => Promise<void>;
+  /** End the stream */
+  close: () => Promise<void>;
+}
+
+/**
+ * Check whether the client accepts an SSE response.
+ */
+export function acceptsEventStream(request: Request): boolean {
+  const accept = request.headers.get('Accept') || request.headers.get('accept') || '';
+  return accept.includes('text/event-stream');
+}
+
+/**
+ * Create an SSE response stream for JSON-RPC messages.
+ */
+export function createSseStream(
+  options: { headers?: Record<string, string> } = {},
+): SseStream {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const response = withCors(
+    new Response(readable, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        ...options.headers,
+      },
+    }),
+  );
+
+  return {
+    response,
+    async send(message: unknown): Promise<void> {
+      if (closed) return;
+      await writer.write(
+        encoder.encode(`event: message\ndata: ${JSON.stringify(message)}\n\n`),
+      );
+    },
+    async close(): Promise<void> {
+      if (closed) return;
+      closed = true;
+      await writer.close();
+    },
+  };
+}
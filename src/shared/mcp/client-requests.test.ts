@@ -0,0 +1,98 @@
+import { describe, expect, test } from 'bun:test';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import {
+  createStreamChannel,
+  isJsonRpcResponse,
+  type PendingClientRequests,
+  resolveClientResponse,
+} from './client-requests.js';
+
+const listRoots = { method: 'roots/list' } as const;
+const rootsSchema = z.object({ roots: z.array(z.object({ uri: z.string() })) });
+
+function channel(signal?: AbortSignal) {
+  const sent: Record<string, unknown>[] = [];
+  const pending: PendingClientRequests = new Map();
+  const client = createStreamChannel({
+    send: async (message) => {
+      sent.push(message as Record<string, unknown>);
+    },
+    pending,
+    getClientCapabilities: () => ({ roots: {} }),
+    signal,
+  });
+  const request = () => {
+    if (!client.request) throw new Error('Channel cannot send requests');
+    return client.request(listRoots, rootsSchema);
+  };
+  return { request, sent, pending };
+}
+
+describe('isJsonRpcResponse', () => {
+  test('recognizes results and errors, not requests', () => {
+    expect(isJsonRpcResponse({ jsonrpc: '2.0', id: 1, result: {} })).toBe(true);
+    expect(
+      isJsonRpcResponse({ jsonrpc: '2.0', id: 'a', error: { code: -1, message: 'x' } }),
+    ).toBe(true);
+    expect(isJsonRpcResponse({ jsonrpc: '2.0', id: 1, method: 'tools/list' })).toBe(
+      false,
+    );
+    expect(isJsonRpcResponse({ jsonrpc: '2.0', id: 1 })).toBe(false);
+  });
+});
+
+describe('createStreamChannel', () => {
+  test('writes the request to the stream and resolves with the response', async () => {
+    const { request, sent, pending } = channel();
+
+    const result = request();
+    const [message] = sent;
+    expect(message).toMatchObject({ jsonrpc: '2.0', method: 'roots/list' });
+
+    const answered = resolveClientResponse(pending, {
+      id: message?.id as string,
+      result: { roots: [{ uri: 'file:///work' }] },
+    });
+
+    expect(answered).toBe(true);
+    expect(await result).toEqual({ roots: [{ uri: 'file:///work' }] });
+    expect(pending.size).toBe(0);
+  });
+
+  test('rejects with the client error', async () => {
+    const { request, sent, pending } = channel();
+
+    const result = request();
+    resolveClientResponse(pending, {
+      id: sent[0]?.id as string,
+      error: { code: -32601, message: 'Method not found' },
+    });
+
+    await expect(result).rejects.toBeInstanceOf(McpError);
+  });
+
+  test('rejects results that do not match the schema', async () => {
+    const { request, sent, pending } = channel();
+
+    const result = request();
+    resolveClientResponse(pending, { id: sent[0]?.id as string, result: {} });
+
+    await expect(result).rejects.toThrow('Invalid roots/list result');
+  });
+
+  test('fails and forgets the request when the call is cancelled', async () => {
+    const controller = new AbortController();
+    const { request, pending } = channel(controller.signal);
+
+    const result = request();
+    controller.abort('Client disconnected');
+
+    await expect(result).rejects.toThrow('roots/list cancelled');
+    expect(pending.size).toBe(0);
+  });
+
+  test('ignores responses nobody is waiting for', () => {
+    expect(resolveClientResponse(new Map(), { id: 'unknown', result: {} })).toBe(false);
+  });
+});
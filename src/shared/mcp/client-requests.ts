@@ -0,0 +1,135 @@
+/**
+ * Server→client requests over SSE (Workers).
+ *
+ * The shared dispatcher has no SDK Protocol to correlate responses, so a
+ * request (elicitation, sampling, roots) is written to the tool call's event
+ * stream and parked here until the client POSTs the JSON-RPC response back.
+ */
+
+import {
+  type ClientCapabilities,
+  ErrorCode,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { ZodType } from 'zod';
+import type { ClientChannel, ClientRequest } from '../../types/context.js';
+
+/** How long to wait for the client's response (the SDK's default request timeout) */
+const CLIENT_REQUEST_TIMEOUT_MS = 60_000;
+
+interface PendingClientRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/** Server→client requests awaiting a response, keyed by JSON-RPC id */
+export type PendingClientRequests = Map<string | number, PendingClientRequest>;
+
+/** JSON-RPC response sent by the client */
+export interface JsonRpcResponseMessage {
+  id: string | number;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+/**
+ * Check whether a POSTed message is a response (no method, a result or an error).
+ */
+export function isJsonRpcResponse(
+  message: Record<string, unknown>,
+): message is Record<string, unknown> & JsonRpcResponseMessage {
+  return (
+    message.method === undefined &&
+    (typeof message.id === 'string' || typeof message.id === 'number') &&
+    ('result' in message || 'error' in message)
+  );
+}
+
+/**
+ * Settle the pending request a client response belongs to.
+ * Returns false if no request with that id is waiting.
+ */
+export function resolveClientResponse(
+  pending: PendingClientRequests,
+  message: JsonRpcResponseMessage,
+): boolean {
+  const entry = pending.get(message.id);
+  if (!entry) return false;
+
+  if (message.error) {
+    entry.reject(
+      new McpError(message.error.code, message.error.message, message.error.data),
+    );
+  } else {
+    entry.resolve(message.result);
+  }
+  return true;
+}
+
+/**
+ * Channel that writes notifications and requests to an event stream.
+ * Requests wait for the client's response in `pending`; they fail on timeout
+ * or when `signal` aborts (the tool call was cancelled).
+ */
+export function createStreamChannel(options: {
+  send: (message: unknown) => Promise<void>;
+  pending: PendingClientRequests;
+  getClientCapabilities: () => ClientCapabilities | undefined;
+  signal?: AbortSignal;
+}): ClientChannel {
+  const { send, pending, signal } = options;
+
+  return {
+    notification: (notification) => send({ jsonrpc: '2.0', ...notification }),
+
+    getClientCapabilities: options.getClientCapabilities,
+
+    async request<T>(request: ClientRequest, resultSchema: ZodType<T>): Promise<T> {
+      signal?.throwIfAborted();
+      const id = crypto.randomUUID();
+
+      const result = await new Promise<unknown>((resolve, reject) => {
+        const cleanup = () => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+          pending.delete(id);
+        };
+        const onAbort = () => {
+          cleanup();
+          reject(new Error(`${request.method} cancelled: ${String(signal?.reason)}`));
+        };
+        const timer = setTimeout(() => {
+          cleanup();
+          reject(
+            new McpError(ErrorCode.RequestTimeout, 'Request timed out', {
+              timeout: CLIENT_REQUEST_TIMEOUT_MS,
+            }),
+          );
+        }, CLIENT_REQUEST_TIMEOUT_MS);
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+        pending.set(id, {
+          resolve: (value) => {
+            cleanup();
+            resolve(value);
+          },
+          reject: (error) => {
+            cleanup();
+            reject(error);
+          },
+        });
+
+        send({ jsonrpc: '2.0', id, ...request }).catch((error) => {
+          cleanup();
+          reject(error);
+        });
+      });
+
+      const parsed = resultSchema.safeParse(result);
+      if (!parsed.success) {
+        throw new Error(`Invalid ${request.method} result: ${parsed.error.message}`);
+      }
+      return parsed.data;
+    },
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Shared completion/complete handling.
+ * Prompt arguments and resource template variables declare their own
+ * completion callbacks; this module routes a request to the right one.
+ */
+
+import { sharedPrompts } from '../prompts/registry.js';
+import { sharedResourceTemplates } from '../resources/registry.js';
+import type { ResourceContext } from '../resources/types.js';
+import { sharedLogger as logger } from '../utils/logger.js';
+
+/** Per spec, at most 100 values per response */
+export const MAX_COMPLETION_VALUES = 100;
+
+/**
+ * Context passed to completion callbacks.
+ */
+export interface CompletionContext extends ResourceContext {
+  /** Values of arguments the user already filled in */
+  arguments: Record<string, string>;
+}
+
+/**
+ * Suggest values for the argument being typed.
+ */
+export type CompleteCallback = (
+  value: string,
+  context: CompletionContext,
+) => Promise<string[]>;
+
+export type CompletionRef =
+  | { type: 'ref/prompt'; name: string }
+  | { type: 'ref/resource'; uri: string };
+
+export interface CompletionResult {
+  values: string[];
+  total: number;
+  hasMore: boolean;
+}
+
+function findCompleter(
+  ref: CompletionRef,
+  argument: string,
+): CompleteCallback | undefined {
+  if (ref.type === 'ref/prompt') {
+    return sharedPrompts
+      .find((prompt) => prompt.name === ref.name)
+      ?.arguments.find((arg) => arg.name === argument)?.complete;
+  }
+  return sharedResourceTemplates.find((template) => template.uriTemplate === ref.uri)
+    ?.complete?.[argument];
+}
+
+/**
+ * Complete a prompt argument or resource template variable.
+ * Unknown references and arguments without a completer yield no values.
+ */
+export async function completeSharedArgument(
+  ref: CompletionRef,
+  argument: { name: string; value: string },
+  context: CompletionContext,
+): Promise<CompletionResult> {
+  const complete = findCompleter(ref, argument.name);
+  if (!complete) {
+    return { values: [], total: 0, hasMore: false };
+  }
+
+  try {
+    const values = await complete(argument.value, context);
+    return {
+      values: values.slice(0, MAX_COMPLETION_VALUES),
+      total: values.length,
+      hasMore: values.length > MAX_COMPLETION_VALUES,
+    };
+  } catch (error) {
+    logger.warning('completions', {
+      message: 'Completion failed',
+      argument: argument.name,
+      error: (error as Error).message,
+    });
+    return { values: [], total: 0, hasMore: false };
+  }
+}
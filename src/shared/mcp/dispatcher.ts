@@ -3,12 +3,24 @@
  * Used by both Node.js (via SDK wrapper) and Cloudflare Workers (directly).
  */
 
+import type { ClientCapabilities } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 import { buildCapabilities } from '../../core/capabilities.js';
 import { serverMetadata } from '../../config/metadata.js';
+import { getSharedPrompt, missingPromptArguments, sharedPrompts } from '../prompts/registry.js';
+import {
+  listSharedResources,
+  readSharedResource,
+  sharedResourceTemplates,
+  subscribeToResource,
+  unsubscribeFromResource,
+} from '../resources/registry.js';
 import { executeSharedTool, sharedTools } from '../tools/registry.js';
 import type { ToolContext } from '../tools/types.js';
+import type { ClientChannel } from '../../types/context.js';
 import { sharedLogger as logger } from '../utils/logger.js';
+import { type CompletionRef, completeSharedArgument } from './completions.js';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
@@ -42,6 +54,8 @@ export interface McpServerConfig {
 export interface McpSessionState {
   initialized: boolean;
   clientInfo?: { name: string; version: string };
+  /** Capabilities the client declared in initialize (elicitation, sampling, roots) */
+  clientCapabilities?: ClientCapabilities;
   protocolVersion?: string;
 }
 
@@ -57,6 +71,8 @@ export interface McpDispatchContext {
   setSessionState: (state: McpSessionState) => void;
   /** Registry for tracking in-flight requests that can be cancelled */
   cancellationRegistry?: CancellationRegistry;
+  /** Channel for request-related notifications and requests (set when the response is streamed) */
+  client?: ClientChannel;
 }
 
 /** JSON-RPC response */
@@ -74,6 +90,7 @@ async function handleInitialize(
   ctx: McpDispatchContext,
 ): Promise<JsonRpcResult> {
   const clientInfo = params?.clientInfo as { name: string; version: string } | undefined;
+  const clientCapabilities = params?.capabilities as ClientCapabilities | undefined;
   const requestedVersion = String(params?.protocolVersion || LATEST_PROTOCOL_VERSION);
 
   // Negotiate protocol version
@@ -85,6 +102,7 @@ async function handleInitialize(
   ctx.setSessionState({
     initialized: false,
     clientInfo,
+    clientCapabilities,
     protocolVersion,
   });
 
@@ -114,7 +132,7 @@ async function handleToolsList(): Promise<JsonRpcResult> {
     name: tool.name,
     description: tool.description,
     inputSchema: zodToJsonSchema(tool.inputSchema),
-    ...(tool.outputSchema && { outputSchema: tool.outputSchema }),
+    ...(tool.outputSchema && { outputSchema: zodToJsonSchema(z.object(tool.outputSchema)) }),
     ...(tool.annotations && { annotations: tool.annotations }),
   }));
 
@@ -141,6 +159,7 @@ async function handleToolsCall(
     ...ctx.auth,
     sessionId: ctx.sessionId,
     signal: abortController.signal,
+    client: ctx.client,
     meta: {
       progressToken: meta?.progressToken,
       requestId: requestId !== undefined ? String(requestId) : undefined,
@@ -193,20 +212,150 @@ async function handleToolsCall(
   }
 }
 
-async function handleResourcesList(): Promise<JsonRpcResult> {
-  // Resources are registered via SDK in Node.js
-  // Workers template doesn't have resources yet
-  return { result: { resources: [] } };
+async function handleResourcesList(ctx: McpDispatchContext): Promise<JsonRpcResult> {
+  const resources = await listSharedResources(ctx.auth);
+  return { result: { resources } };
 }
 
 async function handleResourcesTemplatesList(): Promise<JsonRpcResult> {
-  return { result: { resourceTemplates: [] } };
+  const resourceTemplates = sharedResourceTemplates.map((template) => ({
+    uriTemplate: template.uriTemplate,
+    name: template.name,
+    ...(template.title && { title: template.title }),
+    description: template.description,
+    ...(template.mimeType && { mimeType: template.mimeType }),
+  }));
+
+  return { result: { resourceTemplates } };
+}
+
+async function handleResourcesRead(
+  params: Record<string, unknown> | undefined,
+  ctx: McpDispatchContext,
+): Promise<JsonRpcResult> {
+  const uri = typeof params?.uri === 'string' ? params.uri : '';
+
+  if (!uri) {
+    return {
+      error: { code: JsonRpcErrorCode.InvalidParams, message: 'Missing resource URI' },
+    };
+  }
+
+  try {
+    const contents = await readSharedResource(uri, ctx.auth);
+    if (!contents) {
+      return {
+        error: { code: JsonRpcErrorCode.InvalidParams, message: `Resource ${uri} not found` },
+      };
+    }
+    return { result: { contents } };
+  } catch (error) {
+    logger.error('mcp_dispatch', {
+      message: 'Resource read failed',
+      uri,
+      error: (error as Error).message,
+    });
+    return {
+      error: {
+        code: JsonRpcErrorCode.InternalError,
+        message: `Resource read failed: ${(error as Error).message}`,
+      },
+    };
+  }
+}
+
+async function handleResourcesSubscribe(
+  params: Record<string, unknown> | undefined,
+  ctx: McpDispatchContext,
+): Promise<JsonRpcResult> {
+  const uri = typeof params?.uri === 'string' ? params.uri : '';
+
+  if (!uri || !subscribeToResource(uri, ctx.auth)) {
+    return {
+      error: { code: JsonRpcErrorCode.InvalidParams, message: `Resource ${uri} not found` },
+    };
+  }
+
+  logger.debug('mcp_dispatch', { message: 'Subscribed', uri, sessionId: ctx.sessionId });
+  return { result: {} };
+}
+
+async function handleResourcesUnsubscribe(
+  params: Record<string, unknown> | undefined,
+  ctx: McpDispatchContext,
+): Promise<JsonRpcResult> {
+  const uri = typeof params?.uri === 'string' ? params.uri : '';
+  unsubscribeFromResource(uri, ctx.auth);
+  return { result: {} };
 }
 
 async function handlePromptsList(): Promise<JsonRpcResult> {
-  // Prompts are registered via SDK in Node.js
-  // Workers template doesn't have prompts yet
-  return { result: { prompts: [] } };
+  const prompts = sharedPrompts.map((prompt) => ({
+    name: prompt.name,
+    ...(prompt.title && { title: prompt.title }),
+    description: prompt.description,
+    arguments: prompt.arguments.map((arg) => ({
+      name: arg.name,
+      description: arg.description,
+      required: Boolean(arg.required),
+    })),
+  }));
+
+  return { result: { prompts } };
+}
+
+async function handlePromptsGet(
+  params: Record<string, unknown> | undefined,
+): Promise<JsonRpcResult> {
+  const name = String(params?.name || '');
+  const args = (params?.arguments || {}) as Record<string, string | undefined>;
+  const prompt = getSharedPrompt(name);
+
+  if (!prompt) {
+    return {
+      error: { code: JsonRpcErrorCode.InvalidParams, message: `Prompt ${name} not found` },
+    };
+  }
+
+  const missing = missingPromptArguments(prompt, args);
+  if (missing.length > 0) {
+    return {
+      error: {
+        code: JsonRpcErrorCode.InvalidParams,
+        message: `Missing required arguments for prompt ${name}: ${missing.join(', ')}`,
+      },
+    };
+  }
+
+  return {
+    result: {
+      description: prompt.description,
+      messages: prompt.build(args),
+    },
+  };
+}
+
+async function handleCompletionComplete(
+  params: Record<string, unknown> | undefined,
+  ctx: McpDispatchContext,
+): Promise<JsonRpcResult> {
+  const ref = params?.ref as CompletionRef | undefined;
+  const argument = params?.argument as { name?: string; value?: string } | undefined;
+
+  if (!ref || typeof argument?.name !== 'string') {
+    return {
+      error: { code: JsonRpcErrorCode.InvalidParams, message: 'Missing completion ref or argument' },
+    };
+  }
+
+  const context = params?.context as { arguments?: Record<string, string> } | undefined;
+  const completion = await completeSharedArgument(
+    ref,
+    { name: argument.name, value: String(argument.value ?? '') },
+    { ...ctx.auth, arguments: context?.arguments ?? {} },
+  );
+
+  return { result: { completion } };
 }
 
 async function handlePing(): Promise<JsonRpcResult> {
@@ -285,14 +434,29 @@ export async function dispatchMcpMethod(
       return handleToolsCall(params, ctx, requestId);
 
     case 'resources/list':
-      return handleResourcesList();
+      return handleResourcesList(ctx);
 
     case 'resources/templates/list':
       return handleResourcesTemplatesList();
 
+    case 'resources/read':
+      return handleResourcesRead(params, ctx);
+
+    case 'resources/subscribe':
+      return handleResourcesSubscribe(params, ctx);
+
+    case 'resources/unsubscribe':
+      return handleResourcesUnsubscribe(params, ctx);
+
     case 'prompts/list':
       return handlePromptsList();
 
+    case 'prompts/get':
+      return handlePromptsGet(params);
+
+    case 'completion/complete':
+      return handleCompletionComplete(params, ctx);
+
     case 'ping':
       return handlePing();
 
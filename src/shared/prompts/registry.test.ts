@@ -0,0 +1,85 @@
+import { describe, expect, test } from 'bun:test';
+import { dispatchMcpMethod, type McpDispatchContext } from '../mcp/dispatcher.js';
+
+const ctx = {} as McpDispatchContext;
+
+/** Text of the single user message a prompt returns */
+async function promptText(name: string, args: Record<string, string>) {
+  const response = await dispatchMcpMethod(
+    'prompts/get',
+    { name, arguments: args },
+    ctx,
+  );
+  const { messages } = response.result as {
+    messages: Array<{ role: string; content: { text: string } }>;
+  };
+  expect(messages).toHaveLength(1);
+  expect(messages[0].role).toBe('user');
+  return messages[0].content.text;
+}
+
+describe('prompts', () => {
+  test('lists every workflow with its arguments', async () => {
+    const response = await dispatchMcpMethod('prompts/list', undefined, ctx);
+    const { prompts } = response.result as {
+      prompts: Array<{
+        name: string;
+        arguments: Array<{ name: string; required: boolean }>;
+      }>;
+    };
+
+    expect(prompts.map((prompt) => prompt.name)).toEqual([
+      'generate-image',
+      'edit-image',
+      'upscale',
+      'product-shot',
+    ]);
+    expect(prompts[0].arguments).toContainEqual({
+      name: 'subject',
+      description: 'What the image should show',
+      required: true,
+    });
+  });
+
+  test('fills in the arguments given', async () => {
+    const text = await promptText('generate-image', {
+      subject: 'a lighthouse',
+      style: 'watercolor',
+      aspect_ratio: '16:9',
+      model: 'black-forest-labs/flux-dev',
+    });
+
+    expect(text).toContain('1. Use the model "black-forest-labs/flux-dev".');
+    expect(text).toContain('exact prompt: "a lighthouse, watercolor"');
+    expect(text).toContain('Pass aspect_ratio "16:9"');
+  });
+
+  test('asks for a model when none is given', async () => {
+    const text = await promptText('generate-image', { subject: 'a lighthouse' });
+
+    expect(text).toContain('ask me which model to use');
+    expect(text).not.toContain('Style:');
+  });
+
+  test('rejects unknown prompts and missing required arguments', async () => {
+    expect(
+      (await dispatchMcpMethod('prompts/get', { name: 'nope' }, ctx)).error,
+    ).toMatchObject({
+      message: 'Prompt nope not found',
+    });
+    expect(
+      (
+        await dispatchMcpMethod(
+          'prompts/get',
+          {
+            name: 'edit-image',
+            arguments: { image_url: 'https://x/a.png', instruction: ' ' },
+          },
+          ctx,
+        )
+      ).error,
+    ).toMatchObject({
+      message: 'Missing required arguments for prompt edit-image: instruction',
+    });
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Shared prompt registry - single source of truth for all prompts.
+ * Prompts defined here work in both Node.js and Cloudflare Workers.
+ */
+
+import {
+  editImagePrompt,
+  generateImagePrompt,
+  productShotPrompt,
+  upscalePrompt,
+} from '../../prompts/workflows.prompt.js';
+import type { SharedPromptDefinition } from './types.js';
+
+export type {
+  SharedPromptArgument,
+  SharedPromptDefinition,
+  SharedPromptMessage,
+} from './types.js';
+
+/**
+ * All shared prompts available in both runtimes.
+ */
+export const sharedPrompts: SharedPromptDefinition[] = [
+  generateImagePrompt,
+  editImagePrompt,
+  upscalePrompt,
+  productShotPrompt,
+];
+
+/**
+ * Get a prompt by name.
+ */
+export function getSharedPrompt(name: string): SharedPromptDefinition | undefined {
+  return sharedPrompts.find((p) => p.name === name);
+}
+
+/**
+ * Names of required arguments that are missing or empty.
+ */
+export function missingPromptArguments(
+  prompt: SharedPromptDefinition,
+  args: Record<string, string | undefined>,
+): string[] {
+  return prompt.arguments
+    .filter((arg) => arg.required && !args[arg.name]?.trim())
+    .map((arg) => arg.name);
+}
@@ -0,0 +1,38 @@
+/**
+ * Shared prompt types for cross-runtime compatibility.
+ * Prompts defined with these types are registered with McpServer (Node)
+ * and served by the shared dispatcher (Workers).
+ */
+
+import type { CompleteCallback } from '../mcp/completions.js';
+
+export interface SharedPromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+  /** Suggest values while the user types (completion/complete) */
+  complete?: CompleteCallback;
+}
+
+/**
+ * Message returned by prompts/get.
+ */
+export interface SharedPromptMessage {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+}
+
+/**
+ * Framework-agnostic prompt definition.
+ */
+export interface SharedPromptDefinition {
+  /** Unique prompt name (lowercase, dashes allowed) */
+  name: string;
+  /** Human-readable title */
+  title?: string;
+  /** Description shown in the client's prompt picker */
+  description: string;
+  arguments: SharedPromptArgument[];
+  /** Expand arguments into messages; required arguments are validated before this is called */
+  build: (args: Record<string, string | undefined>) => SharedPromptMessage[];
+}
@@ -0,0 +1,55 @@
+import { describe, expect, test } from 'bun:test';
+import { matchUriTemplate } from './registry.js';
+
+describe('matchUriTemplate', () => {
+  test('extracts template variables', () => {
+    expect(
+      matchUriTemplate(
+        'replicate://predictions/{id}',
+        'replicate://predictions/abc123',
+      ),
+    ).toEqual({ id: 'abc123' });
+    expect(
+      matchUriTemplate(
+        'replicate://models/{owner}/{name}/versions/{version}',
+        'replicate://models/acme/flux/versions/v1',
+      ),
+    ).toEqual({ owner: 'acme', name: 'flux', version: 'v1' });
+  });
+
+  test('decodes variables', () => {
+    expect(
+      matchUriTemplate(
+        'replicate://models/{owner}/{name}',
+        'replicate://models/acme/my%20model',
+      ),
+    ).toEqual({
+      owner: 'acme',
+      name: 'my model',
+    });
+  });
+
+  test('rejects URIs that do not match', () => {
+    expect(
+      matchUriTemplate(
+        'replicate://predictions/{id}',
+        'replicate://predictions/abc/extra',
+      ),
+    ).toBeUndefined();
+    expect(
+      matchUriTemplate('replicate://predictions/{id}', 'replicate://models/abc'),
+    ).toBeUndefined();
+    expect(
+      matchUriTemplate('replicate://predictions/{id}', 'replicate://predictions/'),
+    ).toBeUndefined();
+  });
+
+  test('treats regex characters in the template literally', () => {
+    expect(
+      matchUriTemplate('replicate://a.b/{id}', 'replicate://axb/1'),
+    ).toBeUndefined();
+    expect(matchUriTemplate('replicate://a.b/{id}', 'replicate://a.b/1')).toEqual({
+      id: '1',
+    });
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Shared resource registry - single source of truth for all resource templates.
+ * Templates defined here work in both Node.js and Cloudflare Workers.
+ */
+
+import { subscriptionRegistry } from '../../core/subscriptions.js';
+import {
+  modelResource,
+  modelVersionResource,
+} from '../../resources/models.resource.js';
+import { predictionResource } from '../../resources/predictions.resource.js';
+import type {
+  ResourceContents,
+  ResourceContext,
+  ResourceListEntry,
+  SharedResourceTemplate,
+} from './types.js';
+
+export type {
+  ResourceContents,
+  ResourceContext,
+  ResourceListEntry,
+  SharedResourceTemplate,
+} from './types.js';
+
+/**
+ * All shared resource templates available in both runtimes.
+ */
+export const sharedResourceTemplates: SharedResourceTemplate[] = [
+  predictionResource,
+  modelResource,
+  modelVersionResource,
+];
+
+/**
+ * Match a URI against a simple URI template ("{var}" segments only).
+ * Returns the template variables, or undefined if the URI doesn't match.
+ */
+export function matchUriTemplate(
+  template: string,
+  uri: string,
+): Record<string, string> | undefined {
+  const names: string[] = [];
+  const pattern = template
+    .split(/(\{[^}]+\})/)
+    .map((part) => {
+      const variable = /^\{([^}]+)\}$/.exec(part);
+      if (variable) {
+        names.push(variable[1]);
+        return '([^/]+)';
+      }
+      return part.replace(/[.*+?^$()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  const match = new RegExp(`^${pattern}$`).exec(uri);
+  if (!match) return undefined;
+
+  return Object.fromEntries(
+    names.map((name, index) => [name, decodeURIComponent(match[index + 1])]),
+  );
+}
+
+/**
+ * List concrete resources from every enumerable template.
+ */
+export async function listSharedResources(
+  context: ResourceContext,
+): Promise<ResourceListEntry[]> {
+  const lists = await Promise.all(
+    sharedResourceTemplates.map(
+      (template) => template.list?.(context) ?? Promise.resolve([]),
+    ),
+  );
+  return lists.flat();
+}
+
+/**
+ * Read a resource by URI. Returns undefined if no template matches or the
+ * resource doesn't exist.
+ */
+export async function readSharedResource(
+  uri: string,
+  context: ResourceContext,
+): Promise<ResourceContents[] | undefined> {
+  for (const template of sharedResourceTemplates) {
+    const variables = matchUriTemplate(template.uriTemplate, uri);
+    if (variables) {
+      return template.read(uri, variables, context);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Subscribe the session to a resource (resources/subscribe).
+ * Returns false if no template matches the URI.
+ */
+export function subscribeToResource(uri: string, context: ResourceContext): boolean {
+  for (const template of sharedResourceTemplates) {
+    const variables = matchUriTemplate(template.uriTemplate, uri);
+    if (variables) {
+      if (context.sessionId) {
+        subscriptionRegistry.subscribe(context.sessionId, uri);
+        template.subscribe?.(uri, variables, context);
+      }
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Remove the session's subscription to a resource (resources/unsubscribe).
+ */
+export function unsubscribeFromResource(uri: string, context: ResourceContext): void {
+  if (context.sessionId) {
+    subscriptionRegistry.unsubscribe(context.sessionId, uri);
+  }
+}
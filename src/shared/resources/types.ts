@@ -0,0 +1,68 @@
+/**
+ * Shared resource types for cross-runtime compatibility.
+ * Resource templates defined with these types are registered with McpServer
+ * (Node) and served by the shared dispatcher (Workers).
+ */
+
+import type { CompleteCallback } from '../mcp/completions.js';
+
+/**
+ * Context passed to resource callbacks.
+ */
+export interface ResourceContext {
+  /** Current MCP session ID */
+  sessionId?: string;
+  /** Replicate API token (server-side) */
+  replicateToken?: string;
+}
+
+/**
+ * Entry returned by resources/list.
+ */
+export interface ResourceListEntry {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * Content returned by resources/read.
+ */
+export interface ResourceContents {
+  uri: string;
+  mimeType?: string;
+  text: string;
+}
+
+/**
+ * Framework-agnostic resource template definition.
+ */
+export interface SharedResourceTemplate {
+  /** Unique resource name */
+  name: string;
+  /** Human-readable title */
+  title?: string;
+  /** RFC 6570 URI template, e.g. "replicate://predictions/{id}" */
+  uriTemplate: string;
+  /** Description for the client/LLM */
+  description: string;
+  mimeType?: string;
+  /** List concrete resources matching the template (omit if not enumerable) */
+  list?: (context: ResourceContext) => Promise<ResourceListEntry[]>;
+  /** Read a resource; returns undefined if it does not exist */
+  read: (
+    uri: string,
+    variables: Record<string, string>,
+    context: ResourceContext,
+  ) => Promise<ResourceContents[] | undefined>;
+  /** Completion callbacks for template variables (completion/complete) */
+  complete?: Record<string, CompleteCallback>;
+  /** Called when a session subscribes to a resource of this template */
+  subscribe?: (
+    uri: string,
+    variables: Record<string, string>,
+    context: ResourceContext,
+  ) => void;
+}
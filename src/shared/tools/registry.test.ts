@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { dispatchMcpMethod, type McpDispatchContext } from '../mcp/dispatcher.js';
+import { executeSharedTool } from './registry.js';
+
+describe('search_models structuredContent', () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test('returns models matching the output schema', async () => {
+    globalThis.fetch = (async (url: string, init?: RequestInit) => {
+      if (init?.method === 'QUERY') {
+        return Response.json({
+          results: [
+            {
+              owner: 'black-forest-labs',
+              name: 'flux-schnell',
+              description: 'Fast image model',
+              run_count: 1000,
+            },
+          ],
+        });
+      }
+      return new Response(`Not found: ${url}`, { status: 404 });
+    }) as typeof fetch;
+
+    const result = await executeSharedTool(
+      'search_models',
+      { query: 'structured output test' },
+      { sessionId: 'session-1', replicateToken: 'r8_structured' },
+    );
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toEqual({
+      models: [
+        {
+          owner: 'black-forest-labs',
+          name: 'flux-schnell',
+          description: 'Fast image model',
+          run_count: 1000,
+        },
+      ],
+    });
+  });
+});
+
+describe('tools/list', () => {
+  test('lists output schemas as JSON Schema', async () => {
+    const response = await dispatchMcpMethod(
+      'tools/list',
+      undefined,
+      {} as McpDispatchContext,
+    );
+    const tools = (
+      response.result as {
+        tools: Array<{ name: string; outputSchema?: Record<string, unknown> }>;
+      }
+    ).tools;
+    const searchModels = tools.find((tool) => tool.name === 'search_models');
+
+    expect(searchModels?.outputSchema).toMatchObject({
+      type: 'object',
+      properties: { models: { type: 'array' } },
+      required: ['models'],
+    });
+  });
+});
@@ -3,9 +3,18 @@
  * Tools defined here work in both Node.js and Cloudflare Workers.
  */
 
-import type { ZodObject, ZodRawShape } from 'zod';
+import { z, type ZodObject, type ZodRawShape } from 'zod';
 import { searchModelsTool } from '../../tools/search-models.tool.js';
+import { getModelTool } from '../../tools/get-model.tool.js';
 import { generateImageTool } from '../../tools/generate-image.tool.js';
+import { enhancePromptTool } from '../../tools/enhance-prompt.tool.js';
+import { generateBatchTool } from '../../tools/generate-batch.tool.js';
+import { compareModelsTool } from '../../tools/compare-models.tool.js';
+import { reproducePredictionTool } from '../../tools/reproduce-prediction.tool.js';
+import { listPredictionsTool } from '../../tools/list-predictions.tool.js';
+import { getPredictionTool } from '../../tools/get-prediction.tool.js';
+import { saveImageTool } from '../../tools/save-image.tool.js';
+import { cancelPredictionTool } from '../../tools/cancel-prediction.tool.js';
 import type { ToolContext, ToolResult } from './types.js';
 
 // Re-export types for convenience
@@ -31,7 +40,16 @@ export interface RegisteredTool {
  */
 export const sharedTools: RegisteredTool[] = [
   searchModelsTool as unknown as RegisteredTool,
+  getModelTool as unknown as RegisteredTool,
   generateImageTool as unknown as RegisteredTool,
+  enhancePromptTool as unknown as RegisteredTool,
+  generateBatchTool as unknown as RegisteredTool,
+  compareModelsTool as unknown as RegisteredTool,
+  reproducePredictionTool as unknown as RegisteredTool,
+  listPredictionsTool as unknown as RegisteredTool,
+  getPredictionTool as unknown as RegisteredTool,
+  saveImageTool as unknown as RegisteredTool,
+  cancelPredictionTool as unknown as RegisteredTool,
 ];
 
 /**
@@ -53,8 +71,8 @@ export function getSharedToolNames(): string[] {
  * Handles input validation, output validation, and error wrapping.
  *
  * Per MCP spec: When outputSchema is defined, structuredContent is required
- * (unless isError is true). The SDK validates this automatically for Node,
- * and we replicate that behavior here for Workers.
+ * (unless isError is true) and must match the schema. The SDK validates this
+ * automatically for Node, and we replicate that behavior here for Workers.
  */
 export async function executeSharedTool(
   name: string,
@@ -104,8 +122,20 @@ export async function executeSharedTool(
           isError: true,
         };
       }
-      // Note: Full Zod validation of structuredContent against outputSchema
-      // could be added here if needed for stricter compliance
+
+      const outputResult = z.object(tool.outputSchema).safeParse(result.structuredContent);
+      if (!outputResult.success) {
+        const errors = outputResult.error.errors
+          .map((e) => `${e.path.join('.')}: ${e.message}`)
+          .join(', ');
+        return {
+          content: [{
+            type: 'text',
+            text: `Invalid structured output: ${errors}`,
+          }],
+          isError: true,
+        };
+      }
     }
 
     return result;
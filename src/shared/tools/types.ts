@@ -6,6 +6,7 @@
  */
 
 import type { z, ZodObject, ZodRawShape } from 'zod';
+import type { ClientChannel } from '../../types/context.js';
 
 /**
  * Context passed to every tool handler.
@@ -21,6 +22,8 @@ export interface ToolContext {
     progressToken?: string | number;
     requestId?: string;
   };
+  /** Channel for request-related notifications (set when the response is streamed) */
+  client?: ClientChannel;
 
   /** Replicate API token (server-side) */
   replicateToken?: string;
@@ -32,7 +35,8 @@ export interface ToolContext {
 export type ToolContentBlock =
   | { type: 'text'; text: string }
   | { type: 'image'; data: string; mimeType: string }
-  | { type: 'resource'; uri: string; mimeType?: string; text?: string };
+  | { type: 'resource'; uri: string; mimeType?: string; text?: string }
+  | { type: 'resource_link'; uri: string; name: string; mimeType?: string; description?: string };
 
 /**
  * Result returned from tool handlers.
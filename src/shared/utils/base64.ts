@@ -31,6 +31,21 @@ export function base64Decode(input: string): string {
   return atob(input);
 }
 
+/**
+ * Encode bytes to standard base64 (e.g. for MCP image content).
+ */
+export function base64EncodeBytes(bytes: Uint8Array): string {
+  if (typeof Buffer !== 'undefined') {
+    return Buffer.from(bytes).toString('base64');
+  }
+
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Base64URL (RFC 4648 §5)
 // ─────────────────────────────────────────────────────────────────────────────
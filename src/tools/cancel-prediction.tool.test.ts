@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  clearPredictionHistory,
+  getRecordedPrediction,
+  recordPrediction,
+  toPredictionRecord,
+} from '../services/prediction-history.js';
+import type { RequestContext } from '../types/context.js';
+import { createCancellationToken } from '../utils/cancellation.js';
+import { cancelPredictionTool } from './cancel-prediction.tool.js';
+
+const SESSION = 'session-1';
+
+const originalFetch = globalThis.fetch;
+let requests: string[];
+let status: string;
+
+const context = (): RequestContext => ({
+  sessionId: SESSION,
+  replicateToken: 'r8_test',
+  cancellationToken: createCancellationToken(),
+  timestamp: Date.now(),
+});
+
+/** Text of a tool result's first content block */
+const textOf = (result: CallToolResult) => {
+  const [block] = result.content;
+  return block?.type === 'text' ? block.text : '';
+};
+
+beforeEach(() => {
+  requests = [];
+  globalThis.fetch = (async (url: string, init?: RequestInit) => {
+    requests.push(`${init?.method ?? 'GET'} ${url}`);
+    return Response.json({
+      id: 'abc',
+      model: 'black-forest-labs/flux-schnell',
+      status,
+      output: null,
+      error: null,
+    });
+  }) as typeof fetch;
+
+  recordPrediction(
+    SESSION,
+    toPredictionRecord(
+      { id: 'abc', status: 'processing', output: null, error: null },
+      {
+        model: 'black-forest-labs/flux-schnell',
+        source: 'generate_image',
+        input: { prompt: 'a lighthouse' },
+        startedAt: Date.now(),
+      },
+    ),
+  );
+});
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+  clearPredictionHistory(SESSION);
+});
+
+describe('cancel_prediction', () => {
+  test('cancels a running prediction and updates the history', async () => {
+    status = 'canceled';
+    const result = await cancelPredictionTool.handler(
+      { prediction_id: 'abc' },
+      context(),
+    );
+
+    expect(requests).toEqual([
+      'POST https://api.replicate.com/v1/predictions/abc/cancel',
+    ]);
+    expect(result.isError).toBeUndefined();
+    expect(textOf(result)).toContain('## Prediction Cancelled');
+    expect(getRecordedPrediction(SESSION, 'abc')?.status).toBe('canceled');
+  });
+
+  test('reports predictions that already finished', async () => {
+    status = 'succeeded';
+    const result = await cancelPredictionTool.handler(
+      { prediction_id: 'abc' },
+      context(),
+    );
+
+    expect(textOf(result)).toContain('## Prediction Already Finished');
+  });
+
+  test('requires a server token', async () => {
+    const result = await cancelPredictionTool.handler(
+      { prediction_id: 'abc' },
+      { ...context(), replicateToken: undefined },
+    );
+
+    expect(result.isError).toBe(true);
+    expect(requests).toEqual([]);
+  });
+});
@@ -0,0 +1,117 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { toolsMetadata } from '../config/metadata.js';
+import { strictSchema } from '../schemas/common.js';
+import { cancelPrediction } from '../services/api/replicate.service.js';
+import { updateRecordedPrediction } from '../services/prediction-history.js';
+import type { RequestContext } from '../types/context.js';
+import { logger } from '../utils/logger.js';
+
+const CancelPredictionInputSchema = strictSchema({
+  prediction_id: z
+    .string()
+    .min(1, 'Prediction ID cannot be empty')
+    .describe('Prediction ID returned by generate_image (with wait: false)'),
+});
+
+export const cancelPredictionTool = {
+  name: toolsMetadata.cancel_prediction.name,
+  title: toolsMetadata.cancel_prediction.title,
+  description: toolsMetadata.cancel_prediction.description,
+  inputSchema: CancelPredictionInputSchema,
+
+  handler: async (args: unknown, context?: RequestContext): Promise<CallToolResult> => {
+    const parsed = CancelPredictionInputSchema.safeParse(args);
+
+    if (!parsed.success) {
+      const errorDetails = parsed.error.errors
+        .map((err) => `- ${err.path.join('.')}: ${err.message}`)
+        .join('\n');
+
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `## Invalid Input\n\n${errorDetails}`,
+          },
+        ],
+      };
+    }
+
+    // Check for Replicate token (server-side config)
+    if (!context?.replicateToken) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `## Server Configuration Error\n\nREPLICATE_API_TOKEN is not configured on the server.\n\nContact the server administrator.`,
+          },
+        ],
+      };
+    }
+
+    const { prediction_id } = parsed.data;
+
+    try {
+      logger.info('cancel_prediction', {
+        message: 'Cancelling prediction',
+        id: prediction_id,
+      });
+
+      const prediction = await cancelPrediction(prediction_id, context.replicateToken);
+
+      if (prediction.status !== 'succeeded') {
+        updateRecordedPrediction(context.sessionId, prediction);
+      }
+
+      if (prediction.status === 'succeeded' || prediction.status === 'failed') {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `## Prediction Already Finished
+
+Prediction ID: ${prediction.id}
+Status: ${prediction.status}
+
+Nothing to cancel. Call get_prediction to see the result.`,
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `## Prediction Cancelled
+
+Prediction ID: ${prediction.id}
+Status: ${prediction.status}`,
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('cancel_prediction', {
+        message: 'Failed to cancel prediction',
+        id: prediction_id,
+        error: (error as Error).message,
+      });
+
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `## Cancel Failed
+
+Prediction ID: ${prediction_id}
+Error: ${(error as Error).message}`,
+          },
+        ],
+      };
+    }
+  },
+};
@@ -0,0 +1,283 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { resolveConfig } from '../config/env.js';
+import { toolsMetadata } from '../config/metadata.js';
+import { ModelIdentifierSchema, strictSchema } from '../schemas/common.js';
+import { CompareModelsOutput } from '../schemas/outputs.js';
+import {
+  getModelInputSchema,
+  type ModelInputSchema,
+  resolveModelRef,
+} from '../services/api/replicate.service.js';
+import { runBatch } from '../services/batch-runner.js';
+import { enforceCostPolicy } from '../services/cost-policy.js';
+import { adaptCommonParams } from '../services/model-input.js';
+import { buildContactSheet } from '../services/output-content.js';
+import { estimateCost, formatCost } from '../services/pricing.js';
+import {
+  formatExpiryNote,
+  getOutputStorage,
+} from '../services/storage/output-storage.js';
+import type { ToolContentBlock } from '../shared/tools/types.js';
+import { base64EncodeBytes } from '../shared/utils/base64.js';
+import type { RequestContext } from '../types/context.js';
+import { logger } from '../utils/logger.js';
+import { createProgressReporter } from '../utils/progress.js';
+
+const CompareModelsInputSchema = strictSchema({
+  prompt: z
+    .string()
+    .min(1, 'Prompt cannot be empty')
+    .describe("Prompt to render with every model - use the user's exact words"),
+  models: z
+    .array(ModelIdentifierSchema)
+    .min(2, 'Provide at least two models to compare')
+    .max(6, 'Cannot compare more than 6 models at once')
+    .describe(
+      'Models to compare (2-6), e.g. ["black-forest-labs/flux-schnell", "black-forest-labs/flux-dev", "bytedance/seedream-4"]',
+    ),
+  aspect_ratio: z
+    .string()
+    .regex(/^\d+:\d+$/, 'Aspect ratio must look like "16:9"')
+    .optional()
+    .describe(
+      'Aspect ratio such as "1:1" or "16:9". Mapped per model to the closest supported ratio, or to width/height.',
+    ),
+  seed: z
+    .number()
+    .int()
+    .optional()
+    .describe('Seed for models that accept one, to make the comparison repeatable'),
+  contact_sheet: z
+    .boolean()
+    .optional()
+    .describe(
+      'Also return all results composited into one labelled grid image (default: false)',
+    ),
+});
+
+/**
+ * Fetch a model's input schema for parameter translation; undefined if unavailable.
+ */
+async function schemaFor(
+  model: string,
+  apiToken: string,
+  pins: Record<string, string>,
+): Promise<ModelInputSchema | undefined> {
+  try {
+    return await getModelInputSchema(resolveModelRef(model, pins), apiToken);
+  } catch (error) {
+    logger.warning('compare_models', {
+      message: 'Could not fetch model schema, passing parameters unchanged',
+      model,
+      error: (error as Error).message,
+    });
+    return undefined;
+  }
+}
+
+export const compareModelsTool = {
+  name: toolsMetadata.compare_models.name,
+  title: toolsMetadata.compare_models.title,
+  description: toolsMetadata.compare_models.description,
+  inputSchema: CompareModelsInputSchema,
+  outputSchema: CompareModelsOutput.shape,
+
+  handler: async (args: unknown, context?: RequestContext): Promise<CallToolResult> => {
+    const parsed = CompareModelsInputSchema.safeParse(args);
+
+    if (!parsed.success) {
+      const errorDetails = parsed.error.errors
+        .map((err) => `- ${err.path.join('.')}: ${err.message}`)
+        .join('\n');
+
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `## Invalid Input\n\n${errorDetails}`,
+          },
+        ],
+      };
+    }
+
+    // Check for Replicate token (server-side config)
+    if (!context?.replicateToken) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `## Server Configuration Error\n\nREPLICATE_API_TOKEN is not configured on the server.\n\nContact the server administrator.`,
+          },
+        ],
+      };
+    }
+
+    const { prompt, models, aspect_ratio, seed, contact_sheet = false } = parsed.data;
+    const { BATCH_CONCURRENCY, MODEL_VERSIONS, MODEL_PRICES } = resolveConfig();
+    const apiToken = context.replicateToken;
+
+    logger.info('compare_models', {
+      message: 'Comparing models',
+      models,
+      aspectRatio: aspect_ratio,
+      contactSheet: contact_sheet,
+    });
+
+    const reporter = context.client
+      ? createProgressReporter(context.client, context.meta?.progressToken)
+      : null;
+
+    // Translate the shared parameters into each model's own input
+    const adapted = await Promise.all(
+      models.map(async (model) =>
+        adaptCommonParams(
+          { prompt, aspect_ratio, seed },
+          await schemaFor(model, apiToken, MODEL_VERSIONS),
+        ),
+      ),
+    );
+
+    const jobs = models.map((model, index) => ({
+      model,
+      input: adapted[index].input,
+      label: model,
+    }));
+
+    // Expensive comparisons need the user's approval (COST_CONFIRM_THRESHOLD)
+    const cost = await enforceCostPolicy(jobs, context.client, 'compare_models');
+    if (!cost.allowed) {
+      return { isError: true, content: [{ type: 'text', text: cost.message }] };
+    }
+
+    const items = await runBatch(jobs, {
+      apiToken,
+      signal: context.signal,
+      pins: MODEL_VERSIONS,
+      concurrency: BATCH_CONCURRENCY,
+      sessionId: context.sessionId,
+      source: 'compare_models',
+      onJobDone: async (item, finished, total) => {
+        await reporter?.report(finished, total, `${item.model} ${item.status}`);
+      },
+    });
+
+    const estimates = items.map((item) =>
+      item.success
+        ? estimateCost(
+            item.model,
+            { outputCount: item.output?.length ?? 0, predictTime: item.predict_time },
+            MODEL_PRICES,
+          )
+        : null,
+    );
+
+    const results: CompareModelsOutput['results'] = items.map((item, index) => ({
+      model: item.model,
+      version: item.version,
+      status: item.status,
+      prediction_id: item.prediction_id,
+      input: adapted[index].input,
+      notes: adapted[index].notes,
+      output: item.output,
+      seed: item.seed,
+      predict_time: item.predict_time,
+      cost_estimate_usd: estimates[index]?.usd ?? null,
+      error: item.error,
+    }));
+
+    const rows = results.map((result, index) => {
+      const image = result.output?.[0]
+        ? `![${result.model}](${result.output[0]})`
+        : `✗ ${result.status}`;
+      const time =
+        result.predict_time !== null ? `${result.predict_time.toFixed(1)}s` : '-';
+      const cost = result.status === 'succeeded' ? formatCost(estimates[index]) : '-';
+      return `| ${index + 1}. ${result.model} | ${image} | ${time} | ${cost} |`;
+    });
+
+    const details = results
+      .filter((result) => result.notes.length > 0 || result.error)
+      .map((result) =>
+        [
+          `- **${result.model}**`,
+          ...result.notes.map((note) => `  - ${note}`),
+          ...(result.error ? [`  - Error: ${result.error}`] : []),
+        ].join('\n'),
+      );
+
+    const succeeded = items.filter((item) => item.success);
+
+    // Optional contact sheet: one labelled grid of each model's first image
+    const blocks: ToolContentBlock[] = [];
+    let contactSheetUrl: string | null = null;
+    let contactSheetNote = '';
+
+    if (contact_sheet && succeeded.length > 0) {
+      const sheet = await buildContactSheet(
+        succeeded.flatMap((item) =>
+          item.output?.[0] ? [{ url: item.output[0], label: item.model }] : [],
+        ),
+      );
+
+      if (sheet) {
+        blocks.push({
+          type: 'image',
+          data: base64EncodeBytes(sheet),
+          mimeType: 'image/jpeg',
+        });
+
+        const storage = getOutputStorage();
+        if (storage) {
+          try {
+            const key = `compare-${crypto.randomUUID()}/contact-sheet.jpg`;
+            await storage.put(key, sheet, 'image/jpeg');
+            contactSheetUrl = storage.urlFor(key);
+            contactSheetNote = `\n\nContact sheet: ${contactSheetUrl}`;
+          } catch (error) {
+            logger.warning('compare_models', {
+              message: 'Failed to store contact sheet',
+              error: (error as Error).message,
+            });
+          }
+        }
+      } else {
+        contactSheetNote =
+          '\n\nContact sheet unavailable (image processing is not installed on this server, or no image could be loaded).';
+      }
+    }
+
+    await reporter?.complete('Comparison complete');
+
+    logger.info('compare_models', {
+      message: 'Comparison complete',
+      succeeded: succeeded.length,
+      failed: items.length - succeeded.length,
+    });
+
+    const text = `## Model Comparison
+
+Prompt: "${prompt}"${aspect_ratio ? `\nAspect ratio: ${aspect_ratio}` : ''}${seed !== undefined ? `\nSeed: ${seed}` : ''}
+
+| Model | Image | Time | Est. cost |
+|-------|-------|------|-----------|
+${rows.join('\n')}${details.length > 0 ? `\n\n### Notes\n\n${details.join('\n')}` : ''}${contactSheetNote}
+
+---
+
+Display the table to the user. Costs are rough estimates, not billed amounts.
+${formatExpiryNote({ urls: succeeded.flatMap((item) => item.output ?? []), stored: succeeded.every((item) => item.stored) })}`;
+
+    return {
+      ...(succeeded.length === 0 && { isError: true }),
+      content: [{ type: 'text', text }, ...(blocks as CallToolResult['content'])],
+      structuredContent: {
+        prompt,
+        results,
+        contact_sheet_url: contactSheetUrl,
+      } satisfies CompareModelsOutput,
+    };
+  },
+};
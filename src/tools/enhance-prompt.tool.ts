@@ -0,0 +1,121 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { toolsMetadata } from '../config/metadata.js';
+import { ModelIdentifierSchema, strictSchema } from '../schemas/common.js';
+import { EnhancePromptOutput } from '../schemas/outputs.js';
+import { enhancePrompt, promptFamily } from '../services/prompt-enhancer.js';
+import type { RequestContext } from '../types/context.js';
+import { logger } from '../utils/logger.js';
+import { clientSupportsSampling } from '../utils/sampling.js';
+
+const EnhancePromptInputSchema = strictSchema({
+  prompt: z
+    .string()
+    .min(1, 'Prompt cannot be empty')
+    .max(2000, 'Prompt is too long')
+    .describe("The user's prompt to expand"),
+  model: ModelIdentifierSchema.optional().describe(
+    'Model the prompt is for, e.g. "black-forest-labs/flux-dev" - selects the prompt style (FLUX, SDXL, Seedream). Default: a general style.',
+  ),
+});
+
+export const enhancePromptTool = {
+  name: toolsMetadata.enhance_prompt.name,
+  title: toolsMetadata.enhance_prompt.title,
+  description: toolsMetadata.enhance_prompt.description,
+  inputSchema: EnhancePromptInputSchema,
+  outputSchema: EnhancePromptOutput.shape,
+
+  handler: async (args: unknown, context?: RequestContext): Promise<CallToolResult> => {
+    const parsed = EnhancePromptInputSchema.safeParse(args);
+
+    if (!parsed.success) {
+      const errorDetails = parsed.error.errors
+        .map((err) => `- ${err.path.join('.')}: ${err.message}`)
+        .join('\n');
+
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `## Invalid Input\n\n${errorDetails}`,
+          },
+        ],
+      };
+    }
+
+    const { prompt, model = 'any text-to-image model' } = parsed.data;
+    const client = context?.client;
+
+    if (!client || !clientSupportsSampling(client)) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `## Sampling Not Supported
+
+This client doesn't support MCP sampling, so the server can't ask its LLM to rewrite the prompt.
+
+Alternatives:
+- Call generate_image with enhance_prompt: true - models with their own enhance_prompt option (e.g. bytedance/seedream-4) rewrite it themselves
+- Write the detailed prompt yourself, if the user asked for it`,
+          },
+        ],
+      };
+    }
+
+    try {
+      const family = promptFamily(model);
+      const result = await enhancePrompt(client, prompt, model);
+
+      logger.info('enhance_prompt', {
+        message: 'Prompt enhanced',
+        family,
+        sampledBy: result.sampledBy,
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `## Prompt Enhanced
+
+Original prompt: "${prompt}"
+Enhanced prompt: "${result.prompt}"
+Style: ${family}
+
+Show both prompts to the user. To generate, call generate_image with the enhanced prompt.`,
+          },
+        ],
+        structuredContent: {
+          original: prompt,
+          enhanced: result.prompt,
+          family,
+          sampled_by: result.sampledBy,
+        } satisfies EnhancePromptOutput,
+      };
+    } catch (error) {
+      logger.error('enhance_prompt', {
+        message: 'Enhancement failed',
+        error: (error as Error).message,
+      });
+
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `## Enhancement Failed
+
+Original prompt: "${prompt}"
+Error: ${(error as Error).message}
+
+The user may have declined the sampling request. Use the original prompt, or ask the user how to proceed.`,
+          },
+        ],
+      };
+    }
+  },
+};
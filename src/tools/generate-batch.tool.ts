@@ -0,0 +1,187 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { resolveConfig } from '../config/env.js';
+import { toolsMetadata } from '../config/metadata.js';
+import { ModelIdentifierSchema, strictSchema } from '../schemas/common.js';
+import { GenerateBatchOutput } from '../schemas/outputs.js';
+import { type BatchItem, runBatch } from '../services/batch-runner.js';
+import { enforceCostPolicy } from '../services/cost-policy.js';
+import { formatExpiryNote } from '../services/storage/output-storage.js';
+import type { RequestContext } from '../types/context.js';
+import { formatImageMarkdown, summarizeBatch } from '../utils/formatting.js';
+import { logger } from '../utils/logger.js';
+import { createProgressReporter } from '../utils/progress.js';
+
+const MAX_JOBS = 10;
+
+const GenerateBatchInputSchema = strictSchema({
+  jobs: z
+    .array(
+      z
+        .object({
+          model: ModelIdentifierSchema,
+          input: z
+            .record(z.any())
+            .describe('Model input as JSON object (same as generate_image input)'),
+          label: z
+            .string()
+            .max(100)
+            .optional()
+            .describe(
+              'Optional short label to identify the job in the report (e.g., "flux - sunset")',
+            ),
+        })
+        .strict(),
+    )
+    .min(1, 'Must provide at least one job')
+    .max(MAX_JOBS, `Cannot run more than ${MAX_JOBS} jobs at once`)
+    .describe(
+      `Predictions to run (1-${MAX_JOBS}). Use several models with the same input to compare them, or one model with several prompts.`,
+    ),
+});
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+const jobTitle = (item: BatchItem) => `${item.index + 1}. ${item.label ?? item.model}`;
+
+export const generateBatchTool = {
+  name: toolsMetadata.generate_batch.name,
+  title: toolsMetadata.generate_batch.title,
+  description: toolsMetadata.generate_batch.description,
+  inputSchema: GenerateBatchInputSchema,
+  outputSchema: GenerateBatchOutput.shape,
+
+  handler: async (args: unknown, context?: RequestContext): Promise<CallToolResult> => {
+    const parsed = GenerateBatchInputSchema.safeParse(args);
+
+    if (!parsed.success) {
+      const errorDetails = parsed.error.errors
+        .map((err) => `- ${err.path.join('.')}: ${err.message}`)
+        .join('\n');
+
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `## Invalid Input\n\n${errorDetails}\n\nTip: Use get_model to see the correct input schema for each model.`,
+          },
+        ],
+      };
+    }
+
+    // Check for Replicate token (server-side config)
+    if (!context?.replicateToken) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `## Server Configuration Error\n\nREPLICATE_API_TOKEN is not configured on the server.\n\nContact the server administrator.`,
+          },
+        ],
+      };
+    }
+
+    const { jobs } = parsed.data;
+    const { BATCH_CONCURRENCY, MODEL_VERSIONS } = resolveConfig();
+    const signal = context.signal;
+
+    // Expensive batches need the user's approval (COST_CONFIRM_THRESHOLD)
+    const cost = await enforceCostPolicy(jobs, context.client, 'generate_batch');
+    if (!cost.allowed) {
+      return { isError: true, content: [{ type: 'text', text: cost.message }] };
+    }
+
+    const startedAt = Date.now();
+
+    logger.info('generate_batch', {
+      message: 'Starting batch',
+      jobs: jobs.length,
+      concurrency: BATCH_CONCURRENCY,
+    });
+
+    const reporter = context.client
+      ? createProgressReporter(context.client, context.meta?.progressToken)
+      : null;
+
+    // Cancelling the request aborts the shared signal: running predictions are
+    // cancelled on Replicate and queued jobs are skipped
+    const results = await runBatch(jobs, {
+      apiToken: context.replicateToken,
+      signal,
+      pins: MODEL_VERSIONS,
+      concurrency: BATCH_CONCURRENCY,
+      sessionId: context.sessionId,
+      source: 'generate_batch',
+      onJobDone: async (_item, finished, total) => {
+        await reporter?.report(finished, total, `${finished}/${total} jobs finished`);
+      },
+    });
+
+    const duration_ms = Date.now() - startedAt;
+    const succeeded = results.filter((item) => item.success);
+    const cancelled = Boolean(signal?.aborted);
+
+    logger.info('generate_batch', {
+      message: cancelled ? 'Batch cancelled' : 'Batch complete',
+      succeeded: succeeded.length,
+      failed: results.length - succeeded.length,
+      durationMs: duration_ms,
+    });
+
+    const report = summarizeBatch(results, {
+      operationName: 'Batch Generation',
+      successFormatter: (item) => `#### ${jobTitle(item)}
+
+Model: ${item.model}${item.version ? `\nVersion: ${item.version}` : ''}${item.seed !== null ? `\nSeed: ${item.seed}` : ''}
+Prediction ID: ${item.prediction_id}
+Time: ${formatSeconds(item.duration_ms)}${item.predict_time !== null ? ` (model run ${item.predict_time.toFixed(1)}s)` : ''}
+
+${formatImageMarkdown(item.output ?? [])}
+`,
+      errorFormatter: (item) => `#### ${jobTitle(item)} (${item.status})
+
+Model: ${item.model}
+Error: ${item.error ?? 'Unknown error'}
+`,
+    });
+
+    const notes = [
+      `Total time: ${formatSeconds(duration_ms)} (up to ${BATCH_CONCURRENCY} at once)`,
+      ...(cancelled
+        ? [
+            'The batch was cancelled - running predictions were stopped and queued jobs skipped.',
+          ]
+        : []),
+      ...(succeeded.length > 0
+        ? [
+            'Display the images to the user using the markdown above.',
+            formatExpiryNote({
+              urls: succeeded.flatMap((item) => item.output ?? []),
+              stored: succeeded.every((item) => item.stored),
+            }),
+          ]
+        : []),
+    ];
+
+    await reporter?.complete(cancelled ? 'Cancelled' : 'Batch complete');
+
+    const structured: GenerateBatchOutput = {
+      results: results.map(({ success: _success, ...item }) => item),
+      succeeded: succeeded.length,
+      failed: results.length - succeeded.length,
+      duration_ms,
+    };
+
+    return {
+      ...((cancelled || succeeded.length === 0) && { isError: true }),
+      content: [
+        {
+          type: 'text',
+          text: `${report.trimEnd()}\n\n---\n\n${notes.join('\n\n')}`,
+        },
+      ],
+      structuredContent: structured,
+    };
+  },
+};
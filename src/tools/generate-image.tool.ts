@@ -1,19 +1,54 @@
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
+import { resolveConfig } from '../config/env.js';
 import { toolsMetadata } from '../config/metadata.js';
-import { strictSchema } from '../schemas/common.js';
-import { runPrediction } from '../services/api/replicate.service.js';
+import { ModelIdentifierSchema, strictSchema } from '../schemas/common.js';
+import { GenerateImageOutput } from '../schemas/outputs.js';
+import {
+  createPrediction,
+  extractSeed,
+  formatModelRef,
+  type ModelRef,
+  type PredictionResult,
+  parseLogProgress,
+  resolveModelRef,
+  runPrediction,
+} from '../services/api/replicate.service.js';
+import { enforceCostPolicy } from '../services/cost-policy.js';
+import { canElicitInput, elicitModelInput } from '../services/input-elicitation.js';
+import {
+  checkModelInput,
+  formatInputIssues,
+  formatSchemaParameters,
+} from '../services/model-input.js';
+import { buildOutputContent } from '../services/output-content.js';
+import { isTerminalStatus, recordPrediction, toPredictionRecord } from '../services/prediction-history.js';
+import { markAwaited } from '../services/prediction-watcher.js';
+import { applyPromptEnhancement, type PromptEnhancement } from '../services/prompt-enhancer.js';
+import {
+  describeSavedFiles,
+  resolveSaveTarget,
+  type SavedFile,
+  type SaveTarget,
+  saveOutputs,
+} from '../services/root-files.js';
+import {
+  formatExpiryNote,
+  type PersistedOutputs,
+  persistOutputs,
+} from '../services/storage/output-storage.js';
 import type { RequestContext } from '../types/context.js';
+import { formatImageMarkdown } from '../utils/formatting.js';
 import { logger } from '../utils/logger.js';
+import { createProgressReporter, type ProgressReporter } from '../utils/progress.js';
 
 const GenerateImageInputSchema = strictSchema({
-  model: z
-    .string()
-    .min(1, 'Model cannot be empty')
-    .regex(/^[^/]+\/[^/]+$/, 'Model must be in format "owner/name" (e.g., "black-forest-labs/flux-schnell")')
-    .describe('Full model identifier in format "owner/name" (e.g., "black-forest-labs/flux-schnell"). Use search_models if unsure.'),
+  model: ModelIdentifierSchema
+    .optional()
+    .describe('Model identifier "owner/name" (e.g., "black-forest-labs/flux-schnell"), "owner/name:version" to pin a version, or a bare version ID. Required unless the client supports elicitation - then omit it to let the user pick the model and its parameters in a form.'),
   input: z
     .record(z.any())
+    .optional()
     .describe(`Model input as JSON object. Key fields by task:
 
 TEXT-TO-IMAGE:
@@ -26,13 +61,143 @@ MULTI-REFERENCE:
   { "prompt": "description", "image_input": ["https://url1", "https://url2"] }
 
 Use search_models to find exact schema if unsure - parameters vary by model.`),
+  wait: z
+    .boolean()
+    .optional()
+    .describe('Wait for the prediction to finish (default: true). Set to false for slow models (flux-dev, video) to get a prediction ID immediately, then poll with get_prediction.'),
+  enhance_prompt: z
+    .boolean()
+    .optional()
+    .describe('Expand input.prompt into a detailed, model-appropriate prompt before generating (default: false). Only set when the user asks for a better/more detailed prompt - otherwise use their words exactly.'),
+  output_mode: z
+    .enum(['markdown', 'image', 'resource_link', 'all'])
+    .optional()
+    .describe('How to return results: "markdown" (image URLs in text), "image" (inline image content), "resource_link" (file links), or "all". Defaults to the server setting (usually "markdown").'),
+  save_to: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Also save the images into a folder on the user\'s machine: a path relative to the client\'s first root (e.g. "images/cats"), or an absolute path inside a root. Requires a client that exposes roots; not available with wait: false.'),
 });
 
+function invalidInputResult(errorDetails: string): CallToolResult {
+  return {
+    isError: true,
+    content: [{
+      type: 'text',
+      text: `## Invalid Input\n\n${errorDetails}\n\nTip: Use search_models to see the correct input schema for your model.`,
+    }],
+  };
+}
+
+function cancelledResult(): CallToolResult {
+  return {
+    isError: true,
+    content: [{
+      type: 'text',
+      text: `## Generation Cancelled
+
+The prediction was cancelled before completion.`,
+    }],
+  };
+}
+
+/**
+ * Map prediction updates to progress notifications.
+ * Status transitions (starting → processing) and the step percentage from the
+ * model's logs are reported as a 0-1 fraction; only increases are sent.
+ */
+function trackPredictionProgress(reporter: ProgressReporter) {
+  let lastProgress = 0;
+
+  return async (prediction: PredictionResult): Promise<void> => {
+    const stepProgress = parseLogProgress(prediction.logs);
+    const progress = prediction.status === 'starting'
+      ? 0.05
+      : 0.1 + 0.85 * (stepProgress ?? 0);
+
+    if (progress <= lastProgress) return;
+    lastProgress = progress;
+
+    const message = prediction.status === 'starting'
+      ? 'Starting (model is booting)'
+      : stepProgress !== undefined
+        ? `Processing (${Math.round(stepProgress * 100)}%)`
+        : 'Processing';
+
+    await reporter.report(progress, 1, message);
+  };
+}
+
+/**
+ * "Model: …", "Version: …" and "Seed: …" lines for a prediction - always report
+ * what is needed to reproduce it.
+ */
+function describeRun(prediction: PredictionResult, ref: ModelRef): string {
+  const version = prediction.version ?? ref.version;
+  const seed = extractSeed(prediction);
+  const versionLine = version
+    ? `\nVersion: ${version}${ref.pinned ? ' (pinned by server config)' : ''}`
+    : '';
+  const seedLine = seed !== null ? `\nSeed: ${seed}` : '';
+  return `Model: ${prediction.model || ref.model || 'unknown'}${versionLine}${seedLine}`;
+}
+
+/**
+ * "Original prompt: …" and "Enhanced prompt: …" lines, when enhancement was requested.
+ */
+function describeEnhancement(enhancement: PromptEnhancement | undefined): string {
+  if (!enhancement) return '';
+
+  const enhanced = enhancement.method === 'sampling'
+    ? `"${enhancement.enhanced}"`
+    : enhancement.method === 'model'
+      ? 'rewritten by the model itself (enhance_prompt: true)'
+      : 'not available';
+  const note = enhancement.note ? `\nNote: ${enhancement.note}` : '';
+  return `\nOriginal prompt: "${enhancement.original}"\nEnhanced prompt: ${enhanced}${note}`;
+}
+
+/**
+ * Build structuredContent (GenerateImageOutput) for a prediction.
+ */
+function toStructuredOutput(
+  prediction: PredictionResult,
+  ref: ModelRef,
+  outputs?: PersistedOutputs,
+  enhancement?: PromptEnhancement,
+  savedFiles?: SavedFile[],
+): GenerateImageOutput {
+  return {
+    id: prediction.id,
+    model: prediction.model || ref.model || formatModelRef(ref),
+    version: prediction.version ?? ref.version ?? null,
+    status: prediction.status,
+    output: outputs?.urls ?? prediction.output,
+    stored: outputs?.stored ?? false,
+    error: prediction.error,
+    seed: extractSeed(prediction),
+    ...(prediction.input && { input: prediction.input }),
+    ...(prediction.metrics && { metrics: { predict_time: prediction.metrics.predict_time } }),
+    ...(enhancement && {
+      prompt_enhancement: {
+        original: enhancement.original,
+        enhanced: enhancement.enhanced,
+        method: enhancement.method,
+      },
+    }),
+    ...(savedFiles && {
+      saved_files: savedFiles.map(({ uri, path, source, written }) => ({ uri, path, source, written })),
+    }),
+  };
+}
+
 export const generateImageTool = {
   name: toolsMetadata.generate_image.name,
   title: toolsMetadata.generate_image.title,
   description: toolsMetadata.generate_image.description,
   inputSchema: GenerateImageInputSchema,
+  outputSchema: GenerateImageOutput.shape,
 
   handler: async (args: unknown, context?: RequestContext): Promise<CallToolResult> => {
     const parsed = GenerateImageInputSchema.safeParse(args);
@@ -42,13 +207,18 @@ export const generateImageTool = {
         .map((err) => `- ${err.path.join('.')}: ${err.message}`)
         .join('\n');
 
-      return {
-        isError: true,
-        content: [{
-          type: 'text',
-          text: `## Invalid Input\n\n${errorDetails}\n\nTip: Use search_models to see the correct input schema for your model.`,
-        }],
-      };
+      return invalidInputResult(errorDetails);
+    }
+
+    // Model and input can only be left out when the user can be asked for them
+    const client = context?.client;
+    const interactive = canElicitInput(client);
+    if (!interactive && (!parsed.data.model || !parsed.data.input)) {
+      const missing = [
+        !parsed.data.model && '- model: Required',
+        !parsed.data.input && '- input: Required',
+      ].filter(Boolean);
+      return invalidInputResult(missing.join('\n'));
     }
 
     // Check for Replicate token (server-side config)
@@ -62,10 +232,92 @@ export const generateImageTool = {
       };
     }
 
-    const { model, input } = parsed.data;
+    const { wait = true, output_mode, enhance_prompt = false, save_to } = parsed.data;
+    let model = parsed.data.model;
+    let input = parsed.data.input ?? {};
+
+    // Let the user pick the model and fill in its parameters
+    if (interactive && (!model || !parsed.data.input)) {
+      let elicited: Awaited<ReturnType<typeof elicitModelInput>>;
+      try {
+        elicited = await elicitModelInput(client, { model, input }, context.replicateToken);
+      } catch (error) {
+        logger.error('generate_image', {
+          message: 'Elicitation failed',
+          error: (error as Error).message,
+        });
+        return {
+          isError: true,
+          content: [{
+            type: 'text',
+            text: `## Elicitation Failed
+
+Could not ask the user for the model settings: ${(error as Error).message}
+
+Call generate_image with "model" and "input" instead.`,
+          }],
+        };
+      }
+
+      if (!elicited) {
+        return {
+          isError: true,
+          content: [{
+            type: 'text',
+            text: `## Generation Cancelled
+
+The user dismissed the form. Nothing was generated.
+Ask the user which model and settings they want, then call generate_image with "model" and "input".`,
+          }],
+        };
+      }
+
+      ({ model, input } = elicited);
+      logger.info('generate_image', { message: 'Input collected via elicitation', model });
+    }
+
+    if (!model) {
+      return invalidInputResult('- model: Required');
+    }
+
+    if (enhance_prompt && (typeof input.prompt !== 'string' || !input.prompt.trim())) {
+      return invalidInputResult('- input.prompt: Required when enhance_prompt is true');
+    }
+
+    if (save_to && !wait) {
+      return invalidInputResult('- save_to: Not available with wait: false - call save_image once the prediction has succeeded');
+    }
+
+    const ref = resolveModelRef(model, resolveConfig().MODEL_VERSIONS);
+
+    // Validate against the model's schema before paying for a prediction
+    const checked = await checkModelInput(ref, input, context.replicateToken);
+
+    if (checked.schema) {
+      if (checked.issues.length > 0) {
+        logger.info('generate_image', {
+          message: 'Input failed schema validation',
+          model,
+          issues: checked.issues.length,
+        });
+
+        return {
+          isError: true,
+          content: [{
+            type: 'text',
+            text: `## Invalid Input for ${formatModelRef(ref)}
+
+${formatInputIssues(checked.issues)}
 
-    // Validate that input has at least a prompt for most models
-    if (!input.prompt && !input.image) {
+Accepted parameters:
+${formatSchemaParameters(checked.schema)}`,
+          }],
+        };
+      }
+
+      input = checked.input;
+    } else if (!input.prompt && !input.image) {
+      // Without a schema, check that input has at least a prompt for most models
       return {
         isError: true,
         content: [{
@@ -87,15 +339,118 @@ Use search_models to see the exact requirements for "${model}".`,
       };
     }
 
+    // Opt-in prompt rewriting (client LLM via sampling, or the model's own option)
+    let enhancement: PromptEnhancement | undefined;
+    if (enhance_prompt) {
+      ({ input, enhancement } = await applyPromptEnhancement(
+        context.client,
+        ref.model ?? model,
+        input,
+        checked.schema,
+      ));
+      logger.info('generate_image', { message: 'Prompt enhancement', method: enhancement.method });
+    }
+
+    // Resolve save_to before paying for a prediction
+    let saveTarget: SaveTarget | undefined;
+    if (save_to) {
+      try {
+        saveTarget = await resolveSaveTarget(context.client, save_to);
+      } catch (error) {
+        return {
+          isError: true,
+          content: [{
+            type: 'text',
+            text: `## Cannot Save To "${save_to}"
+
+${(error as Error).message}
+
+Nothing was generated. Call generate_image without save_to, or with a path inside the client's roots.`,
+          }],
+        };
+      }
+    }
+
+    // Expensive runs need the user's approval (COST_CONFIRM_THRESHOLD)
+    const cost = await enforceCostPolicy([{ model: ref.model ?? model, input }], context.client, 'generate_image');
+    if (!cost.allowed) {
+      return { isError: true, content: [{ type: 'text', text: cost.message }] };
+    }
+
+    // Every prediction that starts is kept in the session's history (list_predictions)
+    const startedAt = Date.now();
+    const remember = (prediction: PredictionResult, output?: string[]) =>
+      recordPrediction(context.sessionId, toPredictionRecord(prediction, {
+        model: ref.model ?? formatModelRef(ref),
+        source: 'generate_image',
+        input,
+        startedAt,
+        output,
+      }));
+    // Set while runPrediction polls: resource watchers leave the prediction to it
+    let release: (() => void) | undefined;
+
     try {
       logger.info('generate_image', { 
         message: 'Starting generation', 
-        model, 
+        model: formatModelRef(ref), 
+        pinned: ref.pinned ?? false,
         hasPrompt: !!input.prompt,
         hasImage: !!input.image || !!input.image_input,
+        wait,
       });
 
-      const prediction = await runPrediction(model, input, context.replicateToken);
+      if (!wait) {
+        const started = await createPrediction(ref, input, context.replicateToken);
+        remember(started);
+
+        logger.info('generate_image', { 
+          message: 'Prediction started (async)', 
+          model, 
+          id: started.id,
+          status: started.status,
+        });
+
+        return {
+          content: [{
+            type: 'text',
+            text: `## Prediction Started
+
+${describeRun(started, ref)}${describeEnhancement(enhancement)}
+Prediction ID: ${started.id}
+Status: ${started.status}
+
+Call get_prediction with prediction_id "${started.id}" to check progress and get the images.
+Call cancel_prediction with the same ID to abort it.`,
+          }],
+          structuredContent: toStructuredOutput(started, ref, undefined, enhancement),
+        };
+      }
+
+      if (context.signal?.aborted) {
+        return cancelledResult();
+      }
+
+      const reporter = context.client
+        ? createProgressReporter(context.client, context.meta?.progressToken)
+        : null;
+
+      const trackProgress = reporter ? trackPredictionProgress(reporter) : undefined;
+
+      const prediction = await runPrediction(ref, input, context.replicateToken, {
+        signal: context.signal,
+        onUpdate: async (update) => {
+          release ??= markAwaited(update.id);
+          // In-flight states go to the history right away (resource subscribers);
+          // the final state is recorded below, with stored output URLs
+          if (!isTerminalStatus(update.status)) remember(update);
+          await trackProgress?.(update);
+        },
+      });
+
+      if (prediction.status !== 'succeeded') {
+        remember(prediction);
+      }
 
       if (prediction.status === 'failed') {
         const errorMsg = prediction.error || 'Unknown error';
@@ -110,12 +465,12 @@ Use search_models to see the exact requirements for "${model}".`,
             text: isRateLimit 
               ? `## Rate Limit Exceeded
 
-Model: ${model}
+${describeRun(prediction, ref)}
 
 The Replicate API rate limit has been reached. Please wait a moment before trying again.`
               : `## Generation Failed
 
-Model: ${model}
+${describeRun(prediction, ref)}${describeEnhancement(enhancement)}
 Error: ${errorMsg}
 
 Suggestions:
@@ -124,55 +479,81 @@ Suggestions:
 - Try a simpler prompt
 - Use search_models to verify input schema`,
           }],
+          structuredContent: toStructuredOutput(prediction, ref, undefined, enhancement),
         };
       }
 
       if (prediction.status === 'canceled') {
-        return {
-          isError: true,
-          content: [{
-            type: 'text',
-            text: `## Generation Cancelled
-
-The prediction was cancelled before completion.`,
-          }],
-        };
+        return cancelledResult();
       }
 
       // Success
-      const outputUrls = prediction.output || [];
+      const outputs = await persistOutputs(prediction.id, prediction.output || []);
+      remember(prediction, outputs.urls);
       const timeInfo = prediction.metrics?.predict_time 
         ? ` in ${prediction.metrics.predict_time.toFixed(1)}s`
         : '';
 
-      const markdownImages = outputUrls
-        .map((url, i) => outputUrls.length > 1 
-          ? `Image ${i + 1}: ![Generated image ${i + 1}](${url})` 
-          : `![Generated image](${url})`)
-        .join('\n\n');
+      // Read config at call time - Workers populate process.env per request
+      const { OUTPUT_MODE, IMAGE_MAX_DIMENSION } = resolveConfig();
+      const mode = output_mode ?? OUTPUT_MODE;
+      const outputBlocks = await buildOutputContent(outputs.urls, mode, {
+        maxDimension: IMAGE_MAX_DIMENSION,
+      });
+
+      const savedFiles = saveTarget
+        ? await saveOutputs(saveTarget, {
+            urls: outputs.urls,
+            prompt: enhancement?.original ?? (typeof input.prompt === 'string' ? input.prompt : undefined),
+            predictionId: prediction.id,
+          })
+        : undefined;
+      const saved = savedFiles ? describeSavedFiles(savedFiles) : undefined;
+
+      await reporter?.complete('Succeeded');
 
       logger.info('generate_image', { 
         message: 'Generation complete', 
-        model, 
-        outputCount: outputUrls.length,
+        model: formatModelRef(ref), 
+        version: prediction.version,
+        outputCount: outputs.urls.length,
+        stored: outputs.stored,
         predictTime: prediction.metrics?.predict_time,
       });
 
-      return {
-        content: [{
-          type: 'text',
-          text: `## Image Generated${timeInfo}
-
-Model: ${model}
+      const summary = mode === 'markdown' || mode === 'all'
+        ? `Display the image to the user using markdown syntax:
 
-Display the image to the user using markdown syntax:
+${formatImageMarkdown(outputs.urls)}`
+        : `${mode === 'image' ? 'The generated image is attached below.' : 'The generated files are linked below.'}
 
-${markdownImages}
+Source URLs:
+${outputs.urls.map((url) => `- ${url}`).join('\n')}`;
 
-Note: URLs expire in 1 hour.`,
-        }],
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `## Image Generated${timeInfo}
+
+${describeRun(prediction, ref)}${describeEnhancement(enhancement)}
+Prediction ID: ${prediction.id}
+
+${summary}
+${saved ? `\n${saved.text}\n` : ''}
+${formatExpiryNote(outputs)}
+To iterate on this result (new prompt, different seed), call reproduce_prediction with this prediction ID.`,
+          },
+          ...(outputBlocks as CallToolResult['content']),
+          ...((saved?.links ?? []) as CallToolResult['content']),
+        ],
+        structuredContent: toStructuredOutput(prediction, ref, outputs, enhancement, savedFiles),
       };
     } catch (error) {
+      if (context.signal?.aborted) {
+        return cancelledResult();
+      }
+
       logger.error('generate_image', { 
         message: 'Generation failed', 
         model, 
@@ -191,12 +572,12 @@ Note: URLs expire in 1 hour.`,
           text: isRateLimit 
             ? `## Rate Limit Exceeded
 
-Model: ${model}
+Model: ${formatModelRef(ref)}
 
 The Replicate API rate limit has been reached. Please wait a moment before trying again.`
             : `## Generation Failed
 
-Model: ${model}
+Model: ${formatModelRef(ref)}
 Error: ${errorMsg}
 
 Common issues:
@@ -206,6 +587,8 @@ Common issues:
 - Rate limit exceeded`,
         }],
       };
+    } finally {
+      release?.();
     }
   },
 };
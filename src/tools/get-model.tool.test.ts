@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { RequestContext } from '../types/context.js';
+import { createCancellationToken } from '../utils/cancellation.js';
+import { getModelTool } from './get-model.tool.js';
+
+const LATEST = 'a'.repeat(64);
+const PINNED = 'b'.repeat(64);
+
+const openapiSchema = (steps: number) => ({
+  components: {
+    schemas: {
+      Input: {
+        required: ['prompt'],
+        properties: {
+          prompt: { type: 'string', description: 'Text prompt', 'x-order': 0 },
+          steps: {
+            type: 'integer',
+            minimum: 1,
+            maximum: steps,
+            default: 4,
+            'x-order': 1,
+          },
+        },
+      },
+      Output: { type: 'array', items: { type: 'string', format: 'uri' } },
+    },
+  },
+});
+
+const originalFetch = globalThis.fetch;
+let requests: string[];
+let versionsStatus: number;
+
+const context = (): RequestContext => ({
+  sessionId: 'session-1',
+  replicateToken: `r8_get_model_${crypto.randomUUID()}`,
+  cancellationToken: createCancellationToken(),
+  timestamp: Date.now(),
+});
+
+/** Text of a tool result's first content block */
+const textOf = (result: CallToolResult) => {
+  const [block] = result.content;
+  return block?.type === 'text' ? block.text : '';
+};
+
+beforeEach(() => {
+  requests = [];
+  versionsStatus = 200;
+  globalThis.fetch = (async (url: string) => {
+    const path = new URL(url).pathname;
+    requests.push(path);
+
+    if (path === '/v1/models/acme/painter') {
+      return Response.json({
+        owner: 'acme',
+        name: 'painter',
+        description: 'Paints pictures',
+        visibility: 'public',
+        run_count: 1234,
+        url: 'https://replicate.com/acme/painter',
+        cover_image_url: null,
+        latest_version: { id: LATEST, openapi_schema: openapiSchema(8) },
+        default_example: { input: { prompt: 'a lighthouse' }, output: ['x.png'] },
+      });
+    }
+    if (path === '/v1/models/acme/painter/versions') {
+      return versionsStatus === 200
+        ? Response.json({
+            results: [
+              { id: LATEST, created_at: '2026-10-01T00:00:00Z', cog_version: '0.9.0' },
+              { id: PINNED, created_at: '2026-09-01T00:00:00Z', cog_version: null },
+            ],
+          })
+        : new Response('Forbidden', { status: versionsStatus });
+    }
+    if (path === `/v1/models/acme/painter/versions/${PINNED}`) {
+      return Response.json({ id: PINNED, openapi_schema: openapiSchema(50) });
+    }
+    return new Response('Not found', { status: 404 });
+  }) as typeof fetch;
+});
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+describe('get_model', () => {
+  test('returns the latest schema, example and versions', async () => {
+    const result = await getModelTool.handler({ model: 'acme/painter' }, context());
+
+    expect(result.isError).toBeUndefined();
+    expect(textOf(result)).toContain('- **prompt** [REQUIRED]: string');
+    expect(textOf(result)).toContain('Range: 1 to 8');
+    expect(textOf(result)).toContain(`- ${LATEST} (2026-10-01) ← shown above`);
+    expect(result.structuredContent).toMatchObject({
+      owner: 'acme',
+      name: 'painter',
+      version_id: LATEST,
+      default_example: { input: { prompt: 'a lighthouse' } },
+      versions: [{ id: LATEST }, { id: PINNED }],
+    });
+    // The model response carries the latest version's schema
+    expect(requests).not.toContain(`/v1/models/acme/painter/versions/${LATEST}`);
+  });
+
+  test('shows the schema of a requested version', async () => {
+    const result = await getModelTool.handler(
+      { model: `acme/painter:${PINNED}` },
+      context(),
+    );
+
+    expect(textOf(result)).toContain(`Version: ${PINNED} (pinned)`);
+    expect(textOf(result)).toContain('Range: 1 to 50');
+    expect(requests).toContain(`/v1/models/acme/painter/versions/${PINNED}`);
+  });
+
+  test('still answers when versions cannot be listed', async () => {
+    versionsStatus = 403;
+    const result = await getModelTool.handler({ model: 'acme/painter' }, context());
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toMatchObject({ versions: [] });
+    expect(textOf(result)).not.toContain('### Recent Versions');
+  });
+
+  test('reports unknown models', async () => {
+    const result = await getModelTool.handler({ model: 'acme/missing' }, context());
+
+    expect(result.isError).toBe(true);
+  });
+});
@@ -0,0 +1,212 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { toolsMetadata } from '../config/metadata.js';
+import { strictSchema } from '../schemas/common.js';
+import { GetModelOutput } from '../schemas/outputs.js';
+import {
+  getModelInfo,
+  listModelVersions,
+  type ModelInputSchema,
+  type ModelVersionSummary,
+} from '../services/api/replicate.service.js';
+import type { RequestContext } from '../types/context.js';
+import { logger } from '../utils/logger.js';
+
+const GetModelInputSchema = strictSchema({
+  model: z
+    .string()
+    .min(1, 'Model cannot be empty')
+    .regex(
+      /^[^/:]+\/[^/:]+(:[a-zA-Z0-9]+)?$/,
+      'Model must be in format "owner/name" or "owner/name:version"',
+    )
+    .describe(
+      'Model identifier "owner/name" (e.g., "black-forest-labs/flux-schnell"), optionally with ":version" to get a specific version\'s schema',
+    ),
+  refresh: z
+    .boolean()
+    .optional()
+    .describe(
+      'Bypass the cache and fetch fresh details from Replicate (default: false)',
+    ),
+});
+
+/**
+ * Format every input parameter with its description and constraints.
+ */
+function formatParameters(schema: ModelInputSchema): string {
+  return Object.entries(schema.properties)
+    .sort(([, a], [, b]) => (a['x-order'] ?? 0) - (b['x-order'] ?? 0))
+    .map(([name, prop]) => {
+      const lines = [
+        `- **${name}**${schema.required.includes(name) ? ' [REQUIRED]' : ''}: ${prop.type}${prop.format ? ` (${prop.format})` : ''}`,
+      ];
+
+      if (prop.description) lines.push(`  ${prop.description}`);
+      if (prop.enum?.length)
+        lines.push(`  Allowed: ${prop.enum.map((v) => JSON.stringify(v)).join(', ')}`);
+      if (prop.minimum !== undefined || prop.maximum !== undefined) {
+        lines.push(`  Range: ${prop.minimum ?? '…'} to ${prop.maximum ?? '…'}`);
+      }
+      if (prop.default !== undefined)
+        lines.push(`  Default: ${JSON.stringify(prop.default)}`);
+
+      return lines.join('\n');
+    })
+    .join('\n');
+}
+
+function formatVersions(
+  versions: ModelVersionSummary[],
+  current: string | null,
+): string {
+  return versions
+    .map(
+      (v) =>
+        `- ${v.id} (${v.created_at.slice(0, 10)})${v.id === current ? ' ← shown above' : ''}`,
+    )
+    .join('\n');
+}
+
+export const getModelTool = {
+  name: toolsMetadata.get_model.name,
+  title: toolsMetadata.get_model.title,
+  description: toolsMetadata.get_model.description,
+  inputSchema: GetModelInputSchema,
+  outputSchema: GetModelOutput.shape,
+
+  handler: async (args: unknown, context?: RequestContext): Promise<CallToolResult> => {
+    const parsed = GetModelInputSchema.safeParse(args);
+
+    if (!parsed.success) {
+      const errorDetails = parsed.error.errors
+        .map((err) => `- ${err.path.join('.')}: ${err.message}`)
+        .join('\n');
+
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `## Invalid Input\n\n${errorDetails}`,
+          },
+        ],
+      };
+    }
+
+    // Check for Replicate token (server-side config)
+    if (!context?.replicateToken) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `## Server Configuration Error\n\nREPLICATE_API_TOKEN is not configured on the server.\n\nContact the server administrator.`,
+          },
+        ],
+      };
+    }
+
+    const { model, refresh = false } = parsed.data;
+    const [modelId, version] = model.split(':');
+    const [owner, name] = modelId.split('/');
+
+    try {
+      logger.info('get_model', { message: 'Getting model', model, refresh });
+
+      const info = await getModelInfo(owner, name, context.replicateToken, {
+        version,
+        bypassCache: refresh,
+      });
+
+      // Version listing isn't available for every model (e.g. some official models)
+      let versions: ModelVersionSummary[] = [];
+      try {
+        versions = await listModelVersions(owner, name, context.replicateToken, {
+          bypassCache: refresh,
+        });
+      } catch (error) {
+        logger.debug('get_model', {
+          message: 'Could not list versions',
+          model: modelId,
+          error: (error as Error).message,
+        });
+      }
+
+      const sections = [
+        `## ${modelId}`,
+        info.description || 'No description',
+        [
+          `Runs: ${info.run_count.toLocaleString()}`,
+          `URL: ${info.url}`,
+          `Version: ${info.version_id ?? 'unknown'}${version ? ' (pinned)' : ' (latest)'}`,
+          ...(info.is_official
+            ? ['Official model: billed per output, always runs the latest version']
+            : []),
+        ].join('\n'),
+      ];
+
+      if (info.cover_image_url) {
+        sections.push(`![Cover image](${info.cover_image_url})`);
+      }
+
+      sections.push(
+        info.input_schema && Object.keys(info.input_schema.properties).length > 0
+          ? `### Input Parameters\n\n${formatParameters(info.input_schema)}`
+          : '### Input Parameters\n\nNo input schema available for this version.',
+      );
+
+      if (info.output_schema) {
+        sections.push(
+          `### Output Schema\n\n\`\`\`json\n${JSON.stringify(info.output_schema, null, 2)}\n\`\`\``,
+        );
+      }
+
+      if (info.default_example) {
+        sections.push(
+          `### Example Input\n\n\`\`\`json\n${JSON.stringify(info.default_example.input, null, 2)}\n\`\`\``,
+        );
+      }
+
+      if (versions.length > 0) {
+        sections.push(
+          `### Recent Versions\n\n${formatVersions(versions, info.version_id)}`,
+        );
+      }
+
+      const { latest_version_id: _latest, ...details } = info;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${sections.join('\n\n')}\n\n---\n\nCall generate_image with model "${modelId}" and the parameters above.`,
+          },
+        ],
+        structuredContent: { ...details, versions } satisfies GetModelOutput,
+      };
+    } catch (error) {
+      logger.error('get_model', {
+        message: 'Get model failed',
+        model,
+        error: (error as Error).message,
+      });
+
+      const errorMsg = (error as Error).message;
+      const isNotFound =
+        errorMsg.includes('404') || errorMsg.toLowerCase().includes('not found');
+
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: isNotFound
+              ? `## Model Not Found\n\nNo model or version matches "${model}".\n\nUse search_models to find the exact identifier.`
+              : `## Get Model Failed\n\nModel: ${model}\nError: ${errorMsg}`,
+          },
+        ],
+      };
+    }
+  },
+};
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  clearPredictionHistory,
+  getRecordedPrediction,
+  recordPrediction,
+  toPredictionRecord,
+} from '../services/prediction-history.js';
+import {
+  type OutputStorage,
+  setOutputStorage,
+} from '../services/storage/output-storage.js';
+import type { RequestContext } from '../types/context.js';
+import { createCancellationToken } from '../utils/cancellation.js';
+import { getPredictionTool } from './get-prediction.tool.js';
+
+const SESSION = 'session-1';
+const REPLICATE_URL = 'https://replicate.delivery/abc/out-0.png';
+
+const succeeded = {
+  id: 'abc',
+  model: 'black-forest-labs/flux-schnell',
+  status: 'succeeded',
+  input: { prompt: 'a lighthouse' },
+  output: [REPLICATE_URL],
+  error: null,
+};
+
+const originalFetch = globalThis.fetch;
+let prediction: Record<string, unknown>;
+let downloads: string[];
+let stored: string[];
+
+/** In-memory storage that records every put */
+const storage: OutputStorage = {
+  retentionHours: 24,
+  put: async (key) => {
+    stored.push(key);
+  },
+  get: async () => null,
+  cleanup: async () => 0,
+  urlFor: (key) => `https://mcp.example.com/files/${key}`,
+};
+
+const context = (): RequestContext => ({
+  sessionId: SESSION,
+  replicateToken: 'r8_test',
+  cancellationToken: createCancellationToken(),
+  timestamp: Date.now(),
+});
+
+/** Text of a tool result's first content block */
+const textOf = (result: CallToolResult) => {
+  const [block] = result.content;
+  return block?.type === 'text' ? block.text : '';
+};
+
+beforeEach(() => {
+  prediction = succeeded;
+  downloads = [];
+  stored = [];
+  setOutputStorage(storage);
+  globalThis.fetch = (async (url: string) => {
+    if (String(url).startsWith('https://api.replicate.com/')) {
+      return Response.json(prediction);
+    }
+    downloads.push(String(url));
+    return new Response(new Uint8Array([1, 2, 3]), {
+      headers: { 'content-type': 'image/png' },
+    });
+  }) as typeof fetch;
+
+  recordPrediction(
+    SESSION,
+    toPredictionRecord(
+      { ...succeeded, status: 'starting', output: null },
+      {
+        model: succeeded.model,
+        source: 'generate_image',
+        input: succeeded.input,
+        startedAt: Date.now(),
+      },
+    ),
+  );
+});
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+  setOutputStorage(null);
+  clearPredictionHistory(SESSION);
+});
+
+describe('get_prediction', () => {
+  test('stores outputs once and reuses them on later calls', async () => {
+    const first = await getPredictionTool.handler({ prediction_id: 'abc' }, context());
+    const second = await getPredictionTool.handler({ prediction_id: 'abc' }, context());
+
+    expect(downloads).toEqual([REPLICATE_URL]);
+    expect(stored).toEqual(['abc/0.png']);
+    expect(getRecordedPrediction(SESSION, 'abc')?.output).toEqual([
+      'https://mcp.example.com/files/abc/0.png',
+    ]);
+    for (const result of [first, second]) {
+      const text = textOf(result);
+      expect(text).toContain('https://mcp.example.com/files/abc/0.png');
+      expect(text).toContain('stored on this server');
+    }
+  });
+
+  test('keeps the expiry note when outputs could not be stored', async () => {
+    setOutputStorage(null);
+    await getPredictionTool.handler({ prediction_id: 'abc' }, context());
+    setOutputStorage(storage);
+
+    const result = await getPredictionTool.handler({ prediction_id: 'abc' }, context());
+
+    expect(stored).toEqual([]);
+    expect(textOf(result)).toContain('URLs expire in 1 hour');
+  });
+
+  test('reports running and failed predictions and records their status', async () => {
+    prediction = { ...succeeded, status: 'processing', output: null };
+    const running = await getPredictionTool.handler(
+      { prediction_id: 'abc' },
+      context(),
+    );
+
+    expect(textOf(running)).toContain('## Prediction In Progress');
+    expect(getRecordedPrediction(SESSION, 'abc')?.status).toBe('processing');
+
+    prediction = {
+      ...succeeded,
+      status: 'failed',
+      output: null,
+      error: 'NSFW content',
+    };
+    const failed = await getPredictionTool.handler({ prediction_id: 'abc' }, context());
+
+    expect(failed.isError).toBe(true);
+    expect(textOf(failed)).toContain('Error: NSFW content');
+    expect(getRecordedPrediction(SESSION, 'abc')?.status).toBe('failed');
+    expect(stored).toEqual([]);
+  });
+});
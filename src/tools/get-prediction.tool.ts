@@ -0,0 +1,199 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { toolsMetadata } from '../config/metadata.js';
+import { strictSchema } from '../schemas/common.js';
+import {
+  extractSeed,
+  getPrediction,
+  type PredictionResult,
+} from '../services/api/replicate.service.js';
+import {
+  getRecordedPrediction,
+  updateRecordedPrediction,
+} from '../services/prediction-history.js';
+import {
+  formatExpiryNote,
+  type PersistedOutputs,
+  persistOutputs,
+} from '../services/storage/output-storage.js';
+import type { RequestContext } from '../types/context.js';
+import { formatImageMarkdown } from '../utils/formatting.js';
+import { logger } from '../utils/logger.js';
+
+const GetPredictionInputSchema = strictSchema({
+  prediction_id: z
+    .string()
+    .min(1, 'Prediction ID cannot be empty')
+    .describe('Prediction ID returned by generate_image (with wait: false)'),
+});
+
+/**
+ * Outputs of a succeeded prediction. Outputs are persisted once: a prediction
+ * already recorded as succeeded reuses the URLs stored in the session's history.
+ */
+async function succeededOutputs(
+  sessionId: string | undefined,
+  prediction: PredictionResult,
+): Promise<PersistedOutputs> {
+  const recorded = getRecordedPrediction(sessionId, prediction.id);
+  const original = prediction.output || [];
+
+  if (recorded?.status === 'succeeded' && recorded.output) {
+    // persistOutputs keeps the Replicate URL for any output it couldn't store
+    const stored =
+      recorded.output.length > 0 &&
+      recorded.output.every((url, index) => url !== original[index]);
+    return { urls: recorded.output, stored };
+  }
+
+  return persistOutputs(prediction.id, original);
+}
+
+export const getPredictionTool = {
+  name: toolsMetadata.get_prediction.name,
+  title: toolsMetadata.get_prediction.title,
+  description: toolsMetadata.get_prediction.description,
+  inputSchema: GetPredictionInputSchema,
+
+  handler: async (args: unknown, context?: RequestContext): Promise<CallToolResult> => {
+    const parsed = GetPredictionInputSchema.safeParse(args);
+
+    if (!parsed.success) {
+      const errorDetails = parsed.error.errors
+        .map((err) => `- ${err.path.join('.')}: ${err.message}`)
+        .join('\n');
+
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `## Invalid Input\n\n${errorDetails}`,
+          },
+        ],
+      };
+    }
+
+    // Check for Replicate token (server-side config)
+    if (!context?.replicateToken) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `## Server Configuration Error\n\nREPLICATE_API_TOKEN is not configured on the server.\n\nContact the server administrator.`,
+          },
+        ],
+      };
+    }
+
+    const { prediction_id } = parsed.data;
+
+    try {
+      logger.info('get_prediction', {
+        message: 'Getting prediction',
+        id: prediction_id,
+      });
+
+      const prediction = await getPrediction(prediction_id, context.replicateToken);
+      const seed = extractSeed(prediction);
+
+      // Keep the session's history in sync for predictions started with wait: false
+      if (prediction.status !== 'succeeded') {
+        updateRecordedPrediction(context.sessionId, prediction);
+      }
+      const modelInfo = `${prediction.model ? `Model: ${prediction.model}\n` : ''}${prediction.version ? `Version: ${prediction.version}\n` : ''}${seed !== null ? `Seed: ${seed}\n` : ''}`;
+
+      if (prediction.status === 'starting' || prediction.status === 'processing') {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `## Prediction In Progress
+
+${modelInfo}Prediction ID: ${prediction.id}
+Status: ${prediction.status}
+
+Call get_prediction again in a few seconds.`,
+            },
+          ],
+        };
+      }
+
+      if (prediction.status === 'failed') {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: `## Generation Failed
+
+${modelInfo}Prediction ID: ${prediction.id}
+Error: ${prediction.error || 'Unknown error'}`,
+            },
+          ],
+        };
+      }
+
+      if (prediction.status === 'canceled') {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: `## Generation Cancelled
+
+${modelInfo}Prediction ID: ${prediction.id}
+
+The prediction was cancelled before completion.`,
+            },
+          ],
+        };
+      }
+
+      const outputs = await succeededOutputs(context.sessionId, prediction);
+      updateRecordedPrediction(context.sessionId, prediction, outputs.urls);
+      const timeInfo = prediction.metrics?.predict_time
+        ? ` in ${prediction.metrics.predict_time.toFixed(1)}s`
+        : '';
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `## Image Generated${timeInfo}
+
+${modelInfo}Prediction ID: ${prediction.id}
+
+Display the image to the user using markdown syntax:
+
+${formatImageMarkdown(outputs.urls)}
+
+${formatExpiryNote(outputs)}`,
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error('get_prediction', {
+        message: 'Failed to get prediction',
+        id: prediction_id,
+        error: (error as Error).message,
+      });
+
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `## Prediction Lookup Failed
+
+Prediction ID: ${prediction_id}
+Error: ${(error as Error).message}
+
+Check that the ID was returned by generate_image on this server.`,
+          },
+        ],
+      };
+    }
+  },
+};
@@ -1,4 +1,6 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestHandlerExtra as SdkRequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
 import { contextRegistry } from '../core/context.js';
 import type { RequestContext } from '../types/context.js';
 import { createCancellationToken } from '../utils/cancellation.js';
@@ -6,7 +8,18 @@ import { logger } from '../utils/logger.js';
 
 // Replicate tools
 import { searchModelsTool } from './search-models.tool.js';
+import { getModelTool } from './get-model.tool.js';
 import { generateImageTool } from './generate-image.tool.js';
+import { enhancePromptTool } from './enhance-prompt.tool.js';
+import { generateBatchTool } from './generate-batch.tool.js';
+import { compareModelsTool } from './compare-models.tool.js';
+import { reproducePredictionTool } from './reproduce-prediction.tool.js';
+import { listPredictionsTool } from './list-predictions.tool.js';
+import { getPredictionTool } from './get-prediction.tool.js';
+import { saveImageTool } from './save-image.tool.js';
+import { cancelPredictionTool } from './cancel-prediction.tool.js';
+
+type RequestHandlerExtra = Partial<SdkRequestHandlerExtra<ServerRequest, ServerNotification>>;
 
 /**
  * Register all tools with the MCP server.
@@ -14,10 +27,19 @@ import { generateImageTool } from './generate-image.tool.js';
 export function registerTools(server: McpServer): void {
   const registeredNames: string[] = [];
 
-  // Register Replicate tools (without output schemas to avoid serialization issues)
+  // Register Replicate tools
   const replicateTools = [
     searchModelsTool,
+    getModelTool,
     generateImageTool,
+    enhancePromptTool,
+    generateBatchTool,
+    compareModelsTool,
+    reproducePredictionTool,
+    listPredictionsTool,
+    getPredictionTool,
+    saveImageTool,
+    cancelPredictionTool,
   ];
 
   for (const definition of replicateTools) {
@@ -30,6 +52,9 @@ export function registerTools(server: McpServer): void {
           description: definition.description,
           // Use .shape for SDK registration (SDK expects the raw shape, not full ZodObject)
           inputSchema: definition.inputSchema.shape as unknown as Parameters<typeof server.registerTool>[1]['inputSchema'],
+          ...('outputSchema' in definition && {
+            outputSchema: definition.outputSchema as unknown as Parameters<typeof server.registerTool>[1]['outputSchema'],
+          }),
         },
         wrappedHandler as Parameters<typeof server.registerTool>[2],
       );
@@ -56,33 +81,63 @@ export function registerTools(server: McpServer): void {
  * Create a wrapped handler that injects request context with replicate token.
  */
 function createWrappedHandler(
-  _server: McpServer,
+  server: McpServer,
   handler: (args: unknown, context?: RequestContext) => Promise<unknown>,
 ) {
-  return async (args: unknown, extra?: { requestId?: string | number; signal?: AbortSignal }) => {
+  return async (args: unknown, extra?: RequestHandlerExtra) => {
     const requestId = extra?.requestId;
 
     let context: RequestContext;
     if (requestId) {
-      const existingContext = contextRegistry.get(requestId);
+      const existingContext = contextRegistry.get(requestId, extra?.sessionId);
       if (existingContext) {
         context = existingContext;
       } else {
-        context = contextRegistry.create(requestId);
+        context = contextRegistry.create(requestId, extra?.sessionId);
       }
     } else {
       context = {
+        sessionId: extra?.sessionId,
         cancellationToken: createCancellationToken(),
         timestamp: Date.now(),
       };
     }
 
+    // Bridge SDK cancellation (notifications/cancelled) and the context's
+    // cancellation token into a single signal the tools can pass downstream
+    const abortController = new AbortController();
+    const abort = () => abortController.abort();
+    if (extra?.signal?.aborted) {
+      abort();
+    } else {
+      extra?.signal?.addEventListener('abort', abort, { once: true });
+    }
+    context.cancellationToken.onCancelled(abort);
+    context.signal = abortController.signal;
+
+    // Route request-related notifications (progress) and requests (elicitation)
+    // onto this request's stream
+    context.meta = { progressToken: extra?._meta?.progressToken };
+    if (extra?.sendNotification) {
+      const { sendNotification, sendRequest } = extra;
+      context.client = {
+        notification: (notification) =>
+          sendNotification(notification as Parameters<typeof sendNotification>[0]),
+        request: sendRequest
+          ? (request, resultSchema) =>
+              sendRequest(request as Parameters<typeof sendRequest>[0], resultSchema as Parameters<typeof sendRequest>[1])
+          : undefined,
+        getClientCapabilities: () => server.server.getClientCapabilities(),
+      };
+    }
+
     try {
       const result = await handler(args, context);
       return result;
     } finally {
+      extra?.signal?.removeEventListener('abort', abort);
       if (requestId) {
-        contextRegistry.delete(requestId);
+        contextRegistry.delete(requestId, extra?.sessionId);
       }
     }
   };
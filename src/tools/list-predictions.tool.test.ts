@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import {
+  clearPredictionHistory,
+  recordPrediction,
+  toPredictionRecord,
+} from '../services/prediction-history.js';
+import type { RequestContext } from '../types/context.js';
+import { createCancellationToken } from '../utils/cancellation.js';
+import { listPredictionsTool } from './list-predictions.tool.js';
+
+const SESSION = 'session-1';
+
+const context = (): RequestContext => ({
+  sessionId: SESSION,
+  cancellationToken: createCancellationToken(),
+  timestamp: Date.now(),
+});
+
+interface Listing {
+  predictions: Array<{ id: string; uri: string }>;
+  total: number;
+  next_cursor: string | null;
+}
+
+beforeEach(() => {
+  for (const [id, model, status] of [
+    ['one', 'acme/painter', 'succeeded'],
+    ['two', 'acme/sketcher', 'failed'],
+    ['three', 'acme/painter', 'succeeded'],
+  ] as const) {
+    recordPrediction(
+      SESSION,
+      toPredictionRecord(
+        { id, status, output: null, error: null },
+        {
+          model,
+          source: 'generate_image',
+          input: { prompt: id },
+          startedAt: Date.now(),
+        },
+      ),
+    );
+  }
+});
+
+afterEach(() => {
+  clearPredictionHistory(SESSION);
+});
+
+describe('list_predictions', () => {
+  test('filters by status and model', async () => {
+    const result = await listPredictionsTool.handler(
+      { status: 'succeeded', model: 'acme/painter' },
+      context(),
+    );
+    const listing = result.structuredContent as unknown as Listing;
+
+    expect(listing.predictions.map((p) => p.id)).toEqual(['three', 'one']);
+    expect(listing.predictions[0].uri).toBe('replicate://predictions/three');
+    expect(listing.total).toBe(2);
+  });
+
+  test('pages through the history with a cursor', async () => {
+    const first = (await listPredictionsTool.handler({ limit: 2 }, context()))
+      .structuredContent as unknown as Listing;
+    expect(first.predictions.map((p) => p.id)).toEqual(['three', 'two']);
+    expect(first.next_cursor).not.toBeNull();
+
+    const second = (
+      await listPredictionsTool.handler(
+        { limit: 2, cursor: first.next_cursor ?? undefined },
+        context(),
+      )
+    ).structuredContent as unknown as Listing;
+    expect(second.predictions.map((p) => p.id)).toEqual(['one']);
+    expect(second.next_cursor).toBeNull();
+  });
+
+  test('reports an empty history', async () => {
+    const result = await listPredictionsTool.handler(
+      {},
+      { ...context(), sessionId: 'other' },
+    );
+
+    expect(result.structuredContent).toEqual({
+      predictions: [],
+      total: 0,
+      next_cursor: null,
+    });
+  });
+});
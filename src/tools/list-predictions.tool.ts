@@ -0,0 +1,137 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { toolsMetadata } from '../config/metadata.js';
+import { strictSchema } from '../schemas/common.js';
+import { ListPredictionsOutput } from '../schemas/outputs.js';
+import {
+  listRecordedPredictions,
+  type PredictionRecord,
+  predictionUri,
+} from '../services/prediction-history.js';
+import type { RequestContext } from '../types/context.js';
+import { logger } from '../utils/logger.js';
+import { paginateArray } from '../utils/pagination.js';
+
+const ListPredictionsInputSchema = strictSchema({
+  status: z
+    .enum(['starting', 'processing', 'succeeded', 'failed', 'canceled'])
+    .optional()
+    .describe('Only list predictions with this status'),
+  model: z
+    .string()
+    .optional()
+    .describe('Only list predictions of this model ("owner/name")'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(50)
+    .optional()
+    .describe('Predictions per page (1-50, default: 10)'),
+  cursor: z
+    .string()
+    .optional()
+    .describe('Cursor from a previous call to get the next page'),
+});
+
+function formatRecord(record: PredictionRecord): string {
+  const prompt =
+    typeof record.input.prompt === 'string' ? record.input.prompt : undefined;
+  const lines = [
+    `### ${record.id} (${record.status})`,
+    `Model: ${record.model}${record.seed !== null ? ` · Seed: ${record.seed}` : ''}`,
+    `Started: ${record.created_at}${record.duration_ms !== null ? ` · Took ${(record.duration_ms / 1000).toFixed(1)}s` : ''}`,
+  ];
+
+  if (prompt)
+    lines.push(
+      `Prompt: "${prompt.length > 120 ? `${prompt.slice(0, 120)}…` : prompt}"`,
+    );
+  if (record.output?.length) lines.push(...record.output.map((url) => `- ${url}`));
+  if (record.error) lines.push(`Error: ${record.error}`);
+
+  return lines.join('\n');
+}
+
+export const listPredictionsTool = {
+  name: toolsMetadata.list_predictions.name,
+  title: toolsMetadata.list_predictions.title,
+  description: toolsMetadata.list_predictions.description,
+  inputSchema: ListPredictionsInputSchema,
+  outputSchema: ListPredictionsOutput.shape,
+
+  handler: async (args: unknown, context?: RequestContext): Promise<CallToolResult> => {
+    const parsed = ListPredictionsInputSchema.safeParse(args);
+
+    if (!parsed.success) {
+      const errorDetails = parsed.error.errors
+        .map((err) => `- ${err.path.join('.')}: ${err.message}`)
+        .join('\n');
+
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `## Invalid Input\n\n${errorDetails}`,
+          },
+        ],
+      };
+    }
+
+    const { status, model, limit = 10, cursor } = parsed.data;
+
+    const matching = listRecordedPredictions(context?.sessionId).filter(
+      (record) =>
+        (!status || record.status === status) && (!model || record.model === model),
+    );
+    const page = paginateArray(matching, cursor, limit);
+
+    logger.debug('list_predictions', {
+      message: 'Listing predictions',
+      total: matching.length,
+      returned: page.data.length,
+    });
+
+    const structured: ListPredictionsOutput = {
+      predictions: page.data.map((record) => ({
+        ...record,
+        uri: predictionUri(record.id),
+      })),
+      total: matching.length,
+      next_cursor: page.nextCursor ?? null,
+    };
+
+    if (matching.length === 0) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `## No Predictions
+
+${status || model ? 'No predictions in this session match the filters.' : 'No predictions have been started in this session yet.'}
+
+History only covers predictions started by this server in the current session.`,
+          },
+        ],
+        structuredContent: structured,
+      };
+    }
+
+    const more = page.nextCursor
+      ? `\n\n---\n\nMore predictions available - call list_predictions with cursor "${page.nextCursor}".`
+      : '';
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `## Predictions (${page.data.length} of ${matching.length})
+
+${page.data.map(formatRecord).join('\n\n')}${more}`,
+        },
+      ],
+      structuredContent: structured,
+    };
+  },
+};
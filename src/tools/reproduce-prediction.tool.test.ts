@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  clearPredictionHistory,
+  recordPrediction,
+  toPredictionRecord,
+} from '../services/prediction-history.js';
+import type { RequestContext } from '../types/context.js';
+import { createCancellationToken } from '../utils/cancellation.js';
+import { reproducePredictionTool } from './reproduce-prediction.tool.js';
+
+const SESSION = 'session-1';
+const VERSION = 'a'.repeat(64);
+
+const originalFetch = globalThis.fetch;
+let created: Array<Record<string, unknown>>;
+
+const context = (): RequestContext => ({
+  sessionId: SESSION,
+  replicateToken: `r8_reproduce_${crypto.randomUUID()}`,
+  cancellationToken: createCancellationToken(),
+  timestamp: Date.now(),
+});
+
+/** Text of a tool result's first content block */
+const textOf = (result: CallToolResult) => {
+  const [block] = result.content;
+  return block?.type === 'text' ? block.text : '';
+};
+
+beforeEach(() => {
+  created = [];
+  globalThis.fetch = (async (url: string, init?: RequestInit) => {
+    const path = new URL(url).pathname;
+
+    if (path === '/v1/predictions' && init?.method === 'POST') {
+      const body = JSON.parse(String(init.body));
+      created.push(body);
+      return Response.json({
+        id: 'rerun',
+        model: 'acme/painter',
+        version: body.version,
+        input: body.input,
+        status: 'starting',
+        output: null,
+        error: null,
+      });
+    }
+    if (path === '/v1/models/acme/painter') {
+      return Response.json({
+        owner: 'acme',
+        name: 'painter',
+        run_count: 1,
+        url: 'https://replicate.com/acme/painter',
+        latest_version: {
+          id: VERSION,
+          openapi_schema: {
+            components: {
+              schemas: {
+                Input: {
+                  required: ['prompt'],
+                  properties: {
+                    prompt: { type: 'string' },
+                    seed: { type: 'integer' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      });
+    }
+    if (path === '/v1/predictions/expired') {
+      return Response.json({
+        id: 'expired',
+        model: 'acme/painter',
+        version: VERSION,
+        input: {},
+        status: 'succeeded',
+        output: null,
+        error: null,
+      });
+    }
+    return new Response('Not found', { status: 404 });
+  }) as typeof fetch;
+
+  // The seed only appeared in the logs
+  recordPrediction(
+    SESSION,
+    toPredictionRecord(
+      {
+        id: 'original',
+        model: 'acme/painter',
+        version: VERSION,
+        input: { prompt: 'a lighthouse' },
+        status: 'succeeded',
+        output: ['https://replicate.delivery/x/out-0.png'],
+        error: null,
+        logs: 'Using seed: 1234',
+      },
+      {
+        model: 'acme/painter',
+        source: 'generate_image',
+        input: { prompt: 'a lighthouse' },
+        startedAt: Date.now(),
+      },
+    ),
+  );
+});
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+  clearPredictionHistory(SESSION);
+});
+
+describe('reproduce_prediction', () => {
+  test('re-runs the recorded version with the seed from the logs', async () => {
+    const result = await reproducePredictionTool.handler(
+      { prediction_id: 'original', wait: false },
+      context(),
+    );
+
+    expect(created).toEqual([
+      { version: VERSION, input: { prompt: 'a lighthouse', seed: 1234 } },
+    ]);
+    expect(textOf(result)).toContain('Original seed: 1234');
+    expect(textOf(result)).toContain('Changes: none (exact re-run)');
+  });
+
+  test('applies overrides and can pick a new seed', async () => {
+    const result = await reproducePredictionTool.handler(
+      {
+        prediction_id: 'original',
+        overrides: { prompt: 'a lighthouse at night' },
+        new_seed: true,
+        wait: false,
+      },
+      context(),
+    );
+
+    expect(created).toEqual([
+      { version: VERSION, input: { prompt: 'a lighthouse at night' } },
+    ]);
+    expect(textOf(result)).toContain('Changes: prompt, seed (new random seed)');
+  });
+
+  test('explains when the input is gone', async () => {
+    const result = await reproducePredictionTool.handler(
+      { prediction_id: 'expired' },
+      context(),
+    );
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain('## Cannot Reproduce');
+    expect(created).toEqual([]);
+  });
+});
@@ -0,0 +1,224 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { toolsMetadata } from '../config/metadata.js';
+import { strictSchema } from '../schemas/common.js';
+import { GenerateImageOutput } from '../schemas/outputs.js';
+import {
+  extractSeed,
+  getModelInputSchema,
+  getPrediction,
+} from '../services/api/replicate.service.js';
+import { getRecordedPrediction } from '../services/prediction-history.js';
+import type { RequestContext } from '../types/context.js';
+import { logger } from '../utils/logger.js';
+import { generateImageTool } from './generate-image.tool.js';
+
+const ReproducePredictionInputSchema = strictSchema({
+  prediction_id: z
+    .string()
+    .min(1, 'Prediction ID cannot be empty')
+    .describe(
+      'ID of the prediction to re-run (from generate_image, generate_batch or get_prediction)',
+    ),
+  overrides: z
+    .record(z.any())
+    .optional()
+    .describe(
+      'Input values to change, e.g. { "prompt": "same scene at night" } or { "seed": 42 }. Everything else is reused exactly.',
+    ),
+  new_seed: z
+    .boolean()
+    .optional()
+    .describe(
+      'Use a new random seed instead of the original one (default: false). Ignored if overrides sets "seed".',
+    ),
+  wait: z
+    .boolean()
+    .optional()
+    .describe(
+      'Wait for the prediction to finish (default: true), same as generate_image',
+    ),
+  output_mode: z
+    .enum(['markdown', 'image', 'resource_link', 'all'])
+    .optional()
+    .describe('How to return results, same as generate_image'),
+});
+
+const VERSION_ID_PATTERN = /^[a-f0-9]{64}$/;
+
+/** What a re-run needs from the original prediction */
+interface OriginalRun {
+  model: string | undefined;
+  version: string | null;
+  input: Record<string, unknown> | undefined;
+  seed: number | null;
+}
+
+export const reproducePredictionTool = {
+  name: toolsMetadata.reproduce_prediction.name,
+  title: toolsMetadata.reproduce_prediction.title,
+  description: toolsMetadata.reproduce_prediction.description,
+  inputSchema: ReproducePredictionInputSchema,
+  outputSchema: GenerateImageOutput.shape,
+
+  handler: async (args: unknown, context?: RequestContext): Promise<CallToolResult> => {
+    const parsed = ReproducePredictionInputSchema.safeParse(args);
+
+    if (!parsed.success) {
+      const errorDetails = parsed.error.errors
+        .map((err) => `- ${err.path.join('.')}: ${err.message}`)
+        .join('\n');
+
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `## Invalid Input\n\n${errorDetails}`,
+          },
+        ],
+      };
+    }
+
+    // Check for Replicate token (server-side config)
+    if (!context?.replicateToken) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `## Server Configuration Error\n\nREPLICATE_API_TOKEN is not configured on the server.\n\nContact the server administrator.`,
+          },
+        ],
+      };
+    }
+
+    const {
+      prediction_id,
+      overrides = {},
+      new_seed = false,
+      wait,
+      output_mode,
+    } = parsed.data;
+
+    // The session's record keeps the input after Replicate has removed it
+    const record = getRecordedPrediction(context.sessionId, prediction_id);
+    let original: OriginalRun;
+    try {
+      if (record && Object.keys(record.input).length > 0) {
+        original = {
+          model: record.model,
+          version: record.version,
+          input: record.input,
+          seed: record.seed,
+        };
+      } else {
+        const prediction = await getPrediction(prediction_id, context.replicateToken);
+        original = {
+          model: prediction.model,
+          version: prediction.version ?? null,
+          input: prediction.input,
+          seed: extractSeed(prediction),
+        };
+      }
+    } catch (error) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `## Prediction Lookup Failed
+
+Prediction ID: ${prediction_id}
+Error: ${(error as Error).message}`,
+          },
+        ],
+      };
+    }
+
+    if (
+      !original.input ||
+      Object.keys(original.input).length === 0 ||
+      !original.model
+    ) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `## Cannot Reproduce
+
+Prediction ID: ${prediction_id}
+
+This prediction isn't in this session's history, and Replicate no longer has its input (API prediction data is removed about an hour after it finishes).
+Call generate_image with the model and input instead.`,
+          },
+        ],
+      };
+    }
+
+    const model = original.model;
+    const originalSeed = original.seed;
+    const input: Record<string, unknown> = { ...original.input };
+    const changes = Object.keys(overrides);
+
+    if (new_seed && !('seed' in overrides)) {
+      delete input.seed;
+      changes.push('seed (new random seed)');
+    } else if (originalSeed !== null && input.seed === undefined) {
+      // The seed came from the logs - pass it explicitly if the model accepts one
+      const schema = await getModelInputSchema(
+        {
+          model: model.includes('/') ? model : undefined,
+          version: original.version ?? undefined,
+        },
+        context.replicateToken,
+      ).catch(() => undefined);
+      if (!schema || schema.properties.seed) {
+        input.seed = originalSeed;
+      }
+    }
+
+    Object.assign(input, overrides);
+
+    // Official models may hide their version - those can only run the latest one
+    const exactVersion = original.version && VERSION_ID_PATTERN.test(original.version);
+    // Records of runs started with a bare version ID have no owner/name
+    const identifier = exactVersion
+      ? model.includes('/')
+        ? `${model}:${original.version}`
+        : `${original.version}`
+      : model;
+
+    logger.info('reproduce_prediction', {
+      message: 'Reproducing prediction',
+      id: prediction_id,
+      model: identifier,
+      changes,
+    });
+
+    const result = await generateImageTool.handler(
+      { model: identifier, input, wait, output_mode },
+      context,
+    );
+
+    const notes = [
+      `Original prediction: ${prediction_id}`,
+      `Original seed: ${originalSeed ?? 'unknown'}`,
+      `Changes: ${changes.length > 0 ? changes.join(', ') : 'none (exact re-run)'}`,
+      ...(exactVersion
+        ? []
+        : [
+            'Note: the exact version is not available for this model, so the latest version was used',
+          ]),
+    ];
+
+    return {
+      ...result,
+      content: [
+        { type: 'text', text: `## Reproducing Prediction\n\n${notes.join('\n')}` },
+        ...result.content,
+      ],
+    };
+  },
+};
@@ -0,0 +1,158 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { toolsMetadata } from '../config/metadata.js';
+import { strictSchema } from '../schemas/common.js';
+import { SaveImageOutput } from '../schemas/outputs.js';
+import { getPrediction } from '../services/api/replicate.service.js';
+import { getRecordedPrediction } from '../services/prediction-history.js';
+import {
+  describeSavedFiles,
+  resolveSaveTarget,
+  saveOutputs,
+} from '../services/root-files.js';
+import type { RequestContext } from '../types/context.js';
+import { logger } from '../utils/logger.js';
+
+const SaveImageInputSchema = strictSchema({
+  prediction_id: z
+    .string()
+    .min(1, 'Prediction ID cannot be empty')
+    .describe(
+      'ID of a succeeded prediction (from generate_image, generate_batch, get_prediction or list_predictions)',
+    ),
+  save_to: z
+    .string()
+    .min(1, 'save_to cannot be empty')
+    .describe(
+      'Folder on the user\'s machine: a path relative to the client\'s first root (e.g. "images/cats"), or an absolute path inside a root',
+    ),
+});
+
+export const saveImageTool = {
+  name: toolsMetadata.save_image.name,
+  title: toolsMetadata.save_image.title,
+  description: toolsMetadata.save_image.description,
+  inputSchema: SaveImageInputSchema,
+  outputSchema: SaveImageOutput.shape,
+
+  handler: async (args: unknown, context?: RequestContext): Promise<CallToolResult> => {
+    const parsed = SaveImageInputSchema.safeParse(args);
+
+    if (!parsed.success) {
+      const errorDetails = parsed.error.errors
+        .map((err) => `- ${err.path.join('.')}: ${err.message}`)
+        .join('\n');
+
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `## Invalid Input\n\n${errorDetails}`,
+          },
+        ],
+      };
+    }
+
+    // Check for Replicate token (server-side config)
+    if (!context?.replicateToken) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `## Server Configuration Error\n\nREPLICATE_API_TOKEN is not configured on the server.\n\nContact the server administrator.`,
+          },
+        ],
+      };
+    }
+
+    const { prediction_id, save_to } = parsed.data;
+
+    try {
+      const target = await resolveSaveTarget(context.client, save_to);
+
+      // Prefer the session's record: it has the stored (non-expiring) URLs
+      const record = getRecordedPrediction(context.sessionId, prediction_id);
+      const prediction =
+        record?.status === 'succeeded'
+          ? record
+          : await getPrediction(prediction_id, context.replicateToken);
+
+      if (prediction.status !== 'succeeded' || !prediction.output?.length) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: `## Nothing To Save
+
+Prediction ID: ${prediction_id}
+Status: ${prediction.status}
+
+Only succeeded predictions with outputs can be saved.${prediction.status === 'starting' || prediction.status === 'processing' ? ' Call get_prediction until it has finished, then try again.' : ''}`,
+            },
+          ],
+        };
+      }
+
+      const prompt = prediction.input?.prompt;
+      const files = await saveOutputs(target, {
+        urls: prediction.output,
+        prompt: typeof prompt === 'string' ? prompt : undefined,
+        predictionId: prediction_id,
+      });
+      const saved = describeSavedFiles(files);
+
+      logger.info('save_image', {
+        message: 'Saved outputs',
+        id: prediction_id,
+        files: files.length,
+        written: files.filter((file) => file.written).length,
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `## ${files.every((file) => file.written) ? 'Images Saved' : 'Images Ready To Save'}
+
+Prediction ID: ${prediction_id}
+Folder: ${target.dir}
+
+${saved.text}`,
+          },
+          ...(saved.links as CallToolResult['content']),
+        ],
+        structuredContent: {
+          prediction_id,
+          files: files.map(({ uri, path, source, written }) => ({
+            uri,
+            path,
+            source,
+            written,
+          })),
+        } satisfies SaveImageOutput,
+      };
+    } catch (error) {
+      logger.error('save_image', {
+        message: 'Failed to save outputs',
+        id: prediction_id,
+        error: (error as Error).message,
+      });
+
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: `## Save Failed
+
+Prediction ID: ${prediction_id}
+Error: ${(error as Error).message}`,
+          },
+        ],
+      };
+    }
+  },
+};
@@ -2,6 +2,7 @@ import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { toolsMetadata } from '../config/metadata.js';
 import { strictSchema } from '../schemas/common.js';
+import { SearchModelsOutput } from '../schemas/outputs.js';
 import { searchModels } from '../services/api/replicate.service.js';
 import type { RequestContext } from '../types/context.js';
 import { logger } from '../utils/logger.js';
@@ -11,6 +12,10 @@ const SearchModelsInputSchema = strictSchema({
     .string()
     .min(1, 'Query cannot be empty')
     .describe('Search query - model name, task type, or keywords (e.g., "flux", "image generation", "upscale")'),
+  refresh: z
+    .boolean()
+    .optional()
+    .describe('Bypass the cache and fetch fresh results from Replicate (default: false). Use only if results look outdated.'),
 });
 
 export const searchModelsTool = {
@@ -18,6 +23,7 @@ export const searchModelsTool = {
   title: toolsMetadata.search_models.title,
   description: toolsMetadata.search_models.description,
   inputSchema: SearchModelsInputSchema,
+  outputSchema: SearchModelsOutput.shape,
 
   handler: async (args: unknown, context?: RequestContext): Promise<CallToolResult> => {
     const parsed = SearchModelsInputSchema.safeParse(args);
@@ -47,12 +53,12 @@ export const searchModelsTool = {
       };
     }
 
-    const { query } = parsed.data;
+    const { query, refresh = false } = parsed.data;
 
     try {
-      logger.info('search_models', { message: 'Searching models', query });
+      logger.info('search_models', { message: 'Searching models', query, refresh });
 
-      const models = await searchModels(query, context.replicateToken);
+      const models = await searchModels(query, context.replicateToken, { bypassCache: refresh });
 
       if (models.length === 0) {
         return {
@@ -60,6 +66,7 @@ export const searchModelsTool = {
             type: 'text',
             text: `## No Models Found\n\nNo models matched the query "${query}".\n\nTry:\n- Using different keywords\n- Searching for model names like "flux", "sdxl", "stable-diffusion"`,
           }],
+          structuredContent: { models: [] },
         };
       }
 
@@ -104,6 +111,7 @@ export const searchModelsTool = {
           type: 'text',
           text: `## Found ${models.length} Models for "${query}"\n\n${modelList}\n\n---\n\nYou can now call generate_image with any of these models using the parameters shown above.`,
         }],
+        structuredContent: { models } satisfies SearchModelsOutput,
       };
     } catch (error) {
       logger.error('search_models', { message: 'Search failed', error: (error as Error).message });
@@ -1,4 +1,45 @@
+import type { ClientCapabilities } from '@modelcontextprotocol/sdk/types.js';
+import type { ZodType } from 'zod';
 import type { CancellationToken } from '../utils/cancellation.js';
+import type { ProgressToken } from '../utils/progress.js';
+
+/**
+ * JSON-RPC notification sent from server to client.
+ */
+export interface ClientNotification {
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * JSON-RPC request sent from server to client.
+ */
+export interface ClientRequest {
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * Request-scoped channel back to the client.
+ *
+ * Mirrors the part of the SDK's low-level Server the utils rely on, so utilities
+ * that accept an McpServer also accept a channel. Messages sent through it are
+ * delivered on the stream of the originating request (Node: SDK related-request
+ * routing, Workers: SSE response).
+ */
+export interface ClientChannel {
+  notification(notification: ClientNotification): Promise<void>;
+  /**
+   * Send a request to the client (elicitation, sampling, roots) and wait for
+   * its result. Absent when the transport can't carry server→client requests
+   * (Workers requests answered with a JSON body).
+   */
+  request?<T>(request: ClientRequest, resultSchema: ZodType<T>): Promise<T>;
+  /**
+   * Capabilities the client declared in initialize.
+   */
+  getClientCapabilities?(): ClientCapabilities | undefined;
+}
 
 /**
  * Request context passed to tool handlers.
@@ -14,6 +55,24 @@ export interface RequestContext {
    */
   cancellationToken: CancellationToken;
 
+  /**
+   * Abort signal that fires when the request is cancelled
+   * (notifications/cancelled, HTTP disconnect, or the cancellation token).
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Request metadata from MCP (`_meta`).
+   */
+  meta?: {
+    progressToken?: ProgressToken;
+  };
+
+  /**
+   * Channel for sending notifications related to this request.
+   */
+  client?: ClientChannel;
+
   /**
    * Request ID from JSON-RPC message.
    */
@@ -1,9 +1,9 @@
 /**
  * Elicitation utilities for servers to request user input from clients.
  *
- * ⚠️ NODE.JS ONLY - These utilities require SDK bidirectional support
- * (server.request()) which is not available in the Cloudflare Workers runtime.
- * The Workers dispatcher does not support server→client requests.
+ * Both runtimes: Node sends requests through the SDK (server.request()),
+ * Workers write them to the tool call's SSE response and wait for the client
+ * to POST the result (see shared/mcp/client-requests.ts).
  *
  * Two modes:
  * - Form: Structured input via a schema (text fields, checkboxes, dropdowns)
@@ -13,10 +13,15 @@
  * - Elicitation is a CLIENT capability
  * - Servers send elicitation/create requests TO clients
  * - Clients display the form/URL and return user response
+ *
+ * Every function accepts the McpServer or a request-scoped ClientChannel.
+ * Prefer the channel inside tool handlers so the request reaches the client
+ * on the stream of the tool call.
  */
 
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
+import type { ClientChannel } from '../types/context.js';
 import { logger } from './logger.js';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -204,13 +209,14 @@ export function validateElicitationSchema(schema: ElicitationSchema): void {
 
 /**
  * Check if client supports form elicitation.
+ * Channels that can't send requests to the client (Workers JSON responses) never do.
  */
-export function clientSupportsFormElicitation(server: McpServer): boolean {
+export function clientSupportsFormElicitation(server: McpServer | ClientChannel): boolean {
   try {
     const lowLevel = (server as any).server ?? server;
     const clientCapabilities = lowLevel.getClientCapabilities?.() ?? {};
     // Empty elicitation object is treated as { form: {} }
-    return Boolean(clientCapabilities.elicitation);
+    return Boolean(clientCapabilities.elicitation) && typeof lowLevel.request === 'function';
   } catch {
     return false;
   }
@@ -219,7 +225,7 @@ export function clientSupportsFormElicitation(server: McpServer): boolean {
 /**
  * Check if client supports URL elicitation.
  */
-export function clientSupportsUrlElicitation(server: McpServer): boolean {
+export function clientSupportsUrlElicitation(server: McpServer | ClientChannel): boolean {
   try {
     const lowLevel = (server as any).server ?? server;
     const clientCapabilities = lowLevel.getClientCapabilities?.() ?? {};
@@ -264,7 +270,7 @@ export function clientSupportsUrlElicitation(server: McpServer): boolean {
  * ```
  */
 export async function elicitForm(
-  server: McpServer,
+  server: McpServer | ClientChannel,
   request: FormElicitationRequest,
 ): Promise<ElicitResult> {
   if (!clientSupportsFormElicitation(server)) {
@@ -332,7 +338,7 @@ export async function elicitForm(
  * ```
  */
 export async function elicitUrl(
-  server: McpServer,
+  server: McpServer | ClientChannel,
   request: Omit<UrlElicitationRequest, 'mode'>,
 ): Promise<ElicitResult> {
   if (!clientSupportsUrlElicitation(server)) {
@@ -387,7 +393,7 @@ export async function elicitUrl(
  * Notify client that URL elicitation has completed (external flow finished).
  */
 export async function notifyElicitationComplete(
-  server: McpServer,
+  server: McpServer | ClientChannel,
   elicitationId: string,
 ): Promise<void> {
   if (!clientSupportsUrlElicitation(server)) {
@@ -437,7 +443,7 @@ export async function notifyElicitationComplete(
  * ```
  */
 export async function confirm(
-  server: McpServer,
+  server: McpServer | ClientChannel,
   message: string,
   options?: { confirmLabel?: string; declineLabel?: string },
 ): Promise<boolean> {
@@ -474,7 +480,7 @@ export async function confirm(
  * ```
  */
 export async function promptText(
-  server: McpServer,
+  server: McpServer | ClientChannel,
   message: string,
   options?: {
     title?: string;
@@ -527,7 +533,7 @@ export async function promptText(
  * ```
  */
 export async function promptSelect(
-  server: McpServer,
+  server: McpServer | ClientChannel,
   message: string,
   options: Array<{ value: string; label: string }>,
   config?: { title?: string; defaultValue?: string; required?: boolean },
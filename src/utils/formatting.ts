@@ -235,3 +235,26 @@ export function formatKeyValueList(
     })
     .join('\n');
 }
+
+/**
+ * Format image URLs as markdown image embeds.
+ *
+ * @param urls - Image URLs to embed
+ * @returns Markdown with one image per paragraph, numbered when there are several
+ *
+ * @example
+ * formatImageMarkdown(['https://a.png', 'https://b.png'])
+ * // Returns:
+ * // Image 1: ![Generated image 1](https://a.png)
+ * //
+ * // Image 2: ![Generated image 2](https://b.png)
+ */
+export function formatImageMarkdown(urls: string[]): string {
+  return urls
+    .map((url, i) =>
+      urls.length > 1
+        ? `Image ${i + 1}: ![Generated image ${i + 1}](${url})`
+        : `![Generated image](${url})`,
+    )
+    .join('\n\n');
+}
@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'bun:test';
+import type { ClientChannel, ClientNotification } from '../types/context.js';
+import { createProgressReporter } from './progress.js';
+
+/** Channel that records the notifications sent through it */
+function recordingChannel(sent: ClientNotification[]): ClientChannel {
+  return {
+    notification: async (notification) => {
+      sent.push(notification);
+    },
+  };
+}
+
+describe('createProgressReporter', () => {
+  test('sends progress on a request channel until completed', async () => {
+    const sent: ClientNotification[] = [];
+    const reporter = createProgressReporter(recordingChannel(sent), 'token-1');
+
+    await reporter?.report(0.5, 1, 'Generating');
+    await reporter?.complete();
+    await reporter?.report(0.9, 1);
+
+    expect(sent).toEqual([
+      {
+        method: 'notifications/progress',
+        params: {
+          progressToken: 'token-1',
+          progress: 0.5,
+          total: 1,
+          message: 'Generating',
+        },
+      },
+      {
+        method: 'notifications/progress',
+        params: {
+          progressToken: 'token-1',
+          progress: 1,
+          total: 1,
+          message: 'Complete',
+        },
+      },
+    ]);
+  });
+
+  test('returns null without a progress token', () => {
+    expect(createProgressReporter(recordingChannel([]), undefined)).toBeNull();
+  });
+});
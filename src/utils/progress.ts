@@ -1,4 +1,5 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ClientChannel } from '../types/context.js';
 import { logger } from './logger.js';
 
 export type ProgressToken = string | number;
@@ -16,12 +17,15 @@ export interface ProgressNotification {
  * Per review finding #12: Progress notifications sent after request completion
  * are silently ignored by the client (no handler exists for completed requests).
  * Always send progress BEFORE returning from the handler.
+ *
+ * Accepts either the McpServer or a request-scoped ClientChannel. Prefer the
+ * channel inside tool handlers so notifications reach the request's own stream.
  */
 export class ProgressReporter {
   private completed = false;
 
   constructor(
-    private server: McpServer,
+    private server: McpServer | ClientChannel,
     private progressToken: ProgressToken,
   ) {}
 
@@ -75,7 +79,7 @@ export class ProgressReporter {
 /**
  * Create a progress reporter for a request.
  * 
- * @param server - The MCP server instance
+ * @param server - The MCP server instance or a request-scoped client channel
  * @param progressToken - Token from request._meta.progressToken
  * @returns ProgressReporter instance, or null if no token provided
  * 
@@ -93,7 +97,7 @@ export class ProgressReporter {
  * ```
  */
 export function createProgressReporter(
-  server: McpServer,
+  server: McpServer | ClientChannel,
   progressToken: ProgressToken | undefined,
 ): ProgressReporter | null {
   if (!progressToken) {
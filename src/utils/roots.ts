@@ -1,18 +1,22 @@
 /**
  * Roots utilities for server→client requests.
  *
- * ⚠️ NODE.JS ONLY - These utilities require SDK bidirectional support
- * (server.request()) which is not available in the Cloudflare Workers runtime.
- * The Workers dispatcher does not support server→client requests.
+ * Both runtimes: Node sends requests through the SDK (server.request()),
+ * Workers write them to the tool call's SSE response and wait for the client
+ * to POST the result (see shared/mcp/client-requests.ts).
  *
  * Per MCP spec (review finding #2):
  * - Roots is a CLIENT capability
  * - Servers send roots/list requests TO clients
  * - Clients respond with filesystem locations they have access to
  * - This enables file-based tools to know allowed paths
+ *
+ * Every function accepts the McpServer or a request-scoped ClientChannel.
  */
 
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ListRootsResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { ClientChannel } from '../types/context.js';
 import { logger } from './logger.js';
 
 /**
@@ -50,7 +54,7 @@ export interface ListRootsResult {
  * }
  * ```
  */
-export async function requestRoots(server: McpServer): Promise<Root[]> {
+export async function requestRoots(server: McpServer | ClientChannel): Promise<Root[]> {
   logger.debug('roots', {
     message: 'Requesting roots from client',
   });
@@ -71,10 +75,10 @@ export async function requestRoots(server: McpServer): Promise<Root[]> {
       );
     }
 
-    const response = await lowLevel.request(
+    // The SDK validates the result with safeParse, so pass its own schema
+    const response: ListRootsResult = await lowLevel.request(
       { method: 'roots/list' },
-      // Schema for validation (simplified)
-      { parse: (r: unknown) => r as ListRootsResult },
+      ListRootsResultSchema,
     );
 
     logger.info('roots', {
@@ -103,14 +107,15 @@ export async function requestRoots(server: McpServer): Promise<Root[]> {
 /**
  * Check if the client supports roots.
  *
- * @param server - The MCP server instance
- * @returns true if client declared roots capability
+ * @param server - The MCP server instance or a request-scoped channel
+ * @returns true if client declared roots capability (and the channel can
+ * send requests to it - Workers JSON responses can't)
  */
-export function clientSupportsRoots(server: McpServer): boolean {
+export function clientSupportsRoots(server: McpServer | ClientChannel): boolean {
   try {
     const lowLevel = (server as any).server ?? server;
     const clientCapabilities = lowLevel.getClientCapabilities?.() ?? {};
-    return Boolean(clientCapabilities.roots);
+    return Boolean(clientCapabilities.roots) && typeof lowLevel.request === 'function';
   } catch {
     return false;
   }
@@ -122,7 +127,7 @@ export function clientSupportsRoots(server: McpServer): boolean {
  * @param server - The MCP server instance
  * @returns true if client declared roots.listChanged capability
  */
-export function clientSupportsRootsListChanged(server: McpServer): boolean {
+export function clientSupportsRootsListChanged(server: McpServer | ClientChannel): boolean {
   try {
     const lowLevel = (server as any).server ?? server;
     const clientCapabilities = lowLevel.getClientCapabilities?.() ?? {};
@@ -1,18 +1,22 @@
 /**
  * Sampling utilities for servers to request LLM completions from clients.
  *
- * ⚠️ NODE.JS ONLY - These utilities require SDK bidirectional support
- * (server.request()) which is not available in the Cloudflare Workers runtime.
- * The Workers dispatcher does not support server→client requests.
+ * Both runtimes: Node sends requests through the SDK (server.request()),
+ * Workers write them to the tool call's SSE response and wait for the client
+ * to POST the result (see shared/mcp/client-requests.ts).
  *
  * Per MCP spec:
  * - Sampling is a CLIENT capability
  * - Servers send sampling/createMessage requests TO clients
  * - Clients handle the actual LLM interaction
  * - This enables agentic behaviors in server tools
+ *
+ * Every function accepts the McpServer or a request-scoped ClientChannel.
  */
 
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CreateMessageResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { ClientChannel } from '../types/context.js';
 import { logger } from './logger.js';
 
 /**
@@ -132,7 +136,7 @@ export interface CreateMessageResponse {
  * ```
  */
 export async function requestSampling(
-  server: McpServer,
+  server: McpServer | ClientChannel,
   request: CreateMessageRequest,
 ): Promise<CreateMessageResponse> {
   logger.debug('sampling', {
@@ -181,8 +185,8 @@ export async function requestSampling(
           toolChoice: request.toolChoice,
         },
       },
-      // Schema for validation (SDK requires a Zod schema or compatible object)
-      { parse: (r: unknown) => r as CreateMessageResponse },
+      // The SDK validates the result with safeParse, so pass its own schema
+      CreateMessageResultSchema,
     )) as CreateMessageResponse;
 
     logger.info('sampling', {
@@ -212,14 +216,15 @@ export async function requestSampling(
 /**
  * Check if the client supports sampling.
  *
- * @param server - The MCP server instance
- * @returns true if client declared sampling capability
+ * @param server - The MCP server instance or a request-scoped channel
+ * @returns true if client declared sampling capability (and the channel can
+ * send requests to it - Workers JSON responses can't)
  */
-export function clientSupportsSampling(server: McpServer): boolean {
+export function clientSupportsSampling(server: McpServer | ClientChannel): boolean {
   try {
     const lowLevel = (server as any).server ?? server;
     const clientCapabilities = lowLevel.getClientCapabilities?.() ?? {};
-    return Boolean(clientCapabilities.sampling);
+    return Boolean(clientCapabilities.sampling) && typeof lowLevel.request === 'function';
   } catch {
     return false;
   }
@@ -231,7 +236,7 @@ export function clientSupportsSampling(server: McpServer): boolean {
  * @param server - The MCP server instance
  * @returns true if client declared sampling.tools capability
  */
-export function clientSupportsSamplingTools(server: McpServer): boolean {
+export function clientSupportsSamplingTools(server: McpServer | ClientChannel): boolean {
   try {
     const lowLevel = (server as any).server ?? server;
     const clientCapabilities = lowLevel.getClientCapabilities?.() ?? {};
@@ -259,7 +264,7 @@ export function clientSupportsSamplingTools(server: McpServer): boolean {
  * ```
  */
 export async function requestTextCompletion(
-  server: McpServer,
+  server: McpServer | ClientChannel,
   prompt: string,
   maxTokens: number,
   options?: Omit<CreateMessageRequest, 'messages' | 'maxTokens'>,
@@ -4,34 +4,19 @@
  */
 
 import { Router } from 'itty-router';
-import { parseConfig } from './shared/config/env.js';
 import { corsPreflightResponse, withCors } from './shared/http/cors.js';
-import { handleMcpRequest } from './adapters/http-workers/mcp.handler.js';
+import { serveStoredFile } from './shared/http/files.js';
+import { handleMcpDelete, handleMcpGet, handleMcpRequest } from './adapters/http-workers/mcp.handler.js';
+import { setupRuntime, type WorkerEnv } from './adapters/http-workers/runtime.js';
+import { forwardToSession } from './adapters/http-workers/session.durable-object.js';
+import { getOutputStorage, runOutputCleanup } from './services/storage/output-storage.js';
 
-export interface WorkerEnv {
-  REPLICATE_API_TOKEN?: string;
-  MCP_TITLE?: string;
-  MCP_VERSION?: string;
-  NODE_ENV?: string;
-  LOG_LEVEL?: string;
-  [key: string]: unknown;
-}
-
-/**
- * Shim process.env for shared modules.
- */
-function shimProcessEnv(env: WorkerEnv): void {
-  const g = globalThis as unknown as {
-    process?: { env?: Record<string, unknown> };
-  };
-  g.process = g.process || {};
-  g.process.env = { ...(g.process.env ?? {}), ...(env as Record<string, unknown>) };
-}
+export type { WorkerEnv } from './adapters/http-workers/runtime.js';
+export { McpSessionObject } from './adapters/http-workers/session.durable-object.js';
 
 export default {
   async fetch(request: Request, env: WorkerEnv): Promise<Response> {
-    shimProcessEnv(env);
-    const config = parseConfig(env as Record<string, unknown>);
+    const config = setupRuntime(env, new URL(request.url).origin);
     const router = Router();
 
     // CORS preflight
@@ -50,12 +35,35 @@ export default {
       ),
     );
 
-    // MCP endpoint
-    router.post('/mcp', (req: Request) => handleMcpRequest(req, { config }));
+    // Stored outputs (public - keys are unguessable prediction IDs)
+    router.get('/files/:predictionId/:filename', (req: Request & { params: Record<string, string> }) =>
+      serveStoredFile(getOutputStorage(), `${req.params.predictionId}/${req.params.filename}`),
+    );
+
+    // MCP endpoint - handled by the session's Durable Object when MCP_SESSIONS is bound
+    const sessions = env.MCP_SESSIONS;
+    if (sessions) {
+      router.post('/mcp', (req: Request) => forwardToSession(sessions, req));
+      router.get('/mcp', (req: Request) => forwardToSession(sessions, req));
+      router.delete('/mcp', (req: Request) => forwardToSession(sessions, req));
+    } else {
+      router.post('/mcp', (req: Request) => handleMcpRequest(req, { config }));
+      router.get('/mcp', (req: Request) => handleMcpGet(req, { config }));
+      router.delete('/mcp', (req: Request) => handleMcpDelete(req, { config }));
+    }
 
     // 404
     router.all('*', () => withCors(new Response('Not Found', { status: 404 })));
 
     return router.fetch(request);
   },
+
+  /**
+   * Cron trigger: remove stored outputs past the retention period.
+   */
+  async scheduled(_event: unknown, env: WorkerEnv): Promise<void> {
+    // Stored output URLs fall back to PUBLIC_URL without a request origin
+    setupRuntime(env, '');
+    await runOutputCleanup();
+  },
 };